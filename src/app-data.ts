@@ -0,0 +1,260 @@
+/**
+ * App-private data helpers for the ADB MCP Server
+ *
+ * Builds `run-as` commands for debuggable packages, resolves paths inside
+ * the app's data directory and reads and edits SharedPreferences XML.
+ */
+
+import { posix } from "path";
+import { quoteShellArgument } from "./input";
+import { decodeXmlEntities, parseAttributes } from "./ui";
+
+export type SharedPrefType = "string" | "int" | "long" | "float" | "boolean" | "set";
+export type SharedPrefValue = string | number | boolean | string[];
+
+export interface SharedPref {
+  type: SharedPrefType;
+  value: SharedPrefValue;
+}
+
+export type SharedPrefs = Record<string, SharedPref>;
+
+const PACKAGE_NAME_PATTERN = /^[A-Za-z][\w]*(?:\.[A-Za-z][\w]*)+$/;
+
+/**
+ * Checks a package name so it can be used in shell commands unquoted
+ */
+export function validatePackageName(packageName: string): string {
+  const trimmed = packageName.trim();
+  if (!PACKAGE_NAME_PATTERN.test(trimmed)) {
+    throw new Error(`Invalid package name: ${packageName}`);
+  }
+  return trimmed;
+}
+
+/**
+ * Resolves a path inside the app's data directory, relative to it
+ *
+ * Absolute paths under /data/data/<package> or /data/user/<id>/<package>
+ * are accepted too.
+ */
+export function normalizeAppPath(packageName: string, path: string | undefined): string {
+  const trimmed = (path ?? "").trim();
+  const outside = () => new Error(`${trimmed} is outside the data directory of ${packageName}`);
+  let relative = trimmed;
+  if (trimmed.startsWith("/")) {
+    const match = new RegExp(`^/data/(?:data|user/\\d+)/${packageName.replace(/\./g, "\\.")}(?=/|$)`).exec(trimmed);
+    if (!match) {
+      throw outside();
+    }
+    relative = trimmed.slice(match[0].length).replace(/^\/+/, "");
+  }
+
+  const normalized = posix.normalize(relative || ".").replace(/\/+$/, "");
+  if (normalized === ".." || normalized.startsWith("../")) {
+    throw outside();
+  }
+  return normalized || ".";
+}
+
+/**
+ * Shell command running a command as the app's user in its data directory
+ */
+export function buildRunAsCommand(packageName: string, command: string): string {
+  return `run-as ${packageName} sh -c ${quoteShellArgument(command)}`;
+}
+
+/**
+ * Turns run-as failures into an explanation
+ *
+ * @returns undefined when the output is not a run-as failure
+ */
+export function describeRunAsFailure(output: string, packageName: string): string | undefined {
+  if (/run-as: (?:package not debuggable|Package '[^']*' is not debuggable)/i.test(output)) {
+    return `${packageName} is not debuggable; run-as only works for debuggable builds`;
+  }
+  if (/run-as: (?:unknown package|Package '[^']*' is unknown)/i.test(output)) {
+    return `${packageName} is not installed`;
+  }
+  if (/run-as: (?:package not an application|Package '[^']*' has corrupt installation)/i.test(output)) {
+    return `${packageName} cannot be used with run-as`;
+  }
+  const match = /run-as: (.+)/.exec(output);
+  return match ? `run-as failed: ${match[1].trim()}` : undefined;
+}
+
+/**
+ * Path of a SharedPreferences file, with or without the .xml extension
+ */
+export function sharedPrefsPath(file: string): string {
+  const name = file.trim().replace(/\.xml$/, "");
+  if (!name || name.includes("/")) {
+    throw new Error(`Invalid shared preferences file name: ${file}`);
+  }
+  return `shared_prefs/${name}.xml`;
+}
+
+function parseNumber(value: string | undefined, type: SharedPrefType): number | string {
+  const number = Number(value);
+  if (value === undefined || Number.isNaN(number)) {
+    throw new Error(`Invalid ${type} value: ${value}`);
+  }
+  // Longs beyond 2^53 keep their exact digits
+  return type === "long" && !Number.isSafeInteger(number) ? value : number;
+}
+
+/**
+ * Parses a SharedPreferences XML file
+ */
+export function parseSharedPrefs(xml: string): SharedPrefs {
+  if (!/<map\b/.test(xml)) {
+    throw new Error("Not a shared preferences file (no <map> element)");
+  }
+  const prefs: SharedPrefs = {};
+  const elementPattern = /<(string|int|long|float|boolean|set)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = elementPattern.exec(xml)) !== null) {
+    const [, type, attributeSource, body] = match;
+    const attributes = parseAttributes(attributeSource);
+    if (attributes.name === undefined) {
+      continue;
+    }
+    let value: SharedPrefValue;
+    switch (type) {
+      case "string":
+        value = decodeXmlEntities(body ?? "");
+        break;
+      case "boolean":
+        value = attributes.value === "true";
+        break;
+      case "set":
+        value = Array.from((body ?? "").matchAll(/<string>([\s\S]*?)<\/string>|<string\s*\/>/g), (item) => decodeXmlEntities(item[1] ?? ""));
+        break;
+      default:
+        value = parseNumber(attributes.value, type as SharedPrefType);
+    }
+    prefs[attributes.name] = { type: type as SharedPrefType, value };
+  }
+  return prefs;
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Writes SharedPreferences in the format Android uses
+ */
+export function serializeSharedPrefs(prefs: SharedPrefs): string {
+  const lines = ["<?xml version='1.0' encoding='utf-8' standalone='yes' ?>"];
+  const names = Object.keys(prefs);
+  if (names.length === 0) {
+    lines.push("<map />");
+    return `${lines.join("\n")}\n`;
+  }
+
+  lines.push("<map>");
+  for (const name of names) {
+    const { type, value } = prefs[name];
+    const nameAttribute = `name="${encodeXml(name)}"`;
+    if (type === "string") {
+      lines.push(`    <string ${nameAttribute}>${encodeXml(String(value))}</string>`);
+    } else if (type === "set") {
+      const items = value as string[];
+      if (items.length === 0) {
+        lines.push(`    <set ${nameAttribute} />`);
+      } else {
+        lines.push(`    <set ${nameAttribute}>`, ...items.map((item) => `        <string>${encodeXml(item)}</string>`), "    </set>");
+      }
+    } else {
+      lines.push(`    <${type} ${nameAttribute} value="${encodeXml(String(value))}" />`);
+    }
+  }
+  lines.push("</map>");
+  return `${lines.join("\n")}\n`;
+}
+
+function inferType(value: SharedPrefValue): SharedPrefType {
+  if (Array.isArray(value)) {
+    return "set";
+  }
+  if (typeof value === "boolean") {
+    return "boolean";
+  }
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) {
+      return "float";
+    }
+    return value >= -2147483648 && value <= 2147483647 ? "int" : "long";
+  }
+  return "string";
+}
+
+function coerceValue(name: string, value: SharedPrefValue, type: SharedPrefType): SharedPrefValue {
+  const invalid = () => new Error(`Value of ${name} is not a valid ${type}: ${JSON.stringify(value)}`);
+  switch (type) {
+    case "string":
+      if (Array.isArray(value)) {
+        throw invalid();
+      }
+      return String(value);
+    case "boolean":
+      if (typeof value === "boolean") {
+        return value;
+      }
+      if (value === "true" || value === "false") {
+        return value === "true";
+      }
+      throw invalid();
+    case "set":
+      if (!Array.isArray(value)) {
+        throw invalid();
+      }
+      return value.map(String);
+    case "int":
+    case "long": {
+      if (typeof value === "string" && type === "long" && /^-?\d+$/.test(value)) {
+        return parseNumber(value, type);
+      }
+      const number = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+      if (!Number.isInteger(number) || (type === "int" && (number < -2147483648 || number > 2147483647))) {
+        throw invalid();
+      }
+      return number;
+    }
+    case "float": {
+      const number = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+      if (!Number.isFinite(number)) {
+        throw invalid();
+      }
+      return number;
+    }
+  }
+}
+
+/**
+ * Applies edits to SharedPreferences
+ *
+ * A key keeps its current type unless one is given in `types`; new keys
+ * get a type inferred from the JSON value (integers in 32 bits become int).
+ */
+export function applySharedPrefsEdits(
+  prefs: SharedPrefs,
+  set: Record<string, SharedPrefValue> = {},
+  types: Record<string, SharedPrefType> = {},
+  remove: string[] = []
+): SharedPrefs {
+  const edited: SharedPrefs = { ...prefs };
+  for (const name of remove) {
+    delete edited[name];
+  }
+  for (const [name, value] of Object.entries(set)) {
+    const type = types[name] ?? edited[name]?.type ?? inferType(value);
+    edited[name] = { type, value: coerceValue(name, value, type) };
+  }
+  return edited;
+}
@@ -0,0 +1,74 @@
+/**
+ * Archive helpers for the ADB MCP Server
+ *
+ * Packs pulled directories as tar or ZIP and unpacks uploaded archives,
+ * with entry names checked so nothing is written outside the target.
+ */
+
+import { posix } from "path";
+import { createTar, isTar, readTarEntries } from "./tar";
+import { createZip, isZip, readZipEntries } from "./zip";
+
+export type ArchiveFormat = "tar" | "zip";
+
+export interface ArchiveFile {
+  /** Path relative to the archive root, "/" separated */
+  name: string;
+  data: Buffer;
+  directory?: boolean;
+  /** Permission bits */
+  mode?: number;
+  mtime?: Date;
+}
+
+/**
+ * Builds an archive in the given format
+ */
+export function createArchive(format: ArchiveFormat, files: ArchiveFile[]): Buffer {
+  return format === "zip" ? createZip(files) : createTar(files);
+}
+
+/**
+ * Detects the archive format from its first bytes
+ */
+export function detectArchiveFormat(archive: Buffer): ArchiveFormat {
+  if (isZip(archive)) {
+    return "zip";
+  }
+  if (isTar(archive)) {
+    return "tar";
+  }
+  throw new Error("Unsupported archive: expected a tar or ZIP file");
+}
+
+/**
+ * Normalizes an archive entry name to a safe relative path
+ *
+ * @throws When the name is absolute or escapes the archive root
+ */
+export function normalizeArchivePath(name: string): string {
+  const normalized = posix.normalize(name.replace(/\\/g, "/")).replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+  if (normalized.startsWith("/") || normalized === ".." || normalized.startsWith("../")) {
+    throw new Error(`Unsafe path in archive: ${name}`);
+  }
+  return normalized === "." ? "" : normalized;
+}
+
+/**
+ * Reads all files and directories of a tar or ZIP archive
+ */
+export function readArchive(archive: Buffer): { format: ArchiveFormat; files: ArchiveFile[] } {
+  const format = detectArchiveFormat(archive);
+  const entries = format === "zip"
+    ? readZipEntries(archive).map((entry): ArchiveFile => ({
+      name: entry.name,
+      directory: entry.directory,
+      data: entry.directory ? Buffer.alloc(0) : entry.read()
+    }))
+    : readTarEntries(archive);
+
+  const files = entries
+    .map((entry) => ({ ...entry, name: normalizeArchivePath(entry.name) }))
+    .filter((entry) => entry.name !== "");
+  return { format, files };
+}
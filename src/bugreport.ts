@@ -0,0 +1,431 @@
+/**
+ * Bugreport parsing for the ADB MCP Server
+ *
+ * Summarizes the zip written by `adb bugreport`: the dumpstate header,
+ * ANRs from the event log and the ANR trace files, tombstones, the largest
+ * processes from `dumpsys meminfo`, the battery headline and an index of
+ * the dumpstate and dumpsys sections.
+ */
+
+import { BatteryInfo, parseDumpsysBattery } from "./devices";
+
+/** The parts of a ZIP entry the parser needs */
+export interface BugreportEntry {
+  name: string;
+  read(): Buffer;
+}
+
+export interface BugreportUptime {
+  /** As printed, e.g. "up 0 weeks, 0 days, 2 hours, 13 minutes" */
+  text: string;
+  seconds?: number;
+  loadAverage?: number[];
+}
+
+export interface BugreportAnr {
+  timestamp?: string;
+  package?: string;
+  pid?: number;
+  reason?: string;
+  /** ANR trace file in the zip */
+  file?: string;
+}
+
+export interface BugreportTombstone {
+  file: string;
+  timestamp?: string;
+  package?: string;
+  pid?: number;
+  tid?: number;
+  threadName?: string;
+  signal?: number;
+  signalName?: string;
+  code?: string;
+  faultAddress?: string;
+  abortMessage?: string;
+  cause?: string;
+  backtrace: string[];
+}
+
+export interface BugreportProcessMemory {
+  process: string;
+  pid: number;
+  pssKb: number;
+}
+
+export interface BugreportMemory {
+  totalRamKb?: number;
+  freeRamKb?: number;
+  usedRamKb?: number;
+  /** Largest processes by PSS, biggest first */
+  topProcesses: BugreportProcessMemory[];
+}
+
+export interface BugreportBattery extends BatteryInfo {
+  /** From batterystats, e.g. "1h 2m 3s 456ms" */
+  timeOnBattery?: string;
+  estimatedCapacityMah?: number;
+  computedDrainMah?: number;
+}
+
+export interface BugreportSection {
+  name: string;
+  /** Command or file the section was produced from */
+  source?: string;
+  lines: number;
+  durationSec?: number;
+}
+
+export interface BugreportDumpsysSection {
+  service: string;
+  /** CRITICAL, HIGH or NORMAL for services dumped by priority */
+  priority?: string;
+  lines: number;
+  durationSec?: number;
+}
+
+export interface BugreportSummary {
+  mainEntry?: string;
+  dumpstateTime?: string;
+  build?: string;
+  fingerprint?: string;
+  kernel?: string;
+  uptime?: BugreportUptime;
+  anrs: BugreportAnr[];
+  tombstones: BugreportTombstone[];
+  memory?: BugreportMemory;
+  battery?: BugreportBattery;
+  sections: BugreportSection[];
+  dumpsys: BugreportDumpsysSection[];
+}
+
+export interface BugreportExcerpt {
+  name: string;
+  lines: string[];
+  truncated: boolean;
+}
+
+const MAX_ANRS = 20;
+const MAX_TOMBSTONES = 20;
+const MAX_BACKTRACE_FRAMES = 16;
+const TOP_PROCESSES = 10;
+
+const SECTION_HEADER = /^------ (.+?)(?: \((.*)\))? ------$/;
+const SECTION_DURATION = /^------ ([\d.]+)s was the duration of '(.*)'/;
+const SERVICE_HEADER = /^DUMP OF SERVICE (?:(CRITICAL|HIGH|NORMAL) )?(\S+):$/;
+const SERVICE_DURATION = /^--------- ([\d.]+)s was the duration of dumpsys (\S+)/;
+const SERVICE_SEPARATOR = /^-{70,}$/;
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+interface SectionRange extends Range {
+  name: string;
+  source?: string;
+  durationSec?: number;
+}
+
+interface ServiceRange extends Range {
+  service: string;
+  priority?: string;
+  durationSec?: number;
+}
+
+/**
+ * Finds the last progress percentage in `adb bugreport` output
+ * ("[ 42%] generating bugreport-....zip")
+ */
+export function parseBugreportProgress(output: string): number | undefined {
+  const matches = Array.from(output.matchAll(/\[\s*(\d+)%\]/g));
+  return matches.length > 0 ? parseInt(matches[matches.length - 1][1], 10) : undefined;
+}
+
+/**
+ * Finds the main bugreport text in the zip: the entry named by
+ * main_entry.txt, or the bugreport-*.txt file
+ */
+export function findMainEntry(entries: BugreportEntry[]): BugreportEntry {
+  const pointer = entries.find((entry) => entry.name === "main_entry.txt");
+  const name = pointer?.read().toString("utf8").trim();
+  const main = (name && entries.find((entry) => entry.name === name)) ||
+    entries.find((entry) => /^bugreport-.*\.txt$/.test(entry.name));
+  if (!main) {
+    throw new Error("No bugreport text found in the zip");
+  }
+  return main;
+}
+
+function toKb(value: string): number {
+  return parseInt(value.replace(/,/g, ""), 10);
+}
+
+/**
+ * Splits the bugreport text into dumpstate sections and dumpsys services
+ */
+function indexSections(lines: string[]): { sections: SectionRange[]; services: ServiceRange[] } {
+  const sections: SectionRange[] = [];
+  const services: ServiceRange[] = [];
+  let section: SectionRange | undefined;
+  let service: ServiceRange | undefined;
+
+  const closeService = (end: number) => {
+    if (service) {
+      service.end = end;
+      services.push(service);
+      service = undefined;
+    }
+  };
+  const closeSection = (end: number) => {
+    closeService(end);
+    if (section) {
+      section.end = end;
+      sections.push(section);
+      section = undefined;
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const duration = SECTION_DURATION.exec(line);
+    if (duration) {
+      const finished = section?.name === duration[2] ? section : sections.find((candidate) => candidate.name === duration[2]);
+      if (finished) {
+        finished.durationSec = parseFloat(duration[1]);
+      }
+      closeSection(index);
+      return;
+    }
+    const header = SECTION_HEADER.exec(line);
+    if (header) {
+      closeSection(index);
+      section = { name: header[1], source: header[2], start: index + 1, end: lines.length };
+      return;
+    }
+    const serviceHeader = SERVICE_HEADER.exec(line);
+    if (serviceHeader) {
+      closeService(index);
+      service = { service: serviceHeader[2], priority: serviceHeader[1], start: index + 1, end: lines.length };
+      return;
+    }
+    const serviceDuration = SERVICE_DURATION.exec(line);
+    if (serviceDuration && service) {
+      service.durationSec = parseFloat(serviceDuration[1]);
+      closeService(index);
+      return;
+    }
+    if (SERVICE_SEPARATOR.test(line)) {
+      closeService(index);
+    }
+  });
+  closeSection(lines.length);
+  return { sections, services };
+}
+
+function parseUptime(text: string): BugreportUptime | undefined {
+  const header = /^Uptime: (up .*?)(?:, load average: (.*))?$/m.exec(text);
+  if (!header) {
+    return undefined;
+  }
+  const uptime: BugreportUptime = { text: header[1].trim() };
+  const units: Record<string, number> = { week: 604800, day: 86400, hour: 3600, minute: 60, second: 1 };
+  let seconds = 0;
+  for (const match of header[1].matchAll(/(\d+) (week|day|hour|minute|second)s?/g)) {
+    seconds += parseInt(match[1], 10) * units[match[2]];
+  }
+  if (seconds > 0) {
+    uptime.seconds = seconds;
+  }
+  if (header[2]) {
+    uptime.loadAverage = header[2].split(",").map((value) => parseFloat(value)).filter((value) => !Number.isNaN(value));
+  }
+  return uptime;
+}
+
+/**
+ * ANRs from `am_anr` events: [user, pid, package, flags, reason]
+ */
+function parseAnrEvents(lines: string[]): BugreportAnr[] {
+  const anrs: BugreportAnr[] = [];
+  const seen = new Set<string>();
+  for (const line of lines) {
+    const match = /^(\d\d-\d\d \d\d:\d\d:\d\d\.\d+)\s.*?\bam_anr\s*:\s*\[-?\d+,(\d+),([^,]+),-?\d+,(.*)\]\s*$/.exec(line);
+    if (!match || seen.has(line)) {
+      continue;
+    }
+    seen.add(line);
+    anrs.push({ timestamp: match[1], package: match[3], pid: parseInt(match[2], 10), reason: match[4].trim() });
+  }
+  return anrs;
+}
+
+/**
+ * Adds the ANR trace files in FS/data/anr, matched to the events by PID
+ */
+function addAnrFiles(anrs: BugreportAnr[], entries: BugreportEntry[]): void {
+  for (const entry of entries.filter((candidate) => /(?:^|\/)data\/anr\/anr_[^/]+$/.test(candidate.name))) {
+    const text = entry.read().toString("utf8");
+    const process = /^----- pid (\d+) at (\S+ \S+) -----\s*\nCmd line: (\S+)/m.exec(text);
+    const pid = process ? parseInt(process[1], 10) : undefined;
+    const existing = anrs.find((anr) => pid !== undefined && anr.pid === pid && !anr.file);
+    if (existing) {
+      existing.file = entry.name;
+      continue;
+    }
+    anrs.push({
+      timestamp: process?.[2],
+      package: process?.[3],
+      pid,
+      reason: /^Subject: (.*)$/m.exec(text)?.[1].trim(),
+      file: entry.name
+    });
+  }
+}
+
+/**
+ * Parses the header of a tombstone file
+ */
+export function parseTombstone(file: string, text: string): BugreportTombstone {
+  const tombstone: BugreportTombstone = { file, backtrace: [] };
+  const process = /^pid: (\d+), tid: (\d+), name: (.*?)\s+>>> (.*?) <<<$/m.exec(text);
+  if (process) {
+    tombstone.pid = parseInt(process[1], 10);
+    tombstone.tid = parseInt(process[2], 10);
+    tombstone.threadName = process[3];
+    tombstone.package = process[4];
+  }
+  const signal = /^signal (\d+) \((\w+)\), code (-?\d+ \(\w+\)|-?\d+)(?:.*?, fault addr (\S+))?/m.exec(text);
+  if (signal) {
+    tombstone.signal = parseInt(signal[1], 10);
+    tombstone.signalName = signal[2];
+    tombstone.code = signal[3];
+    tombstone.faultAddress = signal[4];
+  }
+  tombstone.timestamp = /^Timestamp: (.*)$/m.exec(text)?.[1].trim();
+  tombstone.abortMessage = /^Abort message: '(.*)'$/m.exec(text)?.[1];
+  tombstone.cause = /^Cause: (.*)$/m.exec(text)?.[1].trim();
+
+  // Only the crashing thread's backtrace, which comes first
+  const lines = text.split(/\r?\n/);
+  const start = lines.findIndex((line) => /^backtrace:/.test(line));
+  if (start >= 0) {
+    for (const line of lines.slice(start + 1)) {
+      if (!/^\s+#\d+ pc /.test(line)) {
+        break;
+      }
+      if (tombstone.backtrace.length < MAX_BACKTRACE_FRAMES) {
+        tombstone.backtrace.push(line.trim());
+      }
+    }
+  }
+  return tombstone;
+}
+
+function parseMeminfo(lines: string[]): BugreportMemory | undefined {
+  const start = lines.findIndex((line) => /^Total PSS by process:/.test(line));
+  const ram = (label: string) => {
+    const match = new RegExp(`^\\s*${label} RAM:\\s*([\\d,]+)K`, "m").exec(lines.join("\n"));
+    return match ? toKb(match[1]) : undefined;
+  };
+  if (start < 0 && ram("Total") === undefined) {
+    return undefined;
+  }
+
+  const topProcesses: BugreportProcessMemory[] = [];
+  for (const line of start >= 0 ? lines.slice(start + 1) : []) {
+    const match = /^\s*([\d,]+)K: (.+?) \(pid (\d+)/.exec(line);
+    if (!match) {
+      break;
+    }
+    topProcesses.push({ process: match[2], pid: parseInt(match[3], 10), pssKb: toKb(match[1]) });
+  }
+  return {
+    totalRamKb: ram("Total"),
+    freeRamKb: ram("Free"),
+    usedRamKb: ram("Used"),
+    topProcesses: topProcesses.sort((a, b) => b.pssKb - a.pssKb).slice(0, TOP_PROCESSES)
+  };
+}
+
+function parseBatterystats(lines: string[]): Partial<BugreportBattery> {
+  const text = lines.join("\n");
+  const number = (pattern: RegExp) => {
+    const value = pattern.exec(text)?.[1];
+    return value !== undefined ? parseFloat(value) : undefined;
+  };
+  return {
+    timeOnBattery: /^\s*Time on battery: (.*?) \(/m.exec(text)?.[1],
+    estimatedCapacityMah: number(/^\s*Estimated battery capacity: ([\d.]+) mAh/m),
+    computedDrainMah: number(/Computed drain: ([\d.]+)/)
+  };
+}
+
+function serviceLines(lines: string[], services: ServiceRange[], name: string): string[] | undefined {
+  const service = services.find((candidate) => candidate.service === name);
+  return service ? lines.slice(service.start, service.end) : undefined;
+}
+
+/**
+ * Summarizes a bugreport
+ *
+ * @param text - The main bugreport text
+ * @param entries - The other zip entries, for ANR traces and tombstones
+ */
+export function parseBugreport(text: string, entries: BugreportEntry[] = []): BugreportSummary {
+  const lines = text.split(/\r?\n/);
+  const { sections, services } = indexSections(lines);
+  const header = (key: string) => new RegExp(`^${key}: (.*)$`, "m").exec(text)?.[1].trim();
+
+  const anrs = parseAnrEvents(lines);
+  addAnrFiles(anrs, entries);
+
+  const tombstones = entries
+    .filter((entry) => /(?:^|\/)tombstones\/tombstone_\d+$/.test(entry.name))
+    .map((entry) => parseTombstone(entry.name, entry.read().toString("utf8")))
+    .sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""))
+    .slice(0, MAX_TOMBSTONES);
+
+  const meminfoLines = serviceLines(lines, services, "meminfo");
+  const batteryLines = serviceLines(lines, services, "battery");
+  const batterystatsLines = serviceLines(lines, services, "batterystats");
+  const battery = batteryLines || batterystatsLines
+    ? {
+      ...(batteryLines ? parseDumpsysBattery(batteryLines.join("\n")) : {}),
+      ...(batterystatsLines ? parseBatterystats(batterystatsLines) : {})
+    }
+    : undefined;
+
+  return {
+    dumpstateTime: /^== dumpstate: (.*)$/m.exec(text)?.[1].trim(),
+    build: header("Build"),
+    fingerprint: header("Build fingerprint")?.replace(/^'(.*)'$/, "$1"),
+    kernel: header("Kernel"),
+    uptime: parseUptime(text),
+    anrs: anrs.slice(-MAX_ANRS),
+    tombstones,
+    memory: meminfoLines ? parseMeminfo(meminfoLines) : undefined,
+    battery,
+    sections: sections.map(({ name, source, start, end, durationSec }) => ({ name, source, lines: end - start, durationSec })),
+    dumpsys: services.map(({ service, priority, start, end, durationSec }) => ({ service, priority, lines: end - start, durationSec }))
+  };
+}
+
+/**
+ * Text of dumpstate sections ("MEMORY INFO") and dumpsys services
+ * ("dumpsys meminfo" or "meminfo"); names the bugreport lacks are skipped
+ */
+export function extractBugreportSections(text: string, names: string[], maxLines: number): BugreportExcerpt[] {
+  const lines = text.split(/\r?\n/);
+  const { sections, services } = indexSections(lines);
+  const excerpts: BugreportExcerpt[] = [];
+  for (const name of names) {
+    const service = name.trim().replace(/^dumpsys\s+/i, "");
+    const range = sections.find((section) => section.name.toLowerCase() === name.trim().toLowerCase()) ??
+      services.find((candidate) => candidate.service === service);
+    if (range) {
+      const selected = lines.slice(range.start, range.end);
+      excerpts.push({ name, lines: selected.slice(0, maxLines), truncated: selected.length > maxLines });
+    }
+  }
+  return excerpts;
+}
@@ -0,0 +1,383 @@
+/**
+ * Configuration for the ADB MCP Server
+ *
+ * Settings are resolved from (lowest to highest precedence):
+ * built-in defaults, a JSON config file, environment variables and
+ * command line flags.
+ */
+
+import { readFileSync, existsSync } from "fs";
+import { resolve } from "path";
+import { PolicyConfig, DEFAULT_POLICY, validatePolicyRules } from "./policy";
+
+export interface AdbMcpConfig {
+  /** adb executable (name on PATH or absolute path) */
+  adbPath: string;
+  /** Host of the adb server (`adb -H`), for a remote adb server */
+  serverHost?: string;
+  /** Port of the adb server (`adb -P`) */
+  serverPort?: number;
+  /** Serial used when a tool call does not name a device */
+  defaultDevice?: string;
+  /** Default timeout for adb invocations in milliseconds (0 disables it) */
+  defaultTimeoutMs: number;
+  /** Per-tool timeout overrides in milliseconds, keyed by tool name */
+  toolTimeouts: Record<string, number>;
+  /** Safety policy for adb_shell, am and pm commands */
+  policy: PolicyConfig;
+  /** "stdio" (default) or "http" for Streamable HTTP and legacy SSE */
+  transport: TransportMode;
+  /** Address the HTTP transport binds to */
+  httpHost: string;
+  /** Port of the HTTP transport */
+  httpPort: number;
+  /** Bearer token HTTP clients must send; HTTP is unauthenticated without it */
+  authToken?: string;
+  /** Extra host names HTTP clients may use in Host and Origin headers (localhost is always allowed) */
+  allowedHosts?: string[];
+  /** Config file that was loaded, if any */
+  configFile?: string;
+}
+
+export type TransportMode = "stdio" | "http";
+
+export type ConfigSource = "default" | "file" | "env" | "cli";
+
+export interface LoadedConfig {
+  config: AdbMcpConfig;
+  /** Where each setting came from, for the config resource */
+  sources: Partial<Record<keyof AdbMcpConfig, ConfigSource>>;
+}
+
+export const DEFAULT_CONFIG_FILE = "adb-mcp.config.json";
+
+/**
+ * Tools that routinely move large files get a longer default
+ */
+const DEFAULT_TOOL_TIMEOUTS: Record<string, number> = {
+  adb_install: 300000,
+  adb_pull: 300000,
+  adb_push: 300000,
+  adb_pull_dir: 300000,
+  adb_push_dir: 300000,
+  adb_bugreport: 600000,
+  screenrecord_stop: 300000
+};
+
+const DEFAULT_CONFIG: AdbMcpConfig = {
+  adbPath: "adb",
+  defaultTimeoutMs: 60000,
+  toolTimeouts: DEFAULT_TOOL_TIMEOUTS,
+  policy: DEFAULT_POLICY,
+  transport: "stdio",
+  httpHost: "127.0.0.1",
+  httpPort: 3000
+};
+
+type PartialConfig = Partial<Omit<AdbMcpConfig, "configFile" | "policy">> & {
+  policy?: Partial<PolicyConfig>;
+};
+
+function parsePort(value: string | number, origin: string): number {
+  const port = typeof value === "number" ? value : parseInt(value, 10);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid adb server port from ${origin}: ${value}`);
+  }
+  return port;
+}
+
+function parseTransport(value: string, origin: string): TransportMode {
+  if (value !== "stdio" && value !== "http") {
+    throw new Error(`Invalid transport from ${origin}: ${value} (expected stdio or http)`);
+  }
+  return value;
+}
+
+function parseTimeout(value: string | number, origin: string): number {
+  const timeout = typeof value === "number" ? value : parseInt(value, 10);
+  if (!Number.isInteger(timeout) || timeout < 0) {
+    throw new Error(`Invalid timeout from ${origin}: ${value}`);
+  }
+  return timeout;
+}
+
+/**
+ * Parses per-tool timeouts, either an object ({"adb_install": 600000})
+ * or a "tool=ms,tool=ms" list
+ */
+function parseToolTimeouts(value: unknown, origin: string): Record<string, number> {
+  const entries: Array<[string, string | number]> = typeof value === "string"
+    ? value.split(",").filter((entry) => entry.trim()).map((entry) => {
+      const [tool, timeout] = entry.split("=");
+      return [tool?.trim() ?? "", timeout?.trim() ?? ""];
+    })
+    : value && typeof value === "object" && !Array.isArray(value)
+      ? Object.entries(value as Record<string, string | number>)
+      : [];
+  if (entries.length === 0 && value !== undefined && typeof value !== "string") {
+    throw new Error(`Invalid tool timeouts from ${origin}: expected an object of tool names to milliseconds`);
+  }
+
+  const result: Record<string, number> = {};
+  for (const [tool, timeout] of entries) {
+    if (!tool) {
+      throw new Error(`Invalid tool timeout entry from ${origin}`);
+    }
+    result[tool] = parseTimeout(timeout, `${origin} (${tool})`);
+  }
+  return result;
+}
+
+/**
+ * Parses a host name list, either an array or a comma-separated string
+ */
+function parseHostList(value: unknown, origin: string): string[] {
+  const hosts = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : undefined;
+  if (!hosts || hosts.some((host) => typeof host !== "string")) {
+    throw new Error(`Invalid host list from ${origin}: expected an array or comma-separated host names`);
+  }
+  return (hosts as string[]).map((host) => host.trim()).filter((host) => host.length > 0);
+}
+
+function parseBoolean(value: string | boolean, origin: string): boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) return true;
+  if (["0", "false", "no", "off", ""].includes(normalized)) return false;
+  throw new Error(`Invalid boolean from ${origin}: ${value}`);
+}
+
+/**
+ * Parses the `policy` object of the config file
+ */
+function parsePolicy(value: unknown, origin: string): Partial<PolicyConfig> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`Invalid policy from ${origin}: expected an object`);
+  }
+  const policy = value as Record<string, unknown>;
+  const result: Partial<PolicyConfig> = {};
+  if (policy.readOnly !== undefined) result.readOnly = parseBoolean(policy.readOnly as boolean, `${origin} (policy.readOnly)`);
+  if (policy.defaultRules !== undefined) result.defaultRules = parseBoolean(policy.defaultRules as boolean, `${origin} (policy.defaultRules)`);
+  if (policy.rules !== undefined) result.rules = validatePolicyRules(policy.rules, origin);
+  return result;
+}
+
+/**
+ * Reads settings from a JSON config file
+ */
+function readConfigFile(path: string): PartialConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read config file ${path}: ${errorMsg}`);
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Config file ${path} must contain a JSON object`);
+  }
+
+  const file = raw as Record<string, unknown>;
+  const result: PartialConfig = {};
+  if (typeof file.adbPath === "string" && file.adbPath) result.adbPath = file.adbPath;
+  if (typeof file.serverHost === "string" && file.serverHost) result.serverHost = file.serverHost;
+  if (file.serverPort !== undefined) result.serverPort = parsePort(file.serverPort as number, path);
+  if (typeof file.defaultDevice === "string" && file.defaultDevice) result.defaultDevice = file.defaultDevice;
+  if (file.defaultTimeoutMs !== undefined) result.defaultTimeoutMs = parseTimeout(file.defaultTimeoutMs as number, path);
+  if (file.toolTimeouts !== undefined) result.toolTimeouts = parseToolTimeouts(file.toolTimeouts, path);
+  if (file.policy !== undefined) result.policy = parsePolicy(file.policy, path);
+  if (typeof file.transport === "string") result.transport = parseTransport(file.transport, path);
+  if (typeof file.httpHost === "string" && file.httpHost) result.httpHost = file.httpHost;
+  if (file.httpPort !== undefined) result.httpPort = parsePort(file.httpPort as number, path);
+  if (typeof file.authToken === "string" && file.authToken) result.authToken = file.authToken;
+  if (file.allowedHosts !== undefined) result.allowedHosts = parseHostList(file.allowedHosts, path);
+  return result;
+}
+
+/**
+ * Reads settings from environment variables. ADB_PATH matches the
+ * smithery.yaml option; ANDROID_SERIAL and ANDROID_ADB_SERVER_* are the
+ * variables adb itself understands.
+ */
+function readEnvironment(env: NodeJS.ProcessEnv): PartialConfig {
+  const result: PartialConfig = {};
+  if (env.ADB_PATH) result.adbPath = env.ADB_PATH;
+
+  const host = env.ADB_SERVER_HOST || env.ANDROID_ADB_SERVER_ADDRESS;
+  if (host) result.serverHost = host;
+
+  const port = env.ADB_SERVER_PORT || env.ANDROID_ADB_SERVER_PORT;
+  if (port) result.serverPort = parsePort(port, "environment");
+
+  const device = env.ADB_MCP_DEVICE || env.ANDROID_SERIAL;
+  if (device) result.defaultDevice = device;
+
+  if (env.ADB_MCP_TIMEOUT_MS) result.defaultTimeoutMs = parseTimeout(env.ADB_MCP_TIMEOUT_MS, "environment");
+  if (env.ADB_MCP_TOOL_TIMEOUTS) result.toolTimeouts = parseToolTimeouts(env.ADB_MCP_TOOL_TIMEOUTS, "environment");
+  if (env.ADB_MCP_READ_ONLY) result.policy = { readOnly: parseBoolean(env.ADB_MCP_READ_ONLY, "environment") };
+  if (env.ADB_MCP_TRANSPORT) result.transport = parseTransport(env.ADB_MCP_TRANSPORT, "environment");
+  if (env.ADB_MCP_HTTP_HOST) result.httpHost = env.ADB_MCP_HTTP_HOST;
+  if (env.ADB_MCP_HTTP_PORT) result.httpPort = parsePort(env.ADB_MCP_HTTP_PORT, "environment");
+  if (env.ADB_MCP_AUTH_TOKEN) result.authToken = env.ADB_MCP_AUTH_TOKEN;
+  if (env.ADB_MCP_ALLOWED_HOSTS) result.allowedHosts = parseHostList(env.ADB_MCP_ALLOWED_HOSTS, "environment");
+  return result;
+}
+
+/**
+ * Parses command line flags. Unknown flags are rejected so typos do not go unnoticed.
+ */
+function readArguments(argv: string[]): PartialConfig & { configFile?: string } {
+  const result: PartialConfig & { configFile?: string } = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    const [flag, inlineValue] = arg.startsWith("--") && arg.includes("=")
+      ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)]
+      : [arg, undefined];
+    const value = () => {
+      const next = inlineValue ?? argv[++index];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case "--adb-path":
+        result.adbPath = value();
+        break;
+      case "-H":
+      case "--host":
+        result.serverHost = value();
+        break;
+      case "-P":
+      case "--port":
+        result.serverPort = parsePort(value(), flag);
+        break;
+      case "-s":
+      case "--device":
+        result.defaultDevice = value();
+        break;
+      case "--timeout":
+        result.defaultTimeoutMs = parseTimeout(value(), flag);
+        break;
+      case "--tool-timeouts":
+        result.toolTimeouts = parseToolTimeouts(value(), flag);
+        break;
+      case "--read-only":
+        result.policy = { readOnly: true };
+        break;
+      case "--transport":
+        result.transport = parseTransport(value(), flag);
+        break;
+      case "--http-host":
+        result.httpHost = value();
+        break;
+      case "--http-port":
+        result.httpPort = parsePort(value(), flag);
+        break;
+      case "--auth-token":
+        result.authToken = value();
+        break;
+      case "--allowed-hosts":
+        result.allowedHosts = parseHostList(value(), flag);
+        break;
+      case "--config":
+        result.configFile = value();
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolves the effective configuration
+ *
+ * @param argv - Command line arguments (without node and script path)
+ * @param env - Environment variables
+ * @param cwd - Directory used to look up the default config file
+ */
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv, cwd: string = process.cwd()): LoadedConfig {
+  const cli = readArguments(argv);
+  const explicitFile = cli.configFile ?? env.ADB_MCP_CONFIG;
+  const defaultFile = resolve(cwd, DEFAULT_CONFIG_FILE);
+  const configFile = explicitFile ? resolve(cwd, explicitFile) : existsSync(defaultFile) ? defaultFile : undefined;
+
+  const config: AdbMcpConfig = {
+    ...DEFAULT_CONFIG,
+    toolTimeouts: { ...DEFAULT_TOOL_TIMEOUTS },
+    policy: { ...DEFAULT_POLICY, rules: [] }
+  };
+  const sources: LoadedConfig["sources"] = {
+    adbPath: "default",
+    defaultTimeoutMs: "default",
+    toolTimeouts: "default",
+    policy: "default",
+    transport: "default",
+    httpHost: "default",
+    httpPort: "default"
+  };
+  const layers: Array<[ConfigSource, PartialConfig]> = [
+    ["file", configFile ? readConfigFile(configFile) : {}],
+    ["env", readEnvironment(env)],
+    ["cli", { ...cli, configFile: undefined } as PartialConfig]
+  ];
+
+  for (const [source, layer] of layers) {
+    for (const [key, value] of Object.entries(layer) as Array<[keyof PartialConfig, unknown]>) {
+      if (value === undefined) {
+        continue;
+      }
+      if (key === "toolTimeouts") {
+        // Per-tool entries merge instead of replacing the whole map
+        config.toolTimeouts = { ...config.toolTimeouts, ...(value as Record<string, number>) };
+      } else if (key === "policy") {
+        config.policy = { ...config.policy, ...(value as Partial<PolicyConfig>) };
+      } else {
+        (config as unknown as Record<string, unknown>)[key] = value;
+      }
+      sources[key] = source;
+    }
+  }
+
+  if (configFile) {
+    config.configFile = configFile;
+    sources.configFile = cli.configFile ? "cli" : env.ADB_MCP_CONFIG ? "env" : "default";
+  }
+  return { config, sources };
+}
+
+/**
+ * Copy of the configuration that is safe to show to clients and logs
+ */
+export function redactConfig(loaded: LoadedConfig): LoadedConfig {
+  if (!loaded.config.authToken) {
+    return loaded;
+  }
+  return { ...loaded, config: { ...loaded.config, authToken: "***" } };
+}
+
+/**
+ * Global adb options that select the adb server (`-H host -P port`)
+ */
+export function buildServerArgs(config: AdbMcpConfig): string[] {
+  const args: string[] = [];
+  if (config.serverHost) {
+    args.push("-H", config.serverHost);
+  }
+  if (config.serverPort !== undefined) {
+    args.push("-P", String(config.serverPort));
+  }
+  return args;
+}
+
+/**
+ * Timeout for the adb commands of a tool: the per-tool setting if there is
+ * one, otherwise the default
+ */
+export function resolveToolTimeout(config: AdbMcpConfig, toolName: string): number {
+  return config.toolTimeouts[toolName] ?? config.defaultTimeoutMs;
+}
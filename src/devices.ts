@@ -0,0 +1,230 @@
+/**
+ * Device list parsing for the ADB MCP Server
+ *
+ * Turns `adb devices -l` output and per-device `getprop`, `wm` and
+ * `dumpsys battery` output into structured device descriptions.
+ */
+
+import { parseWmSize } from "./input";
+
+export interface DeviceEntry {
+  serial: string;
+  /** device, offline, unauthorized, recovery, sideload, bootloader, "no permissions", ... */
+  state: string;
+  transportId?: number;
+  model?: string;
+  product?: string;
+  /** Device code name (`device:` column) */
+  device?: string;
+  /** USB port (`usb:` column) for USB-connected devices */
+  usb?: string;
+  emulator: boolean;
+  /** Connected over TCP/IP or wireless debugging */
+  network: boolean;
+}
+
+export interface BatteryInfo {
+  level?: number;
+  scale?: number;
+  status?: string;
+  health?: string;
+  plugged?: string;
+  temperatureC?: number;
+  voltageMv?: number;
+}
+
+export interface DeviceProperties {
+  manufacturer?: string;
+  brand?: string;
+  model?: string;
+  sdkLevel?: number;
+  androidRelease?: string;
+  abi?: string;
+  abiList?: string[];
+  buildFingerprint?: string;
+  screen?: {
+    width?: number;
+    height?: number;
+    density?: number;
+  };
+  battery?: BatteryInfo;
+}
+
+export interface DeviceDetails extends DeviceEntry {
+  properties?: DeviceProperties;
+  /** Why properties could not be read, e.g. for unauthorized devices */
+  propertiesError?: string;
+}
+
+const NETWORK_SERIAL_PATTERN = /^(?:\[[0-9a-fA-F:]+\]|[\w.-]+):\d+$|\._adb(?:-tls-connect)?\._tcp/;
+
+/**
+ * Parses `adb devices -l`. Lines without the `-l` columns are accepted too.
+ */
+export function parseDevicesList(output: string): DeviceEntry[] {
+  const devices: DeviceEntry[] = [];
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("List of devices") || line.startsWith("*")) {
+      continue;
+    }
+
+    const [serial, ...rest] = line.split(/\s+/);
+    // The state is everything before the first key:value column ("no permissions (...)" has spaces)
+    const firstColumn = rest.findIndex((part) => /^[a-z_]+:\S/.test(part));
+    const stateParts = firstColumn >= 0 ? rest.slice(0, firstColumn) : rest;
+    const columns = firstColumn >= 0 ? rest.slice(firstColumn) : [];
+
+    const entry: DeviceEntry = {
+      serial,
+      state: stateParts.join(" ") || "unknown",
+      emulator: serial.startsWith("emulator-"),
+      network: NETWORK_SERIAL_PATTERN.test(serial)
+    };
+    for (const column of columns) {
+      const separator = column.indexOf(":");
+      const key = column.slice(0, separator);
+      const value = column.slice(separator + 1);
+      switch (key) {
+        case "transport_id":
+          entry.transportId = parseInt(value, 10);
+          break;
+        case "model":
+        case "product":
+        case "device":
+        case "usb":
+          entry[key] = value;
+          break;
+      }
+    }
+    devices.push(entry);
+  }
+  return devices;
+}
+
+/**
+ * Parses `getprop` output (`[key]: [value]` lines) into a map
+ */
+export function parseGetprop(output: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  const pattern = /^\[([^\]]+)\]:\s*\[(.*)\]\s*$/;
+  for (const line of output.split(/\r?\n/)) {
+    const match = pattern.exec(line);
+    if (match) {
+      properties[match[1]] = match[2];
+    }
+  }
+  return properties;
+}
+
+/**
+ * Parses `wm density`. An override density wins over the physical density.
+ */
+export function parseWmDensity(output: string): number | undefined {
+  const match = /Override density:\s*(\d+)/.exec(output) ?? /Physical density:\s*(\d+)/.exec(output);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+const BATTERY_STATUS: Record<string, string> = {
+  "1": "unknown",
+  "2": "charging",
+  "3": "discharging",
+  "4": "not_charging",
+  "5": "full"
+};
+
+const BATTERY_HEALTH: Record<string, string> = {
+  "1": "unknown",
+  "2": "good",
+  "3": "overheat",
+  "4": "dead",
+  "5": "over_voltage",
+  "6": "unspecified_failure",
+  "7": "cold"
+};
+
+/**
+ * Parses `dumpsys battery`
+ */
+export function parseDumpsysBattery(output: string): BatteryInfo {
+  const values: Record<string, string> = {};
+  for (const line of output.split(/\r?\n/)) {
+    const match = /^\s*([\w ]+?):\s*(.*?)\s*$/.exec(line);
+    if (match) {
+      values[match[1].toLowerCase()] = match[2];
+    }
+  }
+
+  const number = (key: string) => {
+    const value = values[key] !== undefined ? parseInt(values[key], 10) : NaN;
+    return Number.isNaN(value) ? undefined : value;
+  };
+  const plugged = ["ac", "usb", "wireless", "dock"].filter((source) => values[`${source} powered`] === "true");
+  const temperature = number("temperature");
+
+  return {
+    level: number("level"),
+    scale: number("scale"),
+    status: values.status !== undefined ? BATTERY_STATUS[values.status] ?? values.status : undefined,
+    health: values.health !== undefined ? BATTERY_HEALTH[values.health] ?? values.health : undefined,
+    plugged: plugged.length > 0 ? plugged.join(",") : values["ac powered"] !== undefined ? "none" : undefined,
+    // Reported in tenths of a degree Celsius
+    temperatureC: temperature !== undefined ? temperature / 10 : undefined,
+    voltageMv: number("voltage")
+  };
+}
+
+/**
+ * Builds the device properties from `getprop`, `wm size`, `wm density`
+ * and `dumpsys battery` output. Missing sources are skipped.
+ */
+export function buildDeviceProperties(sources: {
+  getprop: string;
+  wmSize?: string;
+  wmDensity?: string;
+  battery?: string;
+}): DeviceProperties {
+  const props = parseGetprop(sources.getprop);
+  const sdk = parseInt(props["ro.build.version.sdk"] ?? "", 10);
+  const abiList = props["ro.product.cpu.abilist"];
+
+  const properties: DeviceProperties = {
+    manufacturer: props["ro.product.manufacturer"],
+    brand: props["ro.product.brand"],
+    model: props["ro.product.model"],
+    sdkLevel: Number.isNaN(sdk) ? undefined : sdk,
+    androidRelease: props["ro.build.version.release"],
+    abi: props["ro.product.cpu.abi"],
+    abiList: abiList ? abiList.split(",").filter(Boolean) : undefined,
+    buildFingerprint: props["ro.build.fingerprint"]
+  };
+
+  const screen: NonNullable<DeviceProperties["screen"]> = {};
+  if (sources.wmSize) {
+    try {
+      Object.assign(screen, parseWmSize(sources.wmSize));
+    } catch {
+      // Some devices (e.g. without a display) report no size
+    }
+  }
+  const density = sources.wmDensity ? parseWmDensity(sources.wmDensity) : undefined;
+  if (density !== undefined) {
+    screen.density = density;
+  }
+  if (Object.keys(screen).length > 0) {
+    properties.screen = screen;
+  }
+  const battery = sources.battery ? parseDumpsysBattery(sources.battery) : undefined;
+  if (battery?.level !== undefined) {
+    properties.battery = battery;
+  }
+  return properties;
+}
+
+/**
+ * True when getprop reports an emulator kernel
+ */
+export function isEmulatorBuild(getprop: string): boolean {
+  const props = parseGetprop(getprop);
+  return props["ro.kernel.qemu"] === "1" || props["ro.boot.qemu"] === "1";
+}
@@ -0,0 +1,442 @@
+/**
+ * dumpsys parsers for the ADB MCP Server
+ *
+ * Turns the output of the most used dumpsys services into JSON: the
+ * activity stack, windows and displays, per-app memory and frame stats,
+ * and the networks known to ConnectivityService. Battery and package
+ * output reuse the parsers in devices.ts and packages.ts.
+ */
+
+import { parseResumedActivity } from "./launch";
+import { parseDumpsysBattery } from "./devices";
+import { parseDumpsysPackage } from "./packages";
+
+export interface ActivityTask {
+  id: number;
+  /** Activity type: standard, home, recents, assistant, ... */
+  type?: string;
+  /** Task affinity, usually the package name */
+  affinity?: string;
+  user?: number;
+  visible?: boolean;
+  /** Windowing mode: fullscreen, freeform, multi-window, pinned, ... */
+  mode?: string;
+  display?: number;
+  /** Back stack, top activity first */
+  activities: string[];
+}
+
+export interface ActivityStack {
+  resumedActivity?: string;
+  focusedApp?: string;
+  /** Tasks from top to bottom */
+  tasks: ActivityTask[];
+}
+
+export interface WindowDisplay {
+  id: number;
+  rotation?: number;
+  width?: number;
+  height?: number;
+  density?: number;
+  /** Area available to apps, without system bars */
+  appWidth?: number;
+  appHeight?: number;
+}
+
+export interface WindowState {
+  focusedWindow?: string;
+  focusedApp?: string;
+  /** Window receiving input method input */
+  inputMethodTarget?: string;
+  keyguardShowing?: boolean;
+  displays: WindowDisplay[];
+}
+
+export interface HeapInfo {
+  sizeKb?: number;
+  allocKb?: number;
+  freeKb?: number;
+}
+
+export interface ProcessMeminfo {
+  pid: number;
+  process: string;
+  totalPssKb?: number;
+  totalRssKb?: number;
+  totalSwapPssKb?: number;
+  nativeHeap?: HeapInfo;
+  dalvikHeap?: HeapInfo;
+  /** "App Summary" rows, e.g. "Java Heap" → { pssKb, rssKb } */
+  summary: Record<string, { pssKb: number; rssKb?: number }>;
+  /** "Objects" counts, e.g. Views, Activities, AppContexts */
+  objects: Record<string, number>;
+}
+
+export interface FrameStats {
+  pid: number;
+  process: string;
+  totalFrames?: number;
+  jankyFrames?: number;
+  jankyPercent?: number;
+  /** Frame time percentiles in ms, e.g. { p50: 8, p90: 14 } */
+  percentiles: Record<string, number>;
+  gpuPercentiles: Record<string, number>;
+  /** Causes of janky frames, e.g. missedVsync, slowUiThread */
+  jankCauses: Record<string, number>;
+}
+
+export interface NetworkInfo {
+  netId: number;
+  /** ni{} type and state, e.g. WIFI CONNECTED */
+  type?: string;
+  state?: string;
+  /** Extra info, e.g. the APN, or the SSID on older releases */
+  extra?: string;
+  ssid?: string;
+  interfaceName?: string;
+  transports: string[];
+  capabilities: string[];
+  validated?: boolean;
+  metered?: boolean;
+  isDefault: boolean;
+}
+
+export interface ConnectivityState {
+  defaultNetwork?: number;
+  networks: NetworkInfo[];
+}
+
+function toInteger(value: string | undefined): number | undefined {
+  const number = value !== undefined ? parseInt(value.replace(/,/g, ""), 10) : NaN;
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function toBoolean(value: string | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === "true";
+}
+
+/**
+ * Parses `dumpsys -l` into service names
+ */
+export function parseServiceList(output: string): string[] {
+  return output.split(/\r?\n/)
+    .filter((line) => /^\s+\S/.test(line))
+    .map((line) => line.trim());
+}
+
+/**
+ * Parses `dumpsys activity activities`: Task{} (Android 10+) and
+ * TaskRecord{} (older releases) entries with their Hist #N activities
+ */
+export function parseActivityActivities(output: string): ActivityStack {
+  const tasks: ActivityTask[] = [];
+  let task: ActivityTask | undefined;
+  let display: number | undefined;
+
+  for (const line of output.split(/\r?\n/)) {
+    const displayMatch = /^\s*Display #(\d+)/.exec(line);
+    if (displayMatch) {
+      display = parseInt(displayMatch[1], 10);
+      continue;
+    }
+    const taskMatch = /^\s*\*\s*(?:Task|TaskRecord)\{\S+ #(\d+)(.*?)\}?\s*$/.exec(line);
+    if (taskMatch) {
+      const id = parseInt(taskMatch[1], 10);
+      task = tasks.find((candidate) => candidate.id === id);
+      if (!task) {
+        const attributes = taskMatch[2];
+        const attribute = (key: string) => new RegExp(`\\b${key}=(\\S+?)(?:\\s|\\}|$)`).exec(attributes)?.[1];
+        const affinity = attribute("A");
+        task = {
+          id,
+          type: attribute("type"),
+          // Android 10+ prefixes the affinity with the UID: A=10190:com.example.app
+          affinity: affinity?.replace(/^\d+:/, ""),
+          user: toInteger(attribute("U")),
+          visible: toBoolean(attribute("visible")),
+          mode: attribute("mode"),
+          display,
+          activities: []
+        };
+        tasks.push(task);
+      }
+      continue;
+    }
+    const activityMatch = /^\s*\*?\s*Hist\s*#\d+: ActivityRecord\{\S+ u\d+ ([\w.$]+\/[\w.$]+) t(\d+)/.exec(line);
+    if (activityMatch) {
+      const taskId = parseInt(activityMatch[2], 10);
+      const owner = task?.id === taskId ? task : tasks.find((candidate) => candidate.id === taskId);
+      if (owner && !owner.activities.includes(activityMatch[1])) {
+        owner.activities.push(activityMatch[1]);
+      }
+    }
+  }
+
+  return {
+    resumedActivity: parseResumedActivity(output),
+    focusedApp: /\bmFocusedApp=ActivityRecord\{\S+ u\d+ ([\w.$]+\/[\w.$]+)/.exec(output)?.[1],
+    tasks
+  };
+}
+
+/**
+ * Parses `dumpsys window` (or `dumpsys window displays`/`windows`)
+ */
+export function parseWindow(output: string): WindowState {
+  const windowName = (key: string) => new RegExp(`\\b${key}=Window\\{\\S+ u\\d+ ([^}]+?)\\}`).exec(output)?.[1];
+  const displays: WindowDisplay[] = [];
+  let display: WindowDisplay | undefined;
+
+  for (const line of output.split(/\r?\n/)) {
+    const displayMatch = /^\s*Display: mDisplayId=(\d+)/.exec(line);
+    if (displayMatch) {
+      const id = parseInt(displayMatch[1], 10);
+      display = displays.find((candidate) => candidate.id === id);
+      if (!display) {
+        display = { id };
+        displays.push(display);
+      }
+      const rotation = /\brotation=(\d)/.exec(line);
+      if (rotation) {
+        display.rotation = parseInt(rotation[1], 10);
+      }
+      continue;
+    }
+    // "init=1080x2400 420dpi cur=1080x2400 app=1080x2337 rng=..."
+    const sizeMatch = /^\s*init=\d+x\d+ (\d+)dpi(?:.*?\bcur=(\d+)x(\d+))?(?:.*?\bapp=(\d+)x(\d+))?/.exec(line);
+    if (sizeMatch && display && display.width === undefined) {
+      display.density = parseInt(sizeMatch[1], 10);
+      display.width = toInteger(sizeMatch[2]);
+      display.height = toInteger(sizeMatch[3]);
+      display.appWidth = toInteger(sizeMatch[4]);
+      display.appHeight = toInteger(sizeMatch[5]);
+    }
+  }
+
+  const keyguard = /\b(?:mShowingLockscreen|isKeyguardShowing|mKeyguardShowing)=(true|false)/.exec(output)?.[1];
+  return {
+    focusedWindow: windowName("mCurrentFocus"),
+    focusedApp: /\bmFocusedApp=(?:AppWindowToken\{\S+ token=Token\{\S+ )?ActivityRecord\{\S+ u\d+ ([\w.$]+\/[\w.$]+)/.exec(output)?.[1],
+    inputMethodTarget: windowName("(?:mInputMethodTarget|imeLayeringTarget)"),
+    keyguardShowing: toBoolean(keyguard),
+    displays
+  };
+}
+
+/**
+ * Heap size, alloc and free are the last three columns of the heap rows
+ */
+function parseHeapRow(block: string, name: string): HeapInfo | undefined {
+  const match = new RegExp(`^\\s*${name}((?:\\s+\\d+)+)\\s*$`, "m").exec(block);
+  if (!match) {
+    return undefined;
+  }
+  const values = match[1].trim().split(/\s+/).map((value) => parseInt(value, 10));
+  if (values.length < 3) {
+    return undefined;
+  }
+  const [sizeKb, allocKb, freeKb] = values.slice(-3);
+  return { sizeKb, allocKb, freeKb };
+}
+
+/**
+ * Parses `dumpsys meminfo <package>`, one entry per process of the package
+ *
+ * @throws When the package has no running process
+ */
+export function parseMeminfo(output: string): ProcessMeminfo[] {
+  const noProcess = /^No process found for: (.*)$/m.exec(output);
+  const blocks = output.split(/^\*\* MEMINFO in pid /m).slice(1);
+  if (blocks.length === 0) {
+    throw new Error(noProcess ? `No running process found for ${noProcess[1].trim()}` : "No MEMINFO section in the output");
+  }
+
+  return blocks.map((block) => {
+    const header = /^(\d+) \[(.*?)\]/.exec(block);
+    const totals: Record<string, number> = {};
+    for (const match of block.matchAll(/TOTAL (PSS|RSS|SWAP PSS):\s+(\d+)/g)) {
+      totals[match[1]] = parseInt(match[2], 10);
+    }
+
+    const lines = block.split(/\r?\n/);
+    const summary: ProcessMeminfo["summary"] = {};
+    const summaryStart = lines.findIndex((line) => /^\s*App Summary\s*$/.test(line));
+    if (summaryStart >= 0) {
+      // Rows without a PSS value ("Unknown") only have a number in the Rss(KB) column
+      const rssColumn = lines[summaryStart + 1]?.indexOf("Rss(KB)") ?? -1;
+      for (const line of lines.slice(summaryStart + 1)) {
+        if (/TOTAL/.test(line) || /^\s*Objects\s*$/.test(line)) {
+          break;
+        }
+        const row = /^\s*([A-Za-z][\w ]*?):(.*)$/.exec(line);
+        if (!row) {
+          continue;
+        }
+        const values = Array.from(row[2].matchAll(/\d+/g)).map((match) => ({
+          value: parseInt(match[0], 10),
+          rss: rssColumn >= 0 && line.length - row[2].length + (match.index ?? 0) >= rssColumn - 2
+        }));
+        const pss = values.find((value) => !value.rss)?.value;
+        const rss = values.find((value) => value.rss)?.value;
+        if (pss !== undefined || rss !== undefined) {
+          summary[row[1]] = { pssKb: pss ?? 0, ...(rss !== undefined ? { rssKb: rss } : {}) };
+        }
+      }
+    }
+
+    const objects: Record<string, number> = {};
+    const objectsStart = lines.findIndex((line) => /^\s*Objects\s*$/.test(line));
+    if (objectsStart >= 0) {
+      for (const line of lines.slice(objectsStart + 1)) {
+        if (!line.trim()) {
+          break;
+        }
+        for (const match of line.matchAll(/([A-Za-z][\w ]*?):\s+(\d+)/g)) {
+          objects[match[1].trim()] = parseInt(match[2], 10);
+        }
+      }
+    }
+
+    return {
+      pid: toInteger(header?.[1]) ?? 0,
+      process: header?.[2] ?? "",
+      totalPssKb: totals.PSS,
+      totalRssKb: totals.RSS,
+      totalSwapPssKb: totals["SWAP PSS"],
+      nativeHeap: parseHeapRow(block, "Native Heap"),
+      dalvikHeap: parseHeapRow(block, "Dalvik Heap"),
+      summary,
+      objects
+    };
+  });
+}
+
+const JANK_CAUSES: Record<string, string> = {
+  "Missed Vsync": "missedVsync",
+  "High input latency": "highInputLatency",
+  "Slow UI thread": "slowUiThread",
+  "Slow bitmap uploads": "slowBitmapUploads",
+  "Slow issue draw commands": "slowDrawCommands",
+  "Frame deadline missed": "frameDeadlineMissed"
+};
+
+/**
+ * Parses `dumpsys gfxinfo <package>`, one entry per process of the package
+ *
+ * @throws When the package has no running process
+ */
+export function parseGfxinfo(output: string): FrameStats[] {
+  const blocks = output.split(/^\*\* Graphics info for pid /m).slice(1);
+  if (blocks.length === 0) {
+    throw new Error("No graphics info in the output; is the app running?");
+  }
+
+  return blocks.map((block) => {
+    const header = /^(\d+) \[(.*?)\]/.exec(block);
+    const number = (key: string) => toInteger(new RegExp(`^${key}: (\\d+)`, "m").exec(block)?.[1]);
+    const janky = /^Janky frames: (\d+) \(([\d.]+)%\)/m.exec(block);
+
+    const percentiles: Record<string, number> = {};
+    const gpuPercentiles: Record<string, number> = {};
+    for (const match of block.matchAll(/^(\d+)th (gpu )?percentile: (\d+)ms/gm)) {
+      (match[2] ? gpuPercentiles : percentiles)[`p${match[1]}`] = parseInt(match[3], 10);
+    }
+    const jankCauses: Record<string, number> = {};
+    for (const [label, key] of Object.entries(JANK_CAUSES)) {
+      const value = number(`Number ${label}`);
+      if (value !== undefined) {
+        jankCauses[key] = value;
+      }
+    }
+
+    return {
+      pid: toInteger(header?.[1]) ?? 0,
+      process: header?.[2] ?? "",
+      totalFrames: number("Total frames rendered"),
+      jankyFrames: toInteger(janky?.[1]),
+      jankyPercent: janky ? parseFloat(janky[2]) : undefined,
+      percentiles,
+      gpuPercentiles,
+      jankCauses
+    };
+  });
+}
+
+/**
+ * Parses the NetworkAgentInfo entries of `dumpsys connectivity`
+ */
+export function parseConnectivity(output: string): ConnectivityState {
+  const defaultNetwork = toInteger(/^\s*Active default network: (\d+)/m.exec(output)?.[1]);
+  const networks: NetworkInfo[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    if (!/^\s*NetworkAgentInfo/.test(line)) {
+      continue;
+    }
+    // Android 10+: network{100}; older releases: NetworkAgentInfo [WIFI () - 100]
+    const netId = toInteger(/\bnetwork\{(\d+)\}/.exec(line)?.[1] ?? /^\s*NetworkAgentInfo \[\S+ \(.*?\) - (\d+)\]/.exec(line)?.[1]);
+    if (netId === undefined || networks.some((network) => network.netId === netId)) {
+      continue;
+    }
+    const info = /\bni\{(?:\[type: )?(\w+)(?:\[[^\]]*\])?,? (?:state: )?(\w+)(?:\/\w+)?,?(?:.*?extra: ([^,}]*))?/.exec(line);
+    const capabilities = /Capabilities: ([\w&]+)/.exec(line)?.[1].split("&") ?? [];
+    networks.push({
+      netId,
+      type: info?.[1],
+      state: info?.[2],
+      extra: info?.[3]?.trim().replace(/^"(.*)"$/, "$1") || undefined,
+      ssid: /\bSSID: "([^"]*)"/.exec(line)?.[1],
+      interfaceName: /InterfaceName: (\S+)/.exec(line)?.[1],
+      transports: /Transports: ([\w|]+)/.exec(line)?.[1].split("|") ?? [],
+      capabilities,
+      validated: capabilities.length > 0 ? capabilities.includes("VALIDATED") : toBoolean(/\blastValidated\{(true|false)\}/.exec(line)?.[1]),
+      metered: capabilities.length > 0 ? !capabilities.includes("NOT_METERED") : undefined,
+      isDefault: netId === defaultNetwork
+    });
+  }
+  return { defaultNetwork, networks };
+}
+
+/** Services (and the arguments they need) with a parser, as listed in the tool description */
+export const PARSED_DUMPSYS_SERVICES = [
+  "activity activities",
+  "window",
+  "meminfo <package>",
+  "gfxinfo <package>",
+  "battery",
+  "connectivity",
+  "package <package>"
+];
+
+/**
+ * Parses dumpsys output when there is a parser for the service and arguments
+ *
+ * @returns The parser's name and result, or undefined to fall back to the raw text
+ */
+export function parseDumpsysOutput(service: string, args: string[], output: string): { parser: string; result: unknown } | undefined {
+  const [first] = args;
+  const packageArg = first !== undefined && /^[A-Za-z][\w]*(\.[\w]+)+$/.test(first) ? first : undefined;
+  switch (service) {
+    case "activity":
+      return (first === "activities" || first === "a") && args.length === 1
+        ? { parser: "activity activities", result: parseActivityActivities(output) }
+        : undefined;
+    case "window":
+      return args.length === 0 || args.length === 1 && ["windows", "w", "displays", "d"].includes(args[0])
+        ? { parser: "window", result: parseWindow(output) }
+        : undefined;
+    case "meminfo":
+      return packageArg && args.length === 1 ? { parser: "meminfo <package>", result: parseMeminfo(output) } : undefined;
+    case "gfxinfo":
+      return packageArg && args.length === 1 ? { parser: "gfxinfo <package>", result: parseGfxinfo(output) } : undefined;
+    case "battery":
+      return args.length === 0 ? { parser: "battery", result: parseDumpsysBattery(output) } : undefined;
+    case "connectivity":
+      return args.length === 0 ? { parser: "connectivity", result: parseConnectivity(output) } : undefined;
+    case "package":
+      return packageArg && args.length === 1 ? { parser: "package <package>", result: parseDumpsysPackage(output, packageArg) } : undefined;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Error types for the ADB MCP Server
+ */
+
+/**
+ * An adb invocation ran longer than its timeout and was killed
+ */
+export class AdbTimeoutError extends Error {
+  constructor(readonly command: string, readonly timeoutMs: number) {
+    super(
+      `Timed out after ${timeoutMs}ms waiting for '${command}'. The adb process was killed; ` +
+      "this is a timeout, not a device failure. Retry with a larger timeoutMs if the command is expected to take longer."
+    );
+    this.name = "AdbTimeoutError";
+  }
+}
+
+/**
+ * The client cancelled the tool call and the adb invocation was terminated
+ */
+export class AdbCancelledError extends Error {
+  constructor(readonly command: string) {
+    super(`Cancelled by the client while running '${command}'. The adb process was terminated.`);
+    this.name = "AdbCancelledError";
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * File helpers for the ADB MCP Server
+ */
+
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { extname } from "path";
+
+const MIME_TYPES: Record<string, string> = {
+  ".apk": "application/vnd.android.package-archive",
+  ".csv": "text/csv",
+  ".db": "application/vnd.sqlite3",
+  ".gif": "image/gif",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".log": "text/plain",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".prop": "text/plain",
+  ".sqlite": "application/vnd.sqlite3",
+  ".tar": "application/x-tar",
+  ".txt": "text/plain",
+  ".webm": "video/webm",
+  ".webp": "image/webp",
+  ".xml": "application/xml",
+  ".zip": "application/zip"
+};
+
+/**
+ * Guesses the MIME type of a file from its extension
+ */
+export function guessMimeType(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * True for MIME types whose content is returned as text rather than a blob
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || mimeType === "application/json" || mimeType === "application/xml";
+}
+
+/**
+ * SHA-256 of a local file as lowercase hex, read as a stream so large files
+ * are not held in memory
+ */
+export function sha256File(path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(path)
+      .on("error", reject)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+/**
+ * SHA-256 of a buffer as lowercase hex
+ */
+export function sha256Buffer(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Reads up to `length` bytes of a local file starting at `offset`
+ */
+export function readFileRange(path: string, offset: number, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    createReadStream(path, { start: offset, end: offset + length - 1 })
+      .on("error", reject)
+      .on("data", (chunk) => chunks.push(chunk as Buffer))
+      .on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Parses the hash out of `sha256sum` output ("<hex>  <path>")
+ */
+export function parseSha256sum(output: string): string {
+  const match = /^([0-9a-fA-F]{64})\s/.exec(output.trim() + " ");
+  if (!match) {
+    throw new Error(`Unexpected sha256sum output: ${output.trim() || "(empty)"}`);
+  }
+  return match[1].toLowerCase();
+}
+
+/**
+ * Normalizes a user supplied SHA-256 (hex, any case, optional "sha256:" prefix)
+ */
+export function normalizeSha256(value: string): string {
+  const normalized = value.trim().toLowerCase().replace(/^sha256:/, "");
+  if (!/^[0-9a-f]{64}$/.test(normalized)) {
+    throw new Error(`Invalid SHA-256: ${value}`);
+  }
+  return normalized;
+}
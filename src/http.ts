@@ -0,0 +1,288 @@
+/**
+ * HTTP transports for the ADB MCP Server
+ *
+ * Serves Streamable HTTP on /mcp and the legacy SSE transport on /sse and
+ * /messages, so one host with connected devices can serve several remote
+ * clients. Every client session gets its own MCP server instance.
+ *
+ * Without an auth token, requests must name an allowed host in their Host
+ * and Origin headers, so a web page cannot reach a local server through DNS
+ * rebinding.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server } from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { isIPv4 } from "net";
+
+const StreamableHttpModule = require("@modelcontextprotocol/sdk/server/streamableHttp.js");
+const SseModule = require("@modelcontextprotocol/sdk/server/sse.js");
+const McpTypesModule = require("@modelcontextprotocol/sdk/types.js");
+const StreamableHTTPServerTransport = StreamableHttpModule.StreamableHTTPServerTransport;
+const SSEServerTransport = SseModule.SSEServerTransport;
+const { isInitializeRequest } = McpTypesModule;
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport as StreamableTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { SSEServerTransport as SseTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+
+export type HttpLogLevel = "debug" | "info" | "warn" | "error";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Bearer token required on every request except /health */
+  authToken?: string;
+  /** Host names accepted in Host and Origin headers besides localhost and the bind address */
+  allowedHosts?: string[];
+  /** Creates the MCP server for a new session */
+  createServer: () => McpServer;
+  log: (level: HttpLogLevel, message: string) => void;
+}
+
+export const STREAMABLE_HTTP_PATH = "/mcp";
+export const SSE_PATH = "/sse";
+export const SSE_MESSAGES_PATH = "/messages";
+
+/** Large enough for base64 file uploads through adb_push */
+const MAX_BODY_BYTES = 100 * 1024 * 1024;
+/** Streamable HTTP sessions without a request for this long are closed */
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+}
+
+/**
+ * Checks the Authorization header against the configured bearer token
+ */
+export function isAuthorized(header: string | undefined, authToken: string | undefined): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+  if (!match) {
+    return false;
+  }
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * True for localhost and loopback addresses; names like 127.0.0.1.example.com
+ * resolve wherever their owner wants and are not
+ */
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || (isIPv4(host) && host.startsWith("127."));
+}
+
+/**
+ * Host name of a Host header or Origin URL, without port and IPv6 brackets
+ */
+function headerHostname(value: string, isOrigin: boolean): string | undefined {
+  try {
+    return new URL(isOrigin ? value : `http://${value}`).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks the Host and Origin headers against the allowed host names
+ *
+ * @returns Why the request is refused, or undefined when it may proceed
+ */
+export function checkRequestHost(headers: IncomingMessage["headers"], allowedHosts: string[]): string | undefined {
+  const allowed = new Set(allowedHosts.map((host) => host.replace(/^\[|\]$/g, "").toLowerCase()));
+  const host = headers.host ? headerHostname(headers.host, false) : undefined;
+  if (!host || !(isLoopback(host) || allowed.has(host))) {
+    return `Host not allowed: ${headers.host ?? "(none)"}`;
+  }
+  const origin = headers.origin;
+  if (origin !== undefined) {
+    const originHost = headerHostname(origin, true);
+    if (!originHost || !(isLoopback(originHost) || allowed.has(originHost))) {
+      return `Origin not allowed: ${origin}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Starts the HTTP server
+ *
+ * @returns The listening server
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<Server> {
+  const { log } = options;
+  const streamableTransports = new Map<string, StreamableTransport>();
+  const sseTransports = new Map<string, SseTransport>();
+  const lastActivity = new Map<string, number>();
+  // The bind address is a valid Host unless it is a wildcard
+  const allowedHosts = [...(options.allowedHosts ?? []), ...(["0.0.0.0", "::"].includes(options.host) ? [] : [options.host])];
+  const checkHosts = !options.authToken || (options.allowedHosts ?? []).length > 0;
+
+  if (!options.authToken && !isLoopback(options.host)) {
+    log("warn", `HTTP transport is bound to ${options.host} without an auth token; anyone who can reach it can control the connected devices`);
+  }
+
+  // Closing the transport also closes the server connected to it
+  const connectSession = (transport: Transport) => options.createServer().connect(transport);
+  const activeSessions = () => streamableTransports.size + sseTransports.size;
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        throw new HttpError(404, `Unknown session: ${sessionId}`);
+      }
+      lastActivity.set(sessionId, Date.now());
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "Missing Mcp-Session-Id header; start a session with an initialize request");
+    }
+
+    const transport: StreamableTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id: string) => {
+        streamableTransports.set(id, transport);
+        lastActivity.set(id, Date.now());
+        log("info", `Opened Streamable HTTP session ${id} (${activeSessions()} active)`);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && streamableTransports.delete(transport.sessionId)) {
+        lastActivity.delete(transport.sessionId);
+        log("info", `Closed Streamable HTTP session ${transport.sessionId}`);
+      }
+    };
+    await connectSession(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (url.pathname === SSE_PATH) {
+      if (req.method !== "GET") {
+        throw new HttpError(405, "Use GET to open an SSE stream");
+      }
+      const transport: SseTransport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      sseTransports.set(transport.sessionId, transport);
+      transport.onclose = () => {
+        if (sseTransports.delete(transport.sessionId)) {
+          log("info", `Closed SSE session ${transport.sessionId}`);
+        }
+      };
+      log("info", `Opened SSE session ${transport.sessionId} (${activeSessions()} active)`);
+      await connectSession(transport);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Use POST to send messages");
+    }
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      throw new HttpError(404, `Unknown session: ${sessionId}`);
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/health") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: activeSessions() }));
+      return;
+    }
+    const hostError = checkHosts ? checkRequestHost(req.headers, allowedHosts) : undefined;
+    if (hostError) {
+      log("warn", `Rejected ${req.method} ${url.pathname} from ${req.socket.remoteAddress}: ${hostError}`);
+      sendJsonRpcError(res, 403, hostError);
+      return;
+    }
+    if (!isAuthorized(req.headers.authorization, options.authToken)) {
+      log("warn", `Rejected unauthorized ${req.method} ${url.pathname} from ${req.socket.remoteAddress}`);
+      sendJsonRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    let handler: Promise<void>;
+    if (url.pathname === STREAMABLE_HTTP_PATH) {
+      handler = handleStreamableHttp(req, res);
+    } else if (url.pathname === SSE_PATH || url.pathname === SSE_MESSAGES_PATH) {
+      handler = handleSse(req, res, url);
+    } else {
+      handler = Promise.reject(new HttpError(404, `Not found: ${url.pathname}`));
+    }
+
+    handler.catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log(status >= 500 ? "error" : "debug", `HTTP ${status} for ${req.method} ${url.pathname}: ${errorMsg}`);
+      sendJsonRpcError(res, status, errorMsg);
+    });
+  });
+
+  // Clients that went away without closing their session would keep a server instance forever
+  const sweepTimer = setInterval(() => {
+    const idleSince = Date.now() - SESSION_IDLE_MS;
+    for (const [id, transport] of streamableTransports) {
+      if ((lastActivity.get(id) ?? 0) < idleSince) {
+        log("info", `Closing Streamable HTTP session ${id} after ${SESSION_IDLE_MS / 60000} idle minutes`);
+        streamableTransports.delete(id);
+        lastActivity.delete(id);
+        transport.close().catch(() => undefined);
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  httpServer.on("close", () => clearInterval(sweepTimer));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
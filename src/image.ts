@@ -0,0 +1,107 @@
+/**
+ * Screenshot post-processing for the ADB MCP Server
+ *
+ * Crops, downscales and re-encodes PNG screenshots so they can be returned
+ * as reasonably small MCP image content.
+ */
+
+import sharp from "sharp";
+
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageProcessingOptions {
+  format?: ImageFormat;
+  quality?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  scale?: number;
+  crop?: CropRect;
+}
+
+export interface ProcessedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp"
+};
+
+/**
+ * Clamps a crop rectangle to the image, throwing when nothing is left
+ */
+export function clampCropRect(crop: CropRect, imageWidth: number, imageHeight: number): CropRect {
+  const left = Math.max(0, Math.floor(crop.x));
+  const top = Math.max(0, Math.floor(crop.y));
+  const right = Math.min(imageWidth, Math.ceil(crop.x + crop.width));
+  const bottom = Math.min(imageHeight, Math.ceil(crop.y + crop.height));
+  if (right <= left || bottom <= top) {
+    throw new Error(
+      `Crop rectangle (${crop.x}, ${crop.y}, ${crop.width}x${crop.height}) is outside the ${imageWidth}x${imageHeight} screenshot`
+    );
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Applies crop, scale and encoding options to a PNG screenshot.
+ * Returns the original bytes untouched when no option requires re-encoding.
+ */
+export async function processScreenshot(png: Buffer, options: ImageProcessingOptions): Promise<ProcessedImage> {
+  const format = options.format ?? "png";
+  const metadata = await sharp(png).metadata();
+  let width = metadata.width ?? 0;
+  let height = metadata.height ?? 0;
+
+  const needsResize = options.maxWidth !== undefined || options.maxHeight !== undefined ||
+    (options.scale !== undefined && options.scale < 1);
+  if (!options.crop && !needsResize && format === "png") {
+    return { data: png, mimeType: MIME_TYPES.png, width, height };
+  }
+
+  let pipeline = sharp(png);
+  if (options.crop) {
+    const crop = clampCropRect(options.crop, width, height);
+    pipeline = pipeline.extract({ left: crop.x, top: crop.y, width: crop.width, height: crop.height });
+    width = crop.width;
+    height = crop.height;
+  }
+
+  if (needsResize) {
+    let targetWidth = options.scale !== undefined ? width * options.scale : width;
+    if (options.maxWidth !== undefined) {
+      targetWidth = Math.min(targetWidth, options.maxWidth);
+    }
+    if (options.maxHeight !== undefined) {
+      targetWidth = Math.min(targetWidth, options.maxHeight * (width / height));
+    }
+    const factor = Math.min(1, targetWidth / width);
+    width = Math.max(1, Math.round(width * factor));
+    height = Math.max(1, Math.round(height * factor));
+    pipeline = pipeline.resize(width, height);
+  }
+
+  switch (format) {
+    case "jpeg":
+      pipeline = pipeline.jpeg({ quality: options.quality ?? 80 });
+      break;
+    case "webp":
+      pipeline = pipeline.webp({ quality: options.quality ?? 80 });
+      break;
+    default:
+      pipeline = pipeline.png();
+  }
+
+  return { data: await pipeline.toBuffer(), mimeType: MIME_TYPES[format], width, height };
+}
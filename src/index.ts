@@ -6,8 +6,9 @@
  * 
  * Common tools:
  * - adb-devices: List connected devices
- * - inspect-ui: THE MAIN TOOL to check which app is currently on screen
- * - dump-image: Take a screenshot of the current screen
+ * - screen-state: THE MAIN TOOL to check which app is currently on screen (compact, with diffs)
+ * - inspect-ui: Full UI hierarchy of the current screen as XML
+ * - dump-image: Take a screenshot of the current screen (returned as image content)
  * - adb-shell: Run shell commands on the device
  * 
  * Logging:
@@ -20,16 +21,22 @@
 import { z } from "zod";
 import { execFile, ExecFileOptionsWithStringEncoding } from "child_process";
 import { promisify } from "util";
-import { writeFile, unlink, readFile } from "fs";
-import { join, basename } from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { writeFile, unlink, readFile, readdir, stat, mkdtemp, mkdir, rm, appendFile, unlinkSync } from "fs";
+import { randomBytes } from "crypto";
+import { join, basename, dirname, extname, posix } from "path";
 import { tmpdir } from "os";
 import { URL } from "url";
 
 // Import MCP SDK using require with type casting to work with our RequestHandlerExtra interface
 const McpServerModule = require("@modelcontextprotocol/sdk/server/mcp.js");
 const StdioServerTransportModule = require("@modelcontextprotocol/sdk/server/stdio.js");
+const McpTypesModule = require("@modelcontextprotocol/sdk/types.js");
 const McpServer = McpServerModule.McpServer;
+const ResourceTemplate = McpServerModule.ResourceTemplate;
 const StdioServerTransport = StdioServerTransportModule.StdioServerTransport;
+const { SubscribeRequestSchema, UnsubscribeRequestSchema } = McpTypesModule;
+import type { McpServer as McpServerInstance } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 // Import our schemas
 import {
@@ -39,18 +46,172 @@ import {
   AdbLogcatSchema,
   AdbPullSchema,
   AdbPushSchema,
+  UploadChunkSchema,
+  AdbListDirSchema,
+  AdbStatSchema,
+  AdbPullDirSchema,
+  AdbPushDirSchema,
+  AppDataListSchema,
+  AppDataReadSchema,
+  AppDataWriteSchema,
+  AppPrefsGetSchema,
+  AppPrefsSetSchema,
+  AppDbQuerySchema,
+  AppListSchema,
+  AppInfoSchema,
+  AppPermissionsSchema,
+  AppPermissionsSetSchema,
+  AppPermissionsResetSchema,
+  AppPermissionsRestoreSchema,
+  AppLaunchSchema,
+  AppStopSchema,
+  AdbIntentSchema,
   AdbScreenshotSchema,
   AdbUidumpSchema,
   AdbActivityManagerSchema,
   AdbPackageManagerSchema,
+  FindElementsSchema,
+  ElementActionSchema,
+  ScreenStateSchema,
+  InputTapSchema,
+  InputSwipeSchema,
+  InputPathSchema,
+  InputKeyeventSchema,
+  InputTextSchema,
+  LogcatSessionStartSchema,
+  LogcatSessionPollSchema,
+  LogcatSessionStopSchema,
+  LogcatSessionListSchema,
+  AdbBugreportSchema,
+  DumpsysSchema,
+  ScreenrecordStartSchema,
+  ScreenrecordStopSchema,
+  ScreenrecordListSchema,
   RequestHandlerExtra
 } from "./types";
+import {
+  UiNode,
+  UiSelector,
+  parseUiHierarchy,
+  findUiNodes,
+  findScrollableAncestor,
+  hasSelectorCriteria,
+  describeSelector,
+  summarizeUiNode,
+  boundsCenter
+} from "./ui";
+import {
+  Point,
+  DisplaySize,
+  COMMON_KEY_NAMES,
+  buildTapArgs,
+  buildSwipeArgs,
+  buildDragArgs,
+  buildLongPressArgs,
+  buildKeyeventArgs,
+  buildTextScript,
+  buildPathScript,
+  parseWmSize,
+  parseSurfaceOrientation,
+  orientDisplaySize,
+  validatePoints,
+  quoteShellArgument
+} from "./input";
+import { CropRect, processScreenshot } from "./image";
+import { LogcatSession, buildLogcatArgs } from "./logcat";
+import { ScreenRecordSession, MAX_SEGMENT_SECONDS } from "./screenrecord";
+import { PARSED_DUMPSYS_SERVICES, parseServiceList, parseDumpsysOutput } from "./dumpsys";
+import { ScreenState, buildScreenState, diffScreenStates } from "./screen";
+import { parseBugreport, parseBugreportProgress, findMainEntry, extractBugreportSections } from "./bugreport";
+import { parseLogcat } from "./logcat-parser";
+import { startHttpTransport, HttpLogLevel, STREAMABLE_HTTP_PATH, SSE_PATH } from "./http";
+import { LoadedConfig, loadConfig, redactConfig, buildServerArgs, resolveToolTimeout } from "./config";
+import { AdbTimeoutError, AdbCancelledError } from "./errors";
+import { splitCommandArguments } from "./shell";
+import {
+  DeviceDetails,
+  parseDevicesList,
+  parseGetprop,
+  parseDumpsysBattery,
+  parseWmDensity,
+  buildDeviceProperties,
+  isEmulatorBuild
+} from "./devices";
+import { guessMimeType, isTextMimeType, sha256File, sha256Buffer, normalizeSha256, readFileRange, parseSha256sum } from "./files";
+import { InstallFlags, InstallResult, DeviceSpec, buildInstallArgs, parseInstallOutput, selectApksSplits } from "./install";
+import { readZipEntries } from "./zip";
+import { ArchiveFile, ArchiveFormat, createArchive, readArchive } from "./archive";
+import {
+  SharedPrefs,
+  validatePackageName,
+  normalizeAppPath,
+  buildRunAsCommand,
+  describeRunAsFailure,
+  sharedPrefsPath,
+  parseSharedPrefs,
+  serializeSharedPrefs,
+  applySharedPrefsEdits
+} from "./app-data";
+import {
+  SqliteResult,
+  buildSqliteArgs,
+  describeSqliteError,
+  describeUnsafeSql,
+  isReadOnlyStatement,
+  limitQuery,
+  parseQuoteModeOutput,
+  supportsSafeMode
+} from "./sqlite";
+import {
+  AppInfo,
+  PackageEntry,
+  parseDumpsysPackage,
+  parsePackageList,
+  parsePackagePaths,
+  parseResolvedActivity
+} from "./packages";
+import { buildIntentArgs, parseIntentResult } from "./intent";
+import {
+  LaunchResult,
+  activityMatches,
+  parseAmStartOutput,
+  parseResumedActivity,
+  resolveActivityComponent,
+  summarizeTimings
+} from "./launch";
+import {
+  APP_OP_MODES,
+  AppOpMode,
+  PermissionChange,
+  PermissionSnapshot,
+  buildPermissionCommand,
+  parseAppOps,
+  planPermissionReset,
+  planPermissionRestore,
+  validateAppOpName,
+  validatePermissionName
+} from "./permissions";
+import {
+  RemoteFileEntry,
+  buildStatCommand,
+  buildListCommand,
+  buildHashCommand,
+  parseStatOutput,
+  parseHashOutput
+} from "./remote-fs";
+import { PolicyDecision, PolicyRequest, ConfirmationStore, evaluatePolicy } from "./policy";
 
 // Promisify execFile and fs functions
 const execFilePromise = promisify(execFile);
 const writeFilePromise = promisify(writeFile);
 const unlinkPromise = promisify(unlink);
 const readFilePromise = promisify(readFile);
+const readdirPromise = promisify(readdir);
+const statPromise = promisify(stat);
+const mkdtempPromise = promisify(mkdtemp);
+const mkdirPromise = promisify(mkdir);
+const rmPromise = promisify(rm);
+const appendFilePromise = promisify(appendFile);
 
 const DEFAULT_EXEC_OPTIONS: ExecFileOptionsWithStringEncoding = {
   encoding: "utf8",
@@ -59,12 +220,84 @@ const DEFAULT_EXEC_OPTIONS: ExecFileOptionsWithStringEncoding = {
 
 type ExecResult = { stdout: string; stderr: string };
 
-async function runAdb(args: string[], options?: ExecFileOptionsWithStringEncoding): Promise<ExecResult> {
+/**
+ * Per tool call settings picked up by runAdb: the timeout for each adb
+ * invocation and the client's abort signal
+ */
+interface CommandContext {
+  toolName: string;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+const commandContext = new AsyncLocalStorage<CommandContext>();
+
+/**
+ * Runs adb with the server arguments, under the timeout and abort signal of the current tool call
+ *
+ * @param onOutput - Called with stdout as it arrives, e.g. to report progress
+ */
+async function runAdb(
+  args: string[],
+  options?: ExecFileOptionsWithStringEncoding,
+  onOutput?: (chunk: string) => void
+): Promise<ExecResult> {
+  const context = commandContext.getStore();
+  const timeoutMs = options?.timeout ?? context?.timeoutMs ?? config.defaultTimeoutMs;
   const execOptions: ExecFileOptionsWithStringEncoding = {
     ...DEFAULT_EXEC_OPTIONS,
-    ...(options ?? {})
+    killSignal: "SIGKILL",
+    signal: context?.signal,
+    ...(options ?? {}),
+    timeout: timeoutMs
+  };
+  const fullArgs = [...buildServerArgs(config), ...args];
+  const commandString = ["adb", ...args].join(" ");
+
+  if (context?.signal?.aborted) {
+    throw new AdbCancelledError(commandString);
+  }
+
+  try {
+    const pending = execFilePromise(config.adbPath, fullArgs, execOptions);
+    if (onOutput) {
+      pending.child.stdout?.on("data", (chunk: string) => onOutput(chunk));
+    }
+    return await (pending as Promise<ExecResult>);
+  } catch (error) {
+    const execError = error as NodeJS.ErrnoException & { killed?: boolean };
+    if (execError.name === "AbortError" || execError.code === "ABORT_ERR") {
+      log(LogLevel.WARN, `Cancelled: ${commandString}`);
+      throw new AdbCancelledError(commandString);
+    }
+    if (execError.killed && timeoutMs > 0 && execError.code !== "ERR_CHILD_PROCESS_STDIO_MAXBUFFER") {
+      log(LogLevel.WARN, `Timed out after ${timeoutMs}ms: ${commandString}`);
+      throw new AdbTimeoutError(commandString, timeoutMs);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wraps a tool handler so every adb command it runs uses the tool's timeout
+ * (or the call's timeoutMs) and is killed when the client cancels the call
+ * 
+ * @param toolName - Tool name, used to look up per-tool timeouts
+ * @param handler - The tool handler
+ */
+function withCommandContext<A, R>(
+  toolName: string,
+  handler: (args: A, extra: RequestHandlerExtra) => Promise<R>
+): (args: A, extra: RequestHandlerExtra) => Promise<R> {
+  return (args: A, extra: RequestHandlerExtra) => {
+    const requestedTimeout = (args as { timeoutMs?: number } | undefined)?.timeoutMs;
+    const context: CommandContext = {
+      toolName,
+      timeoutMs: requestedTimeout ?? resolveToolTimeout(config, toolName),
+      signal: extra?.signal
+    };
+    return commandContext.run(context, () => handler(args, extra));
   };
-  return execFilePromise("adb", args, execOptions) as Promise<ExecResult>;
 }
 
 // ========== Tool Descriptions ==========
@@ -76,7 +309,9 @@ const ADB_DEVICES_TOOL_DESCRIPTION =
   "Lists all connected Android devices and emulators with their status and details. " +
   "Use this tool to identify available devices for interaction, verify device connections, " +
   "and obtain device identifiers needed for other ADB commands. " +
-  "Returns a table of device IDs with connection states (device, offline, unauthorized, etc.). " +
+  "Returns JSON with one entry per device: serial, state (device, offline, unauthorized, etc.), transport ID, " +
+  "model, product, and whether it is an emulator or a network device. " +
+  "Set details=true to add SDK level, Android release, ABI, manufacturer, screen size/density and battery for online devices. " +
   "Useful before running any device-specific commands to ensure the target device is connected.";
 
 /**
@@ -87,7 +322,8 @@ const INSPECT_UI_TOOL_DESCRIPTION =
   "This provides structured XML data that can be parsed to identify UI elements and their properties. " +
   "Essential for UI automation, determining current app state, and identifying interactive elements. " +
   "Returns the UI structure including all elements, their IDs, text values, bounds, and clickable states. " +
-  "This is significantly more useful than screenshots for AI processing and automation tasks.";
+  "This is significantly more useful than screenshots for AI processing and automation tasks. " +
+  "The dump can run to hundreds of KB; use screen_state for a compact summary of the foreground app and its interactive elements.";
 
 /**
  * Tool description for adb-shell
@@ -105,9 +341,12 @@ const ADB_SHELL_TOOL_DESCRIPTION =
 const ADB_INSTALL_TOOL_DESCRIPTION = 
   "Installs an Android application (APK) on a connected device or emulator. " +
   "Use this for deploying applications, testing new builds, or updating existing apps. " +
-  "Provide the local path to the APK file for installation. " +
-  "Automatically handles the installation process, including replacing existing versions. " +
-  "Specify a device ID when working with multiple connected devices.";
+  "Provide the local path to an APK, a directory of split APKs, or a bundletool .apks archive (splits matching the device are picked), " +
+  "or list split APKs in apkPaths. Remote clients can send the APK as apkBase64 or stage it with adb_upload_chunk and pass uploadId; " +
+  "an optional sha256 is verified before installing. Existing versions are replaced unless replace=false; " +
+  "downgrade, grant-permissions, test, user, ABI and incremental options map to the adb install flags. " +
+  "Pass devices to install on several devices in parallel. " +
+  "Returns JSON with a result per device, including parsed INSTALL_FAILED_* codes and hints on failure.";
 
 /**
  * Tool description for adb-logcat
@@ -117,6 +356,7 @@ const ADB_LOGCAT_TOOL_DESCRIPTION =
   "Ideal for debugging app behavior, monitoring system events, and identifying errors. " +
   "Supports filtering by log tags or expressions to narrow down relevant information. " +
   "Results can be limited to a specific number of lines, making it useful for both brief checks and detailed analysis. " +
+  "Set output='records' for parsed JSON records, or output='findings' to get only Java crashes (FATAL EXCEPTION), native crashes (tombstones) and ANRs, each tied to its package. " +
   "Use when troubleshooting crashes, unexpected behavior, or performance issues.";
 
 /**
@@ -125,7 +365,9 @@ const ADB_LOGCAT_TOOL_DESCRIPTION =
 const ADB_PULL_TOOL_DESCRIPTION = 
   "Transfers a file from a connected Android device to the server. " +
   "Use this to retrieve app data files, logs, configurations, or any accessible file from the device. " +
-  "The file content can be returned as base64-encoded data or as a success message. " +
+  "The file content can be returned as base64-encoded data, as an embedded resource (asResource) with a detected mime type, or as a success message. " +
+  "Files over 16 MB must be read in chunks: pass offset (and optionally length) to get one chunk with its checksum, the file's sha256 and the next offset, " +
+  "then continue with the returned transferId so every chunk comes from the same snapshot. The transfer is released after the last chunk. " +
   "Requires the full path to the file on the device. " +
   "Useful for data extraction, log collection, and backing up device files.";
 
@@ -135,7 +377,9 @@ const ADB_PULL_TOOL_DESCRIPTION =
 const ADB_PUSH_TOOL_DESCRIPTION = 
   "Transfers a file from the server to a connected Android device. " +
   "Useful for uploading test data, configuration files, media content, or any file needed on the device. " +
-  "The file must be provided as base64-encoded content. " +
+  "The file is provided as base64-encoded content, or as the uploadId of a file staged with adb_upload_chunk. " +
+  "Large files can also be written in chunks: offset 0 creates the file and each further chunk is appended at the current remote size; " +
+  "a rejected chunk reports the offset to resume from. Pass sha256 (with the last chunk) to verify the complete file on the device. " +
   "Requires specifying the full destination path on the device where the file should be placed. " +
   "Use this when setting up test environments, restoring backups, or modifying device files.";
 
@@ -143,13 +387,12 @@ const ADB_PUSH_TOOL_DESCRIPTION =
  * Tool description for dump-image
  */
 const ADB_DUMP_IMAGE_TOOL_DESCRIPTION = 
-  "Captures the current screen of a connected Android device. " +
-  "FOR HUMAN VIEWING ONLY: This tool provides a visual image that cannot be easily processed programmatically. " +
+  "Captures the current screen of a connected Android device and returns it as MCP image content. " +
   "The screenshot shows exactly what appears on the device screen at the moment of capture. " +
-  "The default behavior returns a success message. Use asBase64=true to get the image as base64-encoded data. " +
-  "No additional parameters required beyond an optional device ID. " +
-  "Use when you need to visually verify UI elements for human inspection only. " +
-  "NOTE: For programmatic analysis or to identify UI elements, use inspect-ui instead.";
+  "To keep payloads small, downscale with maxWidth/maxHeight/scale, crop to a rectangle (crop) or to a UI element's bounds (element), " +
+  "and re-encode as jpeg or webp with a quality setting. " +
+  "Use when you need to visually verify the screen. " +
+  "NOTE: For programmatic analysis or to identify UI elements, use inspect-ui or find_elements instead.";
 
 /**
  * ADB Server for MCP
@@ -185,6 +428,20 @@ function log(level: LogLevel, message: string, ...args: any[]): void {
   }
 }
 
+// ========== Configuration ==========
+
+// Resolve adb path, server address, default device and timeouts from
+// config file, environment and command line flags
+let loadedConfig: LoadedConfig;
+try {
+  loadedConfig = loadConfig(process.argv.slice(2), process.env);
+} catch (error) {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  log(LogLevel.ERROR, `Invalid configuration: ${errorMsg}`);
+  process.exit(1);
+}
+const config = loadedConfig.config;
+
 // ========== Helper Functions ==========
 
 /**
@@ -195,7 +452,7 @@ function log(level: LogLevel, message: string, ...args: any[]): void {
  * @returns Result object with content and optional isError flag
  */
 async function executeAdbCommand(args: string[], errorMessage: string) {
-  const commandString = ["adb", ...args].join(" ");
+  const commandString = [config.adbPath, ...buildServerArgs(config), ...args].join(" ");
   try {
     log(LogLevel.DEBUG, `Executing command: ${commandString}`);
     const { stdout, stderr } = await runAdb(args);
@@ -279,518 +536,3944 @@ async function cleanupTempFile(filePath: string): Promise<void> {
 /**
  * Formats a device argument for ADB commands
  * 
+ * Falls back to the configured default device when none is given.
+ * 
  * @param device - Device ID
  * @returns Formatted device argument
  */
 function buildDeviceArgs(device?: string): string[] {
-  return device ? ["-s", device] : [];
+  const serial = device?.trim() || config.defaultDevice;
+  return serial ? ["-s", serial] : [];
 }
 
-function splitCommandArguments(value: string): string[] {
-  const args: string[] = [];
-  let current = "";
-  let inSingleQuote = false;
-  let inDoubleQuote = false;
-  let escapeNext = false;
+/**
+ * Lists devices from `adb devices -l`
+ * 
+ * @param details - Also read properties of devices in the "device" state
+ * @returns One entry per device
+ */
+async function listDevices(details: boolean): Promise<DeviceDetails[]> {
+  const { stdout } = await runAdb(["devices", "-l"]);
+  const devices: DeviceDetails[] = parseDevicesList(stdout);
+  if (!details) {
+    return devices;
+  }
 
-  for (const char of value) {
-    if (escapeNext) {
-      current += char;
-      escapeNext = false;
-      continue;
+  await Promise.all(devices.map(async (device) => {
+    if (device.state !== "device") {
+      device.propertiesError = `Device is ${device.state}`;
+      return;
     }
-
-    if (char === "\\") {
-      escapeNext = true;
-      continue;
+    const deviceArgs = ["-s", device.serial];
+    try {
+      const { stdout: getprop } = await runAdb([...deviceArgs, "shell", "getprop"]);
+      // Screen and battery are best effort; getprop alone is enough to describe the device
+      const optional = (command: string[]) => runAdb([...deviceArgs, "shell", ...command])
+        .then((result) => result.stdout)
+        .catch(() => undefined);
+      const [wmSize, wmDensity, battery] = await Promise.all([
+        optional(["wm", "size"]),
+        optional(["wm", "density"]),
+        optional(["dumpsys", "battery"])
+      ]);
+      device.properties = buildDeviceProperties({ getprop, wmSize, wmDensity, battery });
+      device.emulator = device.emulator || isEmulatorBuild(getprop);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log(LogLevel.WARN, `Could not read properties of ${device.serial}: ${errorMsg}`);
+      device.propertiesError = errorMsg;
     }
+  }));
+  return devices;
+}
 
-    if (char === "'" && !inDoubleQuote) {
-      inSingleQuote = !inSingleQuote;
-      continue;
-    }
+interface BlockedAttempt {
+  time: string;
+  tool: string;
+  device?: string;
+  command: string;
+  decision: PolicyDecision["action"];
+  reason?: string;
+}
 
-    if (char === '"' && !inSingleQuote) {
-      inDoubleQuote = !inDoubleQuote;
-      continue;
-    }
+const MAX_BLOCKED_ATTEMPTS = 50;
+const blockedAttempts: BlockedAttempt[] = [];
+const policyConfirmations = new ConfirmationStore();
 
-    if (/\s/.test(char) && !inSingleQuote && !inDoubleQuote) {
-      if (current.length > 0) {
-        args.push(current);
-        current = "";
-      }
-      continue;
-    }
+/**
+ * Checks a command against the safety policy
+ * 
+ * Commands that need confirmation run when called again with the token
+ * from the refusal. Every refused attempt is logged and kept for the
+ * adb://policy resource.
+ * 
+ * @returns A refusal response, or undefined when the command may run
+ */
+function enforcePolicy(request: PolicyRequest, confirmationToken?: string) {
+  const scoped = { ...request, device: request.device?.trim() || config.defaultDevice };
+  const decision = evaluatePolicy(config.policy, scoped);
+  if (decision.action === "allow") {
+    return undefined;
+  }
+  if (decision.action === "confirm" && confirmationToken && policyConfirmations.consume(confirmationToken, scoped)) {
+    log(LogLevel.INFO, `Confirmed ${scoped.tool} command: ${scoped.command}`);
+    return undefined;
+  }
 
-    current += char;
+  const token = decision.action === "confirm" ? policyConfirmations.issue(scoped) : undefined;
+  log(LogLevel.WARN, `Policy ${decision.action === "deny" ? "denied" : "requires confirmation for"} ${scoped.tool} command: ${scoped.command}${decision.reason ? ` (${decision.reason})` : ""}`);
+  blockedAttempts.push({
+    time: new Date().toISOString(),
+    tool: scoped.tool,
+    device: scoped.device,
+    command: scoped.command,
+    decision: decision.action,
+    reason: decision.reason
+  });
+  if (blockedAttempts.length > MAX_BLOCKED_ATTEMPTS) {
+    blockedAttempts.shift();
   }
 
-  if (escapeNext) {
-    current += "\\";
+  const refusal = {
+    blocked: true,
+    decision: decision.action,
+    reason: decision.reason,
+    segment: decision.segment,
+    rule: decision.rule,
+    confirmationToken: token,
+    hint: token
+      ? "Ask the user to confirm, then call the tool again with the same arguments and this confirmationToken"
+      : "This command is not allowed by the server policy"
+  };
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(refusal, null, 2) }],
+    isError: true
+  };
+}
+
+/**
+ * Dumps the current UI hierarchy and returns the XML document
+ * 
+ * @param deviceArgs - Device arguments from buildDeviceArgs
+ * @param outputPath - Optional dump location on the device
+ * @returns The uiautomator XML
+ */
+async function dumpUiHierarchy(deviceArgs: string[], outputPath?: string): Promise<string> {
+  const tempFilePath = createTempFilePath("adb-mcp", "window_dump.xml");
+  const remotePath = outputPath && outputPath.trim()
+    ? outputPath.trim()
+    // Random, so concurrent dumps on one device do not overwrite each other
+    : `/sdcard/adb-mcp-window-${randomBytes(6).toString("hex")}.xml`;
+
+  try {
+    // Dump UI hierarchy on device
+    await runAdb([...deviceArgs, "shell", "uiautomator", "dump", remotePath]);
+    
+    // Pull the UI dump from the device
+    await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
+    
+    // Clean up the remote file
+    await runAdb([...deviceArgs, "shell", "rm", remotePath]);
+
+    return await readFilePromise(tempFilePath, 'utf8');
+  } finally {
+    // Clean up the temporary file
+    await cleanupTempFile(tempFilePath);
   }
+}
+
+/**
+ * Captures a PNG screenshot of the current screen
+ * 
+ * @param deviceArgs - Device arguments from buildDeviceArgs
+ * @returns The PNG bytes
+ */
+async function captureScreenshot(deviceArgs: string[]): Promise<Buffer> {
+  const tempFilePath = createTempFilePath("adb-mcp", "screenshot.png");
+  const remotePath = `/sdcard/adb-mcp-screenshot-${randomBytes(6).toString("hex")}.png`;
 
-  if (current.length > 0) {
-    args.push(current);
+  try {
+    // Take screenshot on the device
+    await runAdb([...deviceArgs, "shell", "screencap", "-p", remotePath]);
+    
+    // Pull the screenshot from the device
+    await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
+    
+    // Clean up the remote file
+    await runAdb([...deviceArgs, "shell", "rm", remotePath]);
+
+    return await readFilePromise(tempFilePath);
+  } finally {
+    // Clean up the temporary file
+    await cleanupTempFile(tempFilePath);
   }
+}
 
-  return args;
+/**
+ * Reads the current display size, accounting for rotation
+ * 
+ * @param deviceArgs - Device arguments from buildDeviceArgs
+ * @returns Width and height in the current orientation
+ */
+async function getDisplaySize(deviceArgs: string[]): Promise<DisplaySize> {
+  const [sizeResult, inputResult] = await Promise.all([
+    runAdb([...deviceArgs, "shell", "wm", "size"]),
+    runAdb([...deviceArgs, "shell", "dumpsys", "input"])
+  ]);
+  return orientDisplaySize(parseWmSize(sizeResult.stdout), parseSurfaceOrientation(inputResult.stdout));
 }
 
-// ========== Server Setup ==========
+/**
+ * Checks the points against the display and runs an input script
+ * 
+ * @param deviceArgs - Device arguments from buildDeviceArgs
+ * @param points - Coordinates the gesture touches
+ * @param script - Shell command(s) to run on the device
+ */
+async function runValidatedGesture(deviceArgs: string[], points: Point[], script: string[]): Promise<DisplaySize> {
+  const display = await getDisplaySize(deviceArgs);
+  validatePoints(points, display);
+  const { stderr } = await runAdb([...deviceArgs, "shell", ...script]);
+  if (stderr.trim()) {
+    throw new Error(stderr.trim());
+  }
+  return display;
+}
 
-// Create an MCP server
-const server = new McpServer({
-  name: "ADB MCP Server",
-  version: "0.1.0",
-  namespace: "adb"
-});
+/**
+ * Extracts the selector fields from tool arguments
+ */
+function pickUiSelector(args: UiSelector): UiSelector {
+  return {
+    text: args.text,
+    textContains: args.textContains,
+    resourceId: args.resourceId,
+    contentDesc: args.contentDesc,
+    contentDescContains: args.contentDescContains,
+    className: args.className,
+    packageName: args.packageName,
+    clickable: args.clickable,
+    scrollable: args.scrollable,
+    enabled: args.enabled,
+    xpath: args.xpath
+  };
+}
 
-// ========== Resources ==========
+/**
+ * A file uploaded in chunks by the client and staged in the temp directory
+ */
+interface StagedUpload {
+  id: string;
+  fileName: string;
+  path: string;
+  receivedBytes: number;
+  updatedAt: number;
+  /** A chunk is being written */
+  busy: boolean;
+}
 
-// Add adb version resource
-server.resource(
-  "adb-version",
-  "adb://version",
-  async (uri: URL) => {
-    try {
-      const { stdout } = await runAdb(["version"]);
-      return {
-        contents: [{
-          uri: uri.href,
-          text: stdout
-        }]
-      };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error retrieving ADB version: ${errorMsg}`);
-      return {
-        contents: [{
-          uri: uri.href,
-          text: `Error retrieving ADB version: ${errorMsg}`
-        }],
-        isError: true
-      };
-    }
+const STAGED_UPLOAD_TTL_MS = 30 * 60 * 1000;
+const stagedUploads = new Map<string, StagedUpload>();
+
+/**
+ * Deletes uploads that have not received a chunk for a while
+ */
+async function pruneStagedUploads(): Promise<void> {
+  const expired = Array.from(stagedUploads.values()).filter((upload) => Date.now() - upload.updatedAt > STAGED_UPLOAD_TTL_MS);
+  for (const upload of expired) {
+    log(LogLevel.INFO, `Discarding expired upload ${upload.id}`);
+    await discardStagedUpload(upload.id);
   }
-);
+}
 
-// Add device list resource
-server.resource(
-  "device-list",
-  "adb://devices",
-  async (uri: URL) => {
-    try {
-      const { stdout } = await runAdb(["devices", "-l"]);
-      return {
-        contents: [{
-          uri: uri.href,
-          text: stdout
-        }]
-      };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error retrieving device list: ${errorMsg}`);
-      return {
-        contents: [{
-          uri: uri.href,
-          text: `Error retrieving device list: ${errorMsg}`
-        }],
-        isError: true
-      };
-    }
+async function discardStagedUpload(uploadId: string): Promise<void> {
+  const upload = stagedUploads.get(uploadId);
+  if (upload) {
+    stagedUploads.delete(uploadId);
+    await cleanupTempFile(upload.path);
   }
-);
+}
 
-// ========== Tools ==========
+/**
+ * Appends a chunk to a staged upload, starting a new upload without an id
+ * 
+ * @param offset - Expected current size; a mismatch means a chunk was lost or repeated
+ */
+async function appendUploadChunk(uploadId: string | undefined, fileName: string | undefined, chunk: Buffer, offset?: number): Promise<StagedUpload> {
+  await pruneStagedUploads();
 
-// ===== Device Management Tools =====
+  let upload: StagedUpload;
+  if (uploadId) {
+    const existing = stagedUploads.get(uploadId);
+    if (!existing) {
+      throw new Error(`Unknown or expired upload: ${uploadId}`);
+    }
+    upload = existing;
+  } else {
+    const name = basename(fileName?.trim() || "upload.bin");
+    const id = `upload-${randomBytes(6).toString("hex")}`;
+    upload = { id, fileName: name, path: createTempFilePath(`adb-mcp-${id}`, name), receivedBytes: 0, updatedAt: Date.now(), busy: false };
+    await writeFilePromise(upload.path, Buffer.alloc(0));
+    stagedUploads.set(id, upload);
+  }
 
-// Add adb devices tool
-server.tool(
-  "adb_devices",
-  AdbDevicesSchema.shape,
-  async (_args: Record<string, never>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, "Listing connected devices");
-    return executeAdbCommand(["devices"], "Error executing adb devices");
-  },
-  { description: ADB_DEVICES_TOOL_DESCRIPTION }
-);
+  if (upload.busy) {
+    throw new Error(`Upload ${upload.id} is still writing the previous chunk; send chunks one at a time`);
+  }
+  if (offset !== undefined && offset !== upload.receivedBytes) {
+    throw new Error(`Chunk offset ${offset} does not match the ${upload.receivedBytes} bytes received so far; resume from offset ${upload.receivedBytes}`);
+  }
 
-// Add adb UI dump tool
-server.tool(
-  "inspect_ui",
-  AdbUidumpSchema.shape,
-  async (args: z.infer<typeof AdbUidumpSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, "Dumping UI hierarchy");
-    
-    const deviceArgs = buildDeviceArgs(args.device);
-    const tempFilePath = createTempFilePath("adb-mcp", "window_dump.xml");
-    const remotePath = args.outputPath && args.outputPath.trim()
-      ? args.outputPath.trim()
-      : "/sdcard/window_dump.xml";
-    
-    try {
-      // Dump UI hierarchy on device
-      await runAdb([...deviceArgs, "shell", "uiautomator", "dump", remotePath]);
-      
-      // Pull the UI dump from the device
-      await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
-      
-      // Clean up the remote file
-      await runAdb([...deviceArgs, "shell", "rm", remotePath]);
-      
-      // Return the UI dump
-      if (args.asBase64 !== false) {
-        // Return as base64 (default)
-        const xmlData = await readFilePromise(tempFilePath);
-        const base64Xml = xmlData.toString('base64');
-        
-        log(LogLevel.INFO, "UI hierarchy dumped successfully as base64");
-        return {
-          content: [{ type: "text" as const, text: base64Xml }]
-        };
-      } else {
-        // Return as plain text
-        const xmlData = await readFilePromise(tempFilePath, 'utf8');
-        
-        log(LogLevel.INFO, "UI hierarchy dumped successfully as plain text");
-        return {
-          content: [{ type: "text" as const, text: xmlData }]
-        };
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error dumping UI hierarchy: ${errorMsg}`);
-      return {
-        content: [{ type: "text" as const, text: `Error dumping UI hierarchy: ${errorMsg}` }],
-        isError: true
-      };
-    } finally {
-      // Clean up the temporary file
-      await cleanupTempFile(tempFilePath);
+  upload.busy = true;
+  try {
+    if (chunk.length > 0) {
+      await appendFilePromise(upload.path, chunk);
+      upload.receivedBytes += chunk.length;
     }
-  },
-  { description: INSPECT_UI_TOOL_DESCRIPTION }
-);
+    upload.updatedAt = Date.now();
+  } finally {
+    upload.busy = false;
+  }
+  return upload;
+}
 
-// Add adb shell tool
-server.tool(
-  "adb_shell",
-  AdbShellSchema.shape,
-  async (args: z.infer<typeof AdbShellSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, `Executing shell command: ${args.command}`);
-    
-    const deviceArgs = buildDeviceArgs(args.device);
-    const trimmedCommand = args.command.trim();
-    if (!trimmedCommand) {
-      const message = "Shell command must not be empty";
-      log(LogLevel.ERROR, message);
-      return {
-        content: [{ type: "text" as const, text: message }],
-        isError: true
-      };
-    }
+/**
+ * Checks a local file against an expected SHA-256
+ * 
+ * @returns The actual SHA-256
+ */
+async function verifySha256(path: string, expected?: string): Promise<string> {
+  const actual = await sha256File(path);
+  if (expected !== undefined && actual !== normalizeSha256(expected)) {
+    throw new Error(`SHA-256 mismatch: expected ${normalizeSha256(expected)}, got ${actual}`);
+  }
+  return actual;
+}
 
-    return executeAdbCommand([...deviceArgs, "shell", trimmedCommand], "Error executing shell command");
-  },
-  { description: ADB_SHELL_TOOL_DESCRIPTION }
-);
+/**
+ * A file pulled from the device once and then read in chunks, so every
+ * chunk comes from the same snapshot
+ */
+interface PulledTransfer {
+  id: string;
+  remotePath: string;
+  path: string;
+  size: number;
+  sha256: string;
+  updatedAt: number;
+}
 
-// Add adb install tool
-server.tool(
-  "adb_install",
-  AdbInstallSchema.shape,
-  async (args: z.infer<typeof AdbInstallSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, `Installing APK file from path: ${args.apkPath}`);
-    
-    try {
-      // Install the APK using the provided file path
-      const deviceArgs = buildDeviceArgs(args.device);
-      const apkPath = args.apkPath.trim();
-      if (!apkPath) {
-        throw new Error("APK path must not be empty");
-      }
+const PULLED_TRANSFER_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_PULL_CHUNK_BYTES = 1024 * 1024;
+/** Larger files have to be read in chunks to stay within client message limits */
+const MAX_INLINE_PULL_BYTES = 16 * 1024 * 1024;
+const pulledTransfers = new Map<string, PulledTransfer>();
 
-      const result = await executeAdbCommand([...deviceArgs, "install", "-r", apkPath], "Error installing APK");
-      if (!result.isError) {
-        log(LogLevel.INFO, "APK installed successfully");
-      }
-      return result;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error installing APK: ${errorMsg}`);
-      return {
-        content: [{ type: "text" as const, text: `Error installing APK: ${errorMsg}` }],
-        isError: true
-      };
-    }
-  },
-  { description: ADB_INSTALL_TOOL_DESCRIPTION }
-);
-
-// Add adb logcat tool
-server.tool(
-  "adb_logcat",
-  AdbLogcatSchema.shape,
-  async (args: z.infer<typeof AdbLogcatSchema>, _extra: RequestHandlerExtra) => {
-    const lines = args.lines || 50;
-    const filterExpr = args.filter ? args.filter : "";
-    log(LogLevel.INFO, `Reading logcat (${lines} lines, filter: ${filterExpr || 'none'})`);
-    
-    const deviceArgs = buildDeviceArgs(args.device);
-    const filterArgs = filterExpr ? splitCommandArguments(filterExpr) : [];
-    const adbArgs = [...deviceArgs, "logcat", "-d", ...filterArgs];
+/**
+ * Deletes transfers that have not been read for a while
+ */
+async function prunePulledTransfers(): Promise<void> {
+  const expired = Array.from(pulledTransfers.values()).filter((transfer) => Date.now() - transfer.updatedAt > PULLED_TRANSFER_TTL_MS);
+  for (const transfer of expired) {
+    log(LogLevel.INFO, `Discarding expired transfer ${transfer.id}`);
+    await discardPulledTransfer(transfer.id);
+  }
+}
 
-    try {
-      const { stdout, stderr } = await runAdb(adbArgs);
-      if (stderr) {
-        log(LogLevel.WARN, `logcat returned stderr: ${stderr}`);
-      }
+async function discardPulledTransfer(transferId: string): Promise<void> {
+  const transfer = pulledTransfers.get(transferId);
+  if (transfer) {
+    pulledTransfers.delete(transferId);
+    await cleanupTempFile(transfer.path);
+  }
+}
 
-      const logLines = stdout.split(/\r?\n/);
-      const limitedLines = lines > 0 ? logLines.slice(-lines) : logLines;
-      const text = limitedLines.join("\n");
+/**
+ * Pulls a file into the temp directory and registers it as a transfer
+ */
+async function startPulledTransfer(deviceArgs: string[], remotePath: string): Promise<PulledTransfer> {
+  await prunePulledTransfers();
 
-      return {
-        content: [{ type: "text" as const, text }]
-      };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error reading logcat: ${errorMsg}`);
-      return {
-        content: [{ type: "text" as const, text: `Error reading logcat: ${errorMsg}` }],
-        isError: true
-      };
+  const path = createTempFilePath("adb-mcp-transfer", basename(remotePath));
+  try {
+    const { stderr } = await runAdb([...deviceArgs, "pull", remotePath, path]);
+    if (stderr) {
+      log(LogLevel.WARN, `adb pull reported stderr: ${stderr}`);
     }
-  },
-  { description: ADB_LOGCAT_TOOL_DESCRIPTION }
-);
+    return await registerPulledTransfer(remotePath, path);
+  } catch (error) {
+    await cleanupTempFile(path);
+    throw error;
+  }
+}
 
-// Add adb pull tool
-server.tool(
-  "adb_pull",
-  AdbPullSchema.shape,
-  async (args: z.infer<typeof AdbPullSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, `Pulling file from device: ${args.remotePath}`);
-    
-    const deviceArgs = buildDeviceArgs(args.device);
-    const tempFilePath = createTempFilePath("adb-mcp", basename(args.remotePath));
-    
-    try {
-      // Pull the file from the device
-      const remotePath = args.remotePath.trim();
-      if (!remotePath) {
-        throw new Error("Remote path must not be empty");
-      }
+/**
+ * Registers a local file (a pulled file or a packed directory) as a transfer
+ * that adb_pull can read in chunks
+ */
+async function registerPulledTransfer(remotePath: string, path: string): Promise<PulledTransfer> {
+  const { size } = await statPromise(path);
+  const id = `transfer-${randomBytes(6).toString("hex")}`;
+  const transfer: PulledTransfer = { id, remotePath, path, size, sha256: await sha256File(path), updatedAt: Date.now() };
+  pulledTransfers.set(id, transfer);
+  return transfer;
+}
 
-      const { stdout, stderr } = await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
-      if (stderr) {
-        log(LogLevel.WARN, `adb pull reported stderr: ${stderr}`);
-      }
-      
-      // If asBase64 is true (default), read the file and return as base64
-      if (args.asBase64 !== false) {
-        const fileData = await readFilePromise(tempFilePath);
-        const base64Data = fileData.toString('base64');
-        
-        log(LogLevel.INFO, `File pulled from device successfully: ${remotePath}`);
-        return {
-          content: [{ type: "text" as const, text: base64Data }]
-        };
-      } else {
-        // Otherwise return the pull operation result
-        log(LogLevel.INFO, `File pulled from device successfully: ${remotePath}`);
-        return {
-          content: [{ type: "text" as const, text: stdout }]
-        };
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error pulling file: ${errorMsg}`);
-      return {
-        content: [{ type: "text" as const, text: `Error pulling file: ${errorMsg}` }],
-        isError: true
-      };
-    } finally {
-      // Clean up the temporary file
-      await cleanupTempFile(tempFilePath);
-    }
-  },
-  { description: ADB_PULL_TOOL_DESCRIPTION }
-);
+/**
+ * Size of a regular file on the device
+ * 
+ * @returns The size in bytes, or undefined when the file does not exist
+ */
+async function getRemoteFileSize(deviceArgs: string[], remotePath: string): Promise<number | undefined> {
+  const quotedPath = quoteShellArgument(remotePath);
+  const { stdout } = await runAdb([...deviceArgs, "shell", `if [ -f ${quotedPath} ]; then stat -c %s ${quotedPath}; fi`]);
+  const size = parseInt(stdout.trim(), 10);
+  return Number.isNaN(size) ? undefined : size;
+}
 
-// Add adb push tool
-server.tool(
-  "adb_push",
-  AdbPushSchema.shape,
-  async (args: z.infer<typeof AdbPushSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, `Pushing file to device: ${args.remotePath}`);
-    
-    const deviceArgs = buildDeviceArgs(args.device);
-    const tempFilePath = createTempFilePath("adb-mcp", basename(args.remotePath));
-    
-    try {
-      // Decode the base64 file data and write to temporary file
-      const fileData = Buffer.from(args.fileBase64, 'base64');
-      await writeFilePromise(tempFilePath, fileData);
-      
-      // Push the temporary file to the device
-      const remotePath = args.remotePath.trim();
-      if (!remotePath) {
-        throw new Error("Remote path must not be empty");
-      }
+async function getRemoteSha256(deviceArgs: string[], remotePath: string): Promise<string> {
+  const { stdout } = await runAdb([...deviceArgs, "shell", `sha256sum ${quoteShellArgument(remotePath)}`]);
+  return parseSha256sum(stdout);
+}
 
-      const result = await executeAdbCommand([...deviceArgs, "push", tempFilePath, remotePath], "Error pushing file");
-      if (!result.isError) {
-        log(LogLevel.INFO, `File pushed to device successfully: ${remotePath}`);
-      }
-      return result;
-      
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error pushing file: ${errorMsg}`);
-      return {
-        content: [{ type: "text" as const, text: `Error pushing file: ${errorMsg}` }],
-        isError: true
-      };
+/**
+ * Writes a chunk to a file on the device. Offset 0 replaces the file; any
+ * other offset must equal the current remote size and appends the chunk.
+ */
+async function writeRemoteChunk(deviceArgs: string[], localPath: string, remotePath: string, offset: number): Promise<void> {
+  if (offset === 0) {
+    await runAdb([...deviceArgs, "push", localPath, remotePath]);
+    return;
+  }
+
+  const remoteSize = await getRemoteFileSize(deviceArgs, remotePath);
+  if (remoteSize === undefined) {
+    throw new Error(`${remotePath} does not exist on the device; start the transfer at offset 0`);
+  }
+  if (remoteSize !== offset) {
+    throw new Error(`Chunk offset ${offset} does not match the remote size of ${remoteSize} bytes; resume from offset ${remoteSize}`);
+  }
+
+  const chunkPath = `/data/local/tmp/adb-mcp-chunk-${randomBytes(6).toString("hex")}`;
+  await runAdb([...deviceArgs, "push", localPath, chunkPath]);
+  const quotedChunk = quoteShellArgument(chunkPath);
+  await runAdb([
+    ...deviceArgs, "shell", `cat ${quotedChunk} >> ${quoteShellArgument(remotePath)}; status=$?; rm -f ${quotedChunk}; exit $status`
+  ]);
+}
+
+/**
+ * Stats a single path on the device
+ */
+async function statRemotePath(deviceArgs: string[], remotePath: string): Promise<RemoteFileEntry> {
+  const { stdout } = await runAdb([...deviceArgs, "shell", `${buildStatCommand(remotePath)} 2>/dev/null; true`]);
+  const [entry] = parseStatOutput(stdout);
+  if (!entry) {
+    throw new Error(`No such file or directory: ${remotePath}`);
+  }
+  return entry;
+}
+
+/**
+ * Lists a directory on the device, optionally recursively
+ * 
+ * @param maxDepth - Depth limit; undefined lists the whole tree
+ */
+async function listRemoteDirectory(deviceArgs: string[], remotePath: string, maxDepth?: number): Promise<RemoteFileEntry[]> {
+  const quotedPath = quoteShellArgument(remotePath);
+  const { stdout } = await runAdb([
+    ...deviceArgs, "shell", `if [ -d ${quotedPath} ]; then ${buildListCommand(remotePath, maxDepth)}; else echo missing; fi`
+  ]);
+  if (stdout.trim() === "missing") {
+    throw new Error(`Not a directory: ${remotePath}`);
+  }
+  return parseStatOutput(stdout);
+}
+
+/**
+ * SHA-256 of every file below a directory on the device, by relative path
+ */
+async function hashRemoteDirectory(deviceArgs: string[], remotePath: string): Promise<Map<string, string>> {
+  const { stdout } = await runAdb([...deviceArgs, "shell", buildHashCommand(remotePath)]);
+  return parseHashOutput(stdout);
+}
+
+/**
+ * Strips trailing slashes from a device directory path
+ */
+function normalizeRemoteDirectory(remotePath: string): string {
+  const trimmed = remotePath.trim().replace(/\/+$/, "");
+  if (!trimmed) {
+    throw new Error("Remote directory must not be empty or /");
+  }
+  return trimmed;
+}
+
+interface PulledDirectory {
+  archive: Buffer;
+  /** SHA-256 of every file in the directory, for the next sync */
+  files: Record<string, string>;
+  /** Files included in the archive */
+  transferred: string[];
+  /** Files in knownFiles that no longer exist on the device */
+  removed?: string[];
+  /** Entries that are not regular files or could not be read */
+  skipped: string[];
+}
+
+/**
+ * Pulls a directory and packs it as an archive
+ * 
+ * @param knownFiles - Sync mode: hashes from a previous pull; only new or changed files are pulled
+ */
+async function pullDirectory(
+  deviceArgs: string[],
+  remotePath: string,
+  format: ArchiveFormat,
+  knownFiles?: Record<string, string>
+): Promise<PulledDirectory> {
+  const entries = await listRemoteDirectory(deviceArgs, remotePath);
+  const localRoot = await mkdtempPromise(join(tmpdir(), "adb-mcp-dir-"));
+  const localDir = join(localRoot, basename(remotePath));
+
+  try {
+    let wanted: Set<string>;
+    let hashes: Map<string, string> | undefined;
+    let removed: string[] | undefined;
+    if (knownFiles) {
+      hashes = await hashRemoteDirectory(deviceArgs, remotePath);
+      wanted = new Set(Array.from(hashes).filter(([name, hash]) => knownFiles[name] !== hash).map(([name]) => name));
+      removed = Object.keys(knownFiles).filter((name) => !hashes!.has(name)).sort();
+      for (const name of wanted) {
+        await mkdirPromise(dirname(join(localDir, name)), { recursive: true });
+        await runAdb([...deviceArgs, "pull", posix.join(remotePath, name), join(localDir, name)]);
+      }
+    } else {
+      wanted = new Set(entries.filter((entry) => entry.type === "file").map((entry) => entry.name));
+      // Pulling into an existing directory creates <localRoot>/<basename>
+      const { stderr } = await runAdb([...deviceArgs, "pull", remotePath, localRoot]);
+      if (stderr) {
+        log(LogLevel.WARN, `adb pull reported stderr: ${stderr}`);
+      }
+    }
+
+    const files: ArchiveFile[] = [];
+    const manifest: Record<string, string> = {};
+    const transferred: string[] = [];
+    const skipped: string[] = [];
+    for (const entry of entries) {
+      const mtime = new Date(entry.mtime);
+      const mode = parseInt(entry.mode, 8);
+      if (entry.type === "directory") {
+        files.push({ name: entry.name, data: Buffer.alloc(0), directory: true, mode, mtime });
+        continue;
+      }
+      if (entry.type !== "file") {
+        skipped.push(entry.name);
+        continue;
+      }
+      if (!wanted.has(entry.name)) {
+        const hash = hashes?.get(entry.name);
+        if (hash) {
+          manifest[entry.name] = hash;
+        }
+        continue;
+      }
+      try {
+        const data = await readFilePromise(join(localDir, entry.name));
+        files.push({ name: entry.name, data, mode, mtime });
+        manifest[entry.name] = sha256Buffer(data);
+        transferred.push(entry.name);
+      } catch {
+        // adb pull skips files it cannot read
+        skipped.push(entry.name);
+      }
+    }
+
+    return { archive: createArchive(format, files), files: manifest, transferred, removed, skipped };
+  } finally {
+    await rmPromise(localRoot, { recursive: true, force: true });
+  }
+}
+
+interface PushedDirectory {
+  remotePath: string;
+  format: ArchiveFormat;
+  pushed: string[];
+  /** Files skipped in sync mode because the device copy is identical */
+  unchanged: number;
+  directories: number;
+  /** Sync mode: files on the device that are not in the archive (left in place) */
+  extraneous?: string[];
+}
+
+/**
+ * Pushes the contents of an archive into a directory on the device
+ * 
+ * @param sync - Only push files whose SHA-256 differs from the device copy
+ */
+async function pushDirectory(deviceArgs: string[], remotePath: string, archive: Buffer, sync: boolean): Promise<PushedDirectory> {
+  const { format, files } = readArchive(archive);
+  await runAdb([...deviceArgs, "shell", `mkdir -p ${quoteShellArgument(remotePath)}`]);
+
+  const hashes = sync ? await hashRemoteDirectory(deviceArgs, remotePath) : new Map<string, string>();
+  const archiveFiles = files.filter((file) => !file.directory);
+  const changed = archiveFiles.filter((file) => !sync || hashes.get(file.name) !== sha256Buffer(file.data));
+  const directories = new Set(files.filter((file) => file.directory).map((file) => file.name));
+  for (const file of changed) {
+    for (let parent = posix.dirname(file.name); parent !== "."; parent = posix.dirname(parent)) {
+      directories.add(parent);
+    }
+  }
+
+  if (directories.size > 0) {
+    const paths = Array.from(directories).sort().map((name) => quoteShellArgument(posix.join(remotePath, name)));
+    await runAdb([...deviceArgs, "shell", `mkdir -p ${paths.join(" ")}`]);
+  }
+
+  if (changed.length > 0) {
+    const localRoot = await mkdtempPromise(join(tmpdir(), "adb-mcp-dir-"));
+    try {
+      const localDir = join(localRoot, basename(remotePath));
+      for (const file of changed) {
+        await mkdirPromise(dirname(join(localDir, file.name)), { recursive: true });
+        await writeFilePromise(join(localDir, file.name), file.data);
+      }
+      // Pushing a directory into an existing one merges it into <parent>/<basename>
+      await runAdb([...deviceArgs, "push", localDir, posix.dirname(remotePath)]);
     } finally {
-      // Clean up the temporary file
-      await cleanupTempFile(tempFilePath);
+      await rmPromise(localRoot, { recursive: true, force: true });
+    }
+  }
+
+  const archiveNames = new Set(archiveFiles.map((file) => file.name));
+  return {
+    remotePath,
+    format,
+    pushed: changed.map((file) => file.name),
+    unchanged: archiveFiles.length - changed.length,
+    directories: directories.size,
+    extraneous: sync ? Array.from(hashes.keys()).filter((name) => !archiveNames.has(name)).sort() : undefined
+  };
+}
+
+/**
+ * Runs a shell command as a debuggable app (in its data directory) with run-as
+ * 
+ * @param redirect - Redirection done by the device shell around run-as, which
+ *   can reach /data/local/tmp while the app cannot
+ */
+async function runAsApp(deviceArgs: string[], packageName: string, command: string, redirect?: string): Promise<string> {
+  let stdout: string;
+  try {
+    const shellCommand = buildRunAsCommand(packageName, command) + (redirect ? ` ${redirect}` : "");
+    ({ stdout } = await runAdb([...deviceArgs, "shell", shellCommand]));
+  } catch (error) {
+    if (error instanceof AdbTimeoutError || error instanceof AdbCancelledError) {
+      throw error;
+    }
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new Error(describeRunAsFailure(errorMsg, packageName) ?? errorMsg);
+  }
+  // Older devices report run-as failures on stdout with exit status 0
+  const failure = stdout.startsWith("run-as:") ? describeRunAsFailure(stdout, packageName) : undefined;
+  if (failure) {
+    throw new Error(failure);
+  }
+  return stdout;
+}
+
+function runAsStagingPath(): string {
+  return `/data/local/tmp/adb-mcp-run-as-${randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Copies a file out of an app's data directory to the server
+ */
+async function pullAppFile(deviceArgs: string[], packageName: string, appPath: string, localPath: string): Promise<void> {
+  const stagingPath = runAsStagingPath();
+  try {
+    await runAsApp(deviceArgs, packageName, `cat ${quoteShellArgument(appPath)}`, `> ${stagingPath}`);
+    await runAdb([...deviceArgs, "pull", stagingPath, localPath]);
+  } finally {
+    await runAdb([...deviceArgs, "shell", `rm -f ${stagingPath}`]).catch(() => undefined);
+  }
+}
+
+/**
+ * Writes a file from the server into an app's data directory, creating parent directories
+ */
+async function pushAppFile(deviceArgs: string[], packageName: string, localPath: string, appPath: string): Promise<void> {
+  const stagingPath = runAsStagingPath();
+  const parent = posix.dirname(appPath);
+  const mkdirCommand = parent !== "." ? `mkdir -p ${quoteShellArgument(parent)} && ` : "";
+  try {
+    await runAdb([...deviceArgs, "push", localPath, stagingPath]);
+    await runAsApp(deviceArgs, packageName, `${mkdirCommand}cat > ${quoteShellArgument(appPath)}`, `< ${stagingPath}`);
+  } finally {
+    await runAdb([...deviceArgs, "shell", `rm -f ${stagingPath}`]).catch(() => undefined);
+  }
+}
+
+/**
+ * Reads a SharedPreferences file of an app
+ * 
+ * @returns Empty preferences when the file does not exist
+ */
+async function readAppSharedPrefs(deviceArgs: string[], packageName: string, file: string): Promise<SharedPrefs> {
+  const quotedPath = quoteShellArgument(sharedPrefsPath(file));
+  const xml = await runAsApp(deviceArgs, packageName, `if [ -f ${quotedPath} ]; then cat ${quotedPath}; fi`);
+  return xml.trim() ? parseSharedPrefs(xml) : {};
+}
+
+/**
+ * Runs a shell command on the device, as the app when a package is given
+ */
+async function runDeviceCommand(deviceArgs: string[], packageName: string | undefined, command: string): Promise<string> {
+  if (packageName) {
+    return runAsApp(deviceArgs, packageName, command);
+  }
+  const { stdout } = await runAdb([...deviceArgs, "shell", command]);
+  return stdout;
+}
+
+/**
+ * `sqlite3 -version` output of the device's shell, if it has one
+ */
+async function deviceSqliteVersion(deviceArgs: string[]): Promise<string | undefined> {
+  const { stdout } = await runAdb([...deviceArgs, "shell", "command -v sqlite3 >/dev/null && sqlite3 -version; true"]);
+  return stdout.trim() || undefined;
+}
+
+/**
+ * Runs sqlite3 on the device against a database of an app (or one the shell can read)
+ */
+async function querySqliteOnDevice(
+  deviceArgs: string[],
+  packageName: string | undefined,
+  databasePath: string,
+  sql: string,
+  readOnly: boolean,
+  safe: boolean
+): Promise<SqliteResult> {
+  const command = ["sqlite3", ...buildSqliteArgs(databasePath, sql, readOnly, safe)].map(quoteShellArgument).join(" ");
+  try {
+    return parseQuoteModeOutput(await runDeviceCommand(deviceArgs, packageName, command));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    const sqliteError = describeSqliteError(errorMsg);
+    throw sqliteError ? new Error(sqliteError) : error;
+  }
+}
+
+/**
+ * Pulls a database (with its WAL files, which hold committed changes not yet
+ * checkpointed) and runs the query with the server's sqlite3
+ */
+async function querySqliteOnServer(
+  deviceArgs: string[],
+  packageName: string | undefined,
+  databasePath: string,
+  sql: string
+): Promise<SqliteResult> {
+  const candidates = [databasePath, `${databasePath}-wal`, `${databasePath}-shm`];
+  const listCommand = `for f in ${candidates.map(quoteShellArgument).join(" ")}; do [ -f "$f" ] && echo "$f"; done; true`;
+  const existing = (await runDeviceCommand(deviceArgs, packageName, listCommand)).split(/\r?\n/).map((line) => line.trim());
+  if (!existing.includes(databasePath)) {
+    throw new Error(`No such database: ${databasePath}`);
+  }
+
+  const localDir = await mkdtempPromise(join(tmpdir(), "adb-mcp-db-"));
+  try {
+    for (const remoteFile of candidates.filter((candidate) => existing.includes(candidate))) {
+      const localFile = join(localDir, posix.basename(remoteFile));
+      if (packageName) {
+        await pullAppFile(deviceArgs, packageName, remoteFile, localFile);
+      } else {
+        await runAdb([...deviceArgs, "pull", remoteFile, localFile]);
+      }
+    }
+
+    const context = commandContext.getStore();
+    try {
+      const { stdout: version } = await (execFilePromise("sqlite3", ["-version"], DEFAULT_EXEC_OPTIONS) as Promise<ExecResult>);
+      // The copy is discarded, so it is opened read-write to let sqlite3 replay the WAL
+      const args = buildSqliteArgs(join(localDir, posix.basename(databasePath)), sql, false, supportsSafeMode(version));
+      const { stdout } = await (execFilePromise("sqlite3", args, {
+        ...DEFAULT_EXEC_OPTIONS,
+        killSignal: "SIGKILL",
+        signal: context?.signal,
+        timeout: context?.timeoutMs ?? config.defaultTimeoutMs
+      }) as Promise<ExecResult>);
+      return parseQuoteModeOutput(stdout);
+    } catch (error) {
+      const execError = error as NodeJS.ErrnoException & { stderr?: string };
+      if (execError.code === "ENOENT") {
+        throw new Error("sqlite3 is available neither on the device nor on the server");
+      }
+      throw new Error(describeSqliteError(execError.stderr ?? "") ?? execError.message);
+    }
+  } finally {
+    await rmPromise(localDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Lists packages with their APK path, version code, UID and installer
+ * 
+ * @param options - Extra `pm list packages` options, e.g. -3 or -d, and a name filter
+ */
+async function listPackages(deviceArgs: string[], options: string[]): Promise<PackageEntry[]> {
+  const list = (columns: string[]) => runAdb([...deviceArgs, "shell", "pm", "list", "packages", ...columns, ...options]);
+  try {
+    return parsePackageList((await list(["-f", "-i", "-U", "--show-versioncode"])).stdout);
+  } catch (error) {
+    if (error instanceof AdbTimeoutError || error instanceof AdbCancelledError) {
+      throw error;
+    }
+    // -U and --show-versioncode need Android 8 and 9
+    return parsePackageList((await list(["-f", "-i"])).stdout);
+  }
+}
+
+/**
+ * Asks the package manager which activity handles MAIN/LAUNCHER for a package
+ * 
+ * @returns undefined when there is none or the device is older than Android 7
+ */
+async function resolveLauncherActivity(deviceArgs: string[], packageName: string, userId?: number): Promise<string | undefined> {
+  const userArgs = userId !== undefined ? ["--user", String(userId)] : [];
+  try {
+    const { stdout } = await runAdb([
+      ...deviceArgs, "shell", "cmd", "package", "resolve-activity", "--brief", ...userArgs,
+      "-a", "android.intent.action.MAIN", "-c", "android.intent.category.LAUNCHER", packageName
+    ]);
+    return parseResolvedActivity(stdout);
+  } catch (error) {
+    if (error instanceof AdbTimeoutError || error instanceof AdbCancelledError) {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Collects app details from dumpsys package, pm path, pm list packages and
+ * the launcher activity resolution
+ */
+async function getAppInfo(deviceArgs: string[], packageName: string, userId?: number): Promise<AppInfo> {
+  const userArgs = userId !== undefined ? ["--user", String(userId)] : [];
+  const optional = (promise: Promise<ExecResult>) => promise.then(({ stdout }) => stdout, () => "");
+  const [dumpsys, paths, list, launcher] = await Promise.all([
+    runAdb([...deviceArgs, "shell", "dumpsys", "package", packageName]).then(({ stdout }) => stdout),
+    optional(runAdb([...deviceArgs, "shell", "pm", "path", ...userArgs, packageName])),
+    listPackages(deviceArgs, [packageName]).catch(() => [] as PackageEntry[]),
+    resolveLauncherActivity(deviceArgs, packageName, userId)
+  ]);
+
+  const info = parseDumpsysPackage(dumpsys, packageName, userId);
+  const entry = list.find((candidate) => candidate.packageName === packageName);
+  info.apkPaths = parsePackagePaths(paths);
+  if (info.apkPaths.length === 0 && entry?.apkPath) {
+    info.apkPaths = [entry.apkPath];
+  }
+  info.versionCode ??= entry?.versionCode;
+  info.uid ??= entry?.uid;
+  if (!info.installer || info.installer === "null") {
+    info.installer = entry?.installer && entry.installer !== "null" ? entry.installer : undefined;
+  }
+  info.launcherActivity = launcher ?? info.launcherActivity;
+  return info;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Polls the resumed activity until it matches
+ * 
+ * @returns The matching component and how long it took
+ * @throws When the activity is not resumed within the timeout
+ */
+async function waitForResumedActivity(deviceArgs: string[], wanted: string, timeoutMs: number): Promise<{ activity: string; waitedMs: number }> {
+  const started = Date.now();
+  let resumed: string | undefined;
+  for (;;) {
+    const { stdout } = await runAdb([...deviceArgs, "shell", "dumpsys", "activity", "activities"]);
+    resumed = parseResumedActivity(stdout);
+    if (resumed && activityMatches(resumed, wanted)) {
+      return { activity: resumed, waitedMs: Date.now() - started };
+    }
+    if (Date.now() - started >= timeoutMs) {
+      throw new Error(`${wanted} was not resumed within ${timeoutMs}ms${resumed ? ` (resumed: ${resumed})` : ""}`);
+    }
+    await delay(250);
+  }
+}
+
+/**
+ * Reads an app's runtime permissions and app-op modes
+ */
+async function readPermissionState(deviceArgs: string[], packageName: string, userId?: number): Promise<PermissionSnapshot & { uidAppOps: Record<string, string> }> {
+  const userArgs = userId !== undefined ? ["--user", String(userId)] : [];
+  const [dumpsys, appOps] = await Promise.all([
+    runAdb([...deviceArgs, "shell", "dumpsys", "package", packageName]),
+    runAdb([...deviceArgs, "shell", "appops", "get", ...userArgs, packageName])
+  ]);
+  const { ops, uidModes } = parseAppOps(appOps.stdout);
+  return {
+    packageName,
+    user: userId,
+    runtimePermissions: parseDumpsysPackage(dumpsys.stdout, packageName, userId).runtimePermissions,
+    appOps: ops,
+    uidAppOps: uidModes
+  };
+}
+
+/**
+ * Runs a pm or appops command that reports failures in its output,
+ * sometimes with exit status 0
+ */
+async function runPermissionCommand(deviceArgs: string[], command: string[]): Promise<void> {
+  const { stdout, stderr } = await runAdb([...deviceArgs, "shell", ...command]);
+  const output = `${stdout}\n${stderr}`;
+  // "Exception occurred while executing 'grant':" is followed by the exception itself
+  const failure = /^[\w.$]*Exception: (.*)$/m.exec(output) ?? /^(?:Error|Security exception): (.*)$/m.exec(output) ??
+    /^(Exception occurred.*|Unknown command.*)$/m.exec(output);
+  if (failure) {
+    throw new Error(failure[1].trim());
+  }
+}
+
+interface PermissionChangeResult extends PermissionChange {
+  ok: boolean;
+  error?: string;
+}
+
+interface AppOpChangeResult {
+  op: string;
+  mode: string;
+  /** Set for modes of the app's UID */
+  uid?: boolean;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Applies permission changes one by one, carrying on after failures
+ */
+async function applyPermissionChanges(
+  deviceArgs: string[],
+  packageName: string,
+  changes: PermissionChange[],
+  userId?: number
+): Promise<PermissionChangeResult[]> {
+  const results: PermissionChangeResult[] = [];
+  for (const change of changes) {
+    try {
+      await runPermissionCommand(deviceArgs, buildPermissionCommand(packageName, change, userId));
+      results.push({ ...change, ok: true });
+    } catch (error) {
+      if (error instanceof AdbTimeoutError || error instanceof AdbCancelledError) {
+        throw error;
+      }
+      results.push({ ...change, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return results;
+}
+
+/**
+ * Sets app-op modes one by one, carrying on after failures
+ *
+ * @param uid - Set the modes of the app's UID instead of the package's
+ */
+async function applyAppOpModes(
+  deviceArgs: string[],
+  packageName: string,
+  modes: Record<string, string>,
+  userId?: number,
+  uid = false
+): Promise<AppOpChangeResult[]> {
+  const userArgs = userId !== undefined ? ["--user", String(userId)] : [];
+  const uidArgs = uid ? ["--uid"] : [];
+  const results: AppOpChangeResult[] = [];
+  for (const [op, mode] of Object.entries(modes)) {
+    const result = { op, mode, ...(uid ? { uid } : {}) };
+    try {
+      if (!APP_OP_MODES.includes(mode as AppOpMode)) {
+        throw new Error(`Invalid app-op mode: ${mode}`);
+      }
+      await runPermissionCommand(deviceArgs, ["appops", "set", ...userArgs, ...uidArgs, packageName, validateAppOpName(op), mode]);
+      results.push({ ...result, ok: true });
+    } catch (error) {
+      if (error instanceof AdbTimeoutError || error instanceof AdbCancelledError) {
+        throw error;
+      }
+      results.push({ ...result, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return results;
+}
+
+/**
+ * APKs to install, either fixed or chosen per device from a .apks archive
+ */
+interface InstallSource {
+  description: string;
+  apksFor(deviceArgs: string[]): Promise<string[]>;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Resolves the install source: explicit split APKs, a directory of splits,
+ * a bundletool .apks archive or a single APK
+ */
+async function resolveInstallSource(apkPath: string | undefined, apkPaths: string[] | undefined): Promise<InstallSource> {
+  const fixed = (paths: string[], description: string): InstallSource => ({
+    description,
+    apksFor: async () => paths,
+    cleanup: async () => undefined
+  });
+
+  if (apkPaths && apkPaths.length > 0) {
+    const paths = apkPaths.map((path) => path.trim()).filter(Boolean);
+    return fixed(paths, paths.join(" "));
+  }
+
+  const path = apkPath?.trim();
+  if (!path) {
+    throw new Error("Provide apkPath or apkPaths");
+  }
+  const extension = extname(path).toLowerCase();
+  if (extension === ".aab") {
+    throw new Error("App bundles (.aab) cannot be installed directly; build an .apks archive with 'bundletool build-apks' first");
+  }
+
+  if ((await statPromise(path)).isDirectory()) {
+    const files = (await readdirPromise(path)).filter((file) => file.toLowerCase().endsWith(".apk")).sort();
+    if (files.length === 0) {
+      throw new Error(`No APK files in directory: ${path}`);
+    }
+    // Keep the base APK first so install-multiple sees it before the splits
+    files.sort((a, b) => (a === "base.apk" ? -1 : b === "base.apk" ? 1 : 0));
+    return fixed(files.map((file) => join(path, file)), path);
+  }
+
+  if (extension !== ".apks") {
+    return fixed([path], path);
+  }
+
+  const entries = readZipEntries(await readFilePromise(path));
+  const extractDir = await mkdtempPromise(join(tmpdir(), "adb-mcp-apks-"));
+  const extracted = new Map<string, Promise<string>>();
+  const extract = (name: string) => {
+    if (!extracted.has(name)) {
+      const entry = entries.find((candidate) => candidate.name === name)!;
+      const target = join(extractDir, name.replace(/[\\/]/g, "_"));
+      extracted.set(name, writeFilePromise(target, entry.read()).then(() => target));
+    }
+    return extracted.get(name)!;
+  };
+
+  return {
+    description: path,
+    apksFor: async (deviceArgs) => {
+      const spec = await getDeviceSpec(deviceArgs);
+      const selected = selectApksSplits(entries.map((entry) => entry.name), spec);
+      log(LogLevel.DEBUG, `Selected splits for ${deviceArgs.join(" ") || "device"}: ${selected.join(", ")}`);
+      return Promise.all(selected.map(extract));
+    },
+    cleanup: async () => {
+      try {
+        await rmPromise(extractDir, { recursive: true, force: true });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.WARN, `Failed to clean up ${extractDir}: ${errorMsg}`);
+      }
+    }
+  };
+}
+
+/**
+ * Reads the ABIs and screen density used to pick split APKs
+ */
+async function getDeviceSpec(deviceArgs: string[]): Promise<DeviceSpec> {
+  const [{ stdout: abiList }, density] = await Promise.all([
+    runAdb([...deviceArgs, "shell", "getprop", "ro.product.cpu.abilist"]),
+    runAdb([...deviceArgs, "shell", "wm", "density"]).then((result) => parseWmDensity(result.stdout)).catch(() => undefined)
+  ]);
+  return { abis: abiList.trim().split(",").filter(Boolean), density };
+}
+
+/**
+ * Installs APKs on one device and parses the outcome
+ * 
+ * adb exits with an error status when the install fails, so the output of
+ * a failed invocation is parsed as well.
+ */
+async function installOnDevice(device: string | undefined, source: InstallSource, flags: InstallFlags): Promise<InstallResult> {
+  const deviceArgs = buildDeviceArgs(device);
+  const serial = deviceArgs[1];
+  let output: string;
+  try {
+    const apks = await source.apksFor(deviceArgs);
+    const { stdout, stderr } = await runAdb([...deviceArgs, ...buildInstallArgs(apks, flags)]);
+    output = [stdout.trim(), stderr.trim()].filter(Boolean).join("\n");
+  } catch (error) {
+    if (error instanceof AdbTimeoutError || error instanceof AdbCancelledError) {
+      throw error;
+    }
+    const execError = error as { stdout?: string; stderr?: string; message?: string };
+    output = [execError.stdout?.trim(), execError.stderr?.trim()].filter(Boolean).join("\n") || execError.message || String(error);
+  }
+  return { device: serial, ...parseInstallOutput(output) };
+}
+
+// ========== Server Setup ==========
+
+/**
+ * A connected client session and the resources it subscribed to
+ */
+interface ServerConnection {
+  server: McpServerInstance;
+  subscribedResourceUris: Set<string>;
+}
+
+// Every client session gets its own server instance
+const serverConnections = new Set<ServerConnection>();
+
+// Device state shared by all client sessions
+const logcatSessions = new Map<string, LogcatSession>();
+let logcatSessionCounter = 0;
+const screenRecordSessions = new Map<string, ScreenRecordSession>();
+let screenRecordSessionCounter = 0;
+let onlineSerialsCache: { expiresAt: number; serials: Promise<string[]> } | undefined;
+
+/**
+ * Sends a resource updated notification to every client that subscribed to the URI
+ * 
+ * @param uri - Resource URI that changed
+ */
+function notifyResourceUpdated(uri: string): void {
+  for (const connection of serverConnections) {
+    if (!connection.subscribedResourceUris.has(uri)) {
+      continue;
     }
-  },
-  { description: ADB_PUSH_TOOL_DESCRIPTION }
-);
+    connection.server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log(LogLevel.WARN, `Failed to send resource update for ${uri}: ${errorMsg}`);
+    });
+  }
+}
+
+/**
+ * Tells every connected client that the list of resources changed
+ */
+function notifyResourceListChanged(): void {
+  for (const connection of serverConnections) {
+    connection.server.server.sendResourceListChanged().catch(() => undefined);
+  }
+}
+
+/**
+ * Creates an MCP server with all resources and tools registered
+ * 
+ * @returns A server ready to be connected to one transport
+ */
+function createServer(): McpServerInstance {
+  const server = new McpServer({
+    name: "ADB MCP Server",
+    version: "0.1.0",
+    namespace: "adb"
+  });
+  const connection: ServerConnection = { server, subscribedResourceUris: new Set<string>() };
+  serverConnections.add(connection);
+  server.server.onclose = () => {
+    serverConnections.delete(connection);
+  };
+
+  // Resource subscriptions (used for logcat session updates)
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+    log(LogLevel.DEBUG, `Client subscribed to ${request.params.uri}`);
+    connection.subscribedResourceUris.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request: { params: { uri: string } }) => {
+    log(LogLevel.DEBUG, `Client unsubscribed from ${request.params.uri}`);
+    connection.subscribedResourceUris.delete(request.params.uri);
+    return {};
+  });
+
+  // ========== Resources ==========
+
+  // Add adb version resource
+  server.resource(
+    "adb-version",
+    "adb://version",
+    async (uri: URL) => {
+      try {
+        const { stdout } = await runAdb(["version"]);
+        return {
+          contents: [{
+            uri: uri.href,
+            text: stdout
+          }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error retrieving ADB version: ${errorMsg}`);
+        return {
+          contents: [{
+            uri: uri.href,
+            text: `Error retrieving ADB version: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Add effective configuration resource
+  server.resource(
+    "adb-config",
+    "adb://config",
+    async (uri: URL) => {
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(redactConfig(loadedConfig), null, 2)
+        }]
+      };
+    }
+  );
+
+  // Add safety policy resource
+  server.resource(
+    "adb-policy",
+    "adb://policy",
+    async (uri: URL) => {
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify({ policy: config.policy, blockedAttempts }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Add device list resource
+  server.resource(
+    "device-list",
+    "adb://devices",
+    async (uri: URL) => {
+      try {
+        const devices = await listDevices(false);
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(devices, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error retrieving device list: ${errorMsg}`);
+        return {
+          contents: [{
+            uri: uri.href,
+            text: `Error retrieving device list: ${errorMsg}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Add logcat session resource
+  server.resource(
+    "logcat-session",
+    new ResourceTemplate("adb://logcat/{sessionId}", {
+      list: async () => ({
+        resources: Array.from(logcatSessions.values()).map((session) => ({
+          uri: logcatSessionUri(session.id),
+          name: `Logcat session ${session.id}${session.device ? ` (${session.device})` : ""}`,
+          mimeType: "application/json"
+        }))
+      }),
+      complete: {
+        sessionId: (value: string) => Array.from(logcatSessions.keys()).filter((id) => id.startsWith(value))
+      }
+    }),
+    async (uri: URL, variables: { sessionId: string }) => {
+      const session = logcatSessions.get(String(variables.sessionId));
+      if (!session) {
+        return {
+          contents: [{
+            uri: uri.href,
+            text: `Unknown logcat session: ${variables.sessionId}`
+          }],
+          isError: true
+        };
+      }
+
+      const recent = session.tail(LOGCAT_RESOURCE_LINES);
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify({
+            ...session.info(),
+            cursor: session.latestCursor,
+            lines: recent.map((entry) => entry.line)
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // ===== Device Resources =====
+  const DEVICE_RESOURCE_LIST_CACHE_MS = 2000;
+  const DEVICE_LOGCAT_RESOURCE_LINES = 500;
+
+  /**
+   * Serials of devices in the "device" state. Resource listing asks once per
+   * template, so the result is shared for a short time.
+   */
+  function listOnlineSerials(): Promise<string[]> {
+    const now = Date.now();
+    if (!onlineSerialsCache || onlineSerialsCache.expiresAt <= now) {
+      const serials = listDevices(false)
+        .then((devices) => devices.filter((device) => device.state === "device").map((device) => device.serial))
+        .catch((error) => {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          log(LogLevel.WARN, `Could not list devices for resources: ${errorMsg}`);
+          return [] as string[];
+        });
+      onlineSerialsCache = { expiresAt: now + DEVICE_RESOURCE_LIST_CACHE_MS, serials };
+    }
+    return onlineSerialsCache.serials;
+  }
+
+  async function completeSerial(value: string): Promise<string[]> {
+    const serials = await listOnlineSerials();
+    return serials.filter((serial) => serial.startsWith(value));
+  }
+
+  function deviceResourceUri(serial: string, resource: string): string {
+    return `adb://device/${encodeURIComponent(serial)}/${resource}`;
+  }
+
+  /**
+   * Registers a resource template under adb://device/{serial}/<resource>
+   * 
+   * Read failures are returned as an error resource instead of throwing, like
+   * the other resources.
+   */
+  function registerDeviceResource(
+    name: string,
+    resource: string,
+    title: string,
+    mimeType: string,
+    read: (deviceArgs: string[], variables: Record<string, string>) => Promise<{ text?: string; blob?: string; mimeType?: string }>
+  ): void {
+    server.resource(
+      name,
+      new ResourceTemplate(`adb://device/{serial}/${resource}`, {
+        list: resource.includes("{") ? undefined : async () => ({
+          resources: (await listOnlineSerials()).map((serial) => ({
+            uri: deviceResourceUri(serial, resource),
+            name: `${title} (${serial})`,
+            mimeType
+          }))
+        }),
+        complete: {
+          serial: completeSerial
+        }
+      }),
+      async (uri: URL, variables: Record<string, string>) => {
+        const decoded: Record<string, string> = {};
+        for (const [key, value] of Object.entries(variables)) {
+          decoded[key] = decodeURIComponent(String(value));
+        }
+        try {
+          const content = await read(["-s", decoded.serial], decoded);
+          return {
+            contents: [{ uri: uri.href, mimeType, ...content }]
+          };
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          log(LogLevel.ERROR, `Error reading ${uri.href}: ${errorMsg}`);
+          return {
+            contents: [{
+              uri: uri.href,
+              text: `Error reading ${title.toLowerCase()} of ${decoded.serial}: ${errorMsg}`
+            }],
+            isError: true
+          };
+        }
+      }
+    );
+  }
+
+  registerDeviceResource("device-props", "props", "System properties", "application/json", async (deviceArgs) => {
+    const { stdout } = await runAdb([...deviceArgs, "shell", "getprop"]);
+    return { text: JSON.stringify(parseGetprop(stdout), null, 2) };
+  });
+
+  registerDeviceResource("device-packages", "packages", "Installed packages", "application/json", async (deviceArgs) => {
+    const listPackages = async (filter: string) => {
+      const { stdout } = await runAdb([...deviceArgs, "shell", "pm", "list", "packages", filter]);
+      return stdout.split(/\r?\n/)
+        .map((line) => line.trim().replace(/^package:/, ""))
+        .filter(Boolean)
+        .sort();
+    };
+    const [thirdParty, system] = await Promise.all([listPackages("-3"), listPackages("-s")]);
+    return { text: JSON.stringify({ thirdParty, system }, null, 2) };
+  });
+
+  registerDeviceResource("device-ui", "ui", "UI hierarchy", "application/xml", async (deviceArgs) => {
+    return { text: await dumpUiHierarchy(deviceArgs) };
+  });
+
+  registerDeviceResource("device-screenshot", "screenshot", "Screenshot", "image/png", async (deviceArgs) => {
+    const png = await captureScreenshot(deviceArgs);
+    return { blob: png.toString("base64") };
+  });
+
+  registerDeviceResource("device-logcat", "logcat", "Recent logcat", "text/plain", async (deviceArgs) => {
+    const { stdout } = await runAdb([
+      ...deviceArgs, "logcat", "-d", "-v", "threadtime", "-t", String(DEVICE_LOGCAT_RESOURCE_LINES)
+    ]);
+    return { text: stdout };
+  });
+
+  registerDeviceResource("device-battery", "battery", "Battery state", "application/json", async (deviceArgs) => {
+    const { stdout } = await runAdb([...deviceArgs, "shell", "dumpsys", "battery"]);
+    return { text: JSON.stringify(parseDumpsysBattery(stdout), null, 2) };
+  });
+
+  registerDeviceResource("device-file", "files/{+path}", "File", "application/octet-stream", async (deviceArgs, variables) => {
+    const remotePath = `/${variables.path.replace(/^\/+/, "")}`;
+    const quotedPath = quoteShellArgument(remotePath);
+    const { stdout: kind } = await runAdb([
+      ...deviceArgs, "shell",
+      `if [ -d ${quotedPath} ]; then echo directory; elif [ -f ${quotedPath} ]; then echo file; elif [ -e ${quotedPath} ]; then echo special; else echo missing; fi`
+    ]);
+
+    switch (kind.trim()) {
+      case "missing":
+        throw new Error(`No such file: ${remotePath}`);
+      case "special":
+        // Device nodes such as /dev/zero never end
+        throw new Error(`${remotePath} is not a regular file`);
+      case "directory": {
+        const { stdout } = await runAdb([...deviceArgs, "shell", "ls", "-1ap", quotedPath]);
+        const entries = stdout.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && line !== "./" && line !== "../");
+        return { mimeType: "application/json", text: JSON.stringify({ path: remotePath, entries }, null, 2) };
+      }
+    }
+
+    const size = await getRemoteFileSize(deviceArgs, remotePath);
+    if (size === undefined) {
+      throw new Error(`No such file: ${remotePath}`);
+    }
+    if (size > MAX_INLINE_PULL_BYTES) {
+      throw new Error(`${remotePath} is ${size} bytes, too large for a resource; read it in chunks with adb_pull (offset and length)`);
+    }
+
+    const tempFilePath = createTempFilePath("adb-mcp", basename(remotePath));
+    try {
+      await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
+      const data = await readFilePromise(tempFilePath);
+      const mimeType = guessMimeType(remotePath);
+      return isTextMimeType(mimeType)
+        ? { mimeType, text: data.toString("utf8") }
+        : { mimeType, blob: data.toString("base64") };
+    } finally {
+      await cleanupTempFile(tempFilePath);
+    }
+  });
+
+  // ========== Tools ==========
+
+  // ===== Device Management Tools =====
+
+  // Add adb devices tool
+  server.tool(
+    "adb_devices",
+    AdbDevicesSchema.shape,
+    withCommandContext("adb_devices", async (args: z.infer<typeof AdbDevicesSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, "Listing connected devices");
+    
+      try {
+        const devices = await listDevices(args.details === true);
+        log(LogLevel.INFO, `Found ${devices.length} device(s)`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(devices, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error executing adb devices: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error executing adb devices: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_DEVICES_TOOL_DESCRIPTION }
+  );
+
+  // Add adb UI dump tool
+  server.tool(
+    "inspect_ui",
+    AdbUidumpSchema.shape,
+    withCommandContext("inspect_ui", async (args: z.infer<typeof AdbUidumpSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, "Dumping UI hierarchy");
+    
+      const deviceArgs = buildDeviceArgs(args.device);
+    
+      try {
+        const xmlData = await dumpUiHierarchy(deviceArgs, args.outputPath);
+      
+        // Return the UI dump
+        if (args.asBase64 !== false) {
+          // Return as base64 (default)
+          const base64Xml = Buffer.from(xmlData, 'utf8').toString('base64');
+        
+          log(LogLevel.INFO, "UI hierarchy dumped successfully as base64");
+          return {
+            content: [{ type: "text" as const, text: base64Xml }]
+          };
+        } else {
+          // Return as plain text
+          log(LogLevel.INFO, "UI hierarchy dumped successfully as plain text");
+          return {
+            content: [{ type: "text" as const, text: xmlData }]
+          };
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error dumping UI hierarchy: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error dumping UI hierarchy: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: INSPECT_UI_TOOL_DESCRIPTION }
+  );
+
+  // Add adb shell tool
+  server.tool(
+    "adb_shell",
+    AdbShellSchema.shape,
+    withCommandContext("adb_shell", async (args: z.infer<typeof AdbShellSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Executing shell command: ${args.command}`);
+    
+      const deviceArgs = buildDeviceArgs(args.device);
+      const trimmedCommand = args.command.trim();
+      if (!trimmedCommand) {
+        const message = "Shell command must not be empty";
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      const refusal = enforcePolicy({ tool: "adb_shell", device: args.device, command: trimmedCommand }, args.confirmationToken);
+      if (refusal) {
+        return refusal;
+      }
+
+      return executeAdbCommand([...deviceArgs, "shell", trimmedCommand], "Error executing shell command");
+    }),
+    { description: ADB_SHELL_TOOL_DESCRIPTION }
+  );
+
+  // Add adb install tool
+  server.tool(
+    "adb_install",
+    AdbInstallSchema.shape,
+    withCommandContext("adb_install", async (args: z.infer<typeof AdbInstallSchema>, _extra: RequestHandlerExtra) => {
+      const targets = args.devices && args.devices.length > 0 ? args.devices : [args.device];
+      const sourceLabel = args.uploadId
+        ? `upload ${args.uploadId}`
+        : args.apkBase64 !== undefined
+          ? `inline ${args.fileName || "app.apk"}`
+          : args.apkPaths?.join(" ") || args.apkPath || "";
+      log(LogLevel.INFO, `Installing ${sourceLabel} on ${targets.map((device) => device || config.defaultDevice || "the connected device").join(", ")}`);
+      for (const device of targets) {
+        const refusal = enforcePolicy({ tool: "adb_install", device, command: `install ${sourceLabel}` });
+        if (refusal) {
+          return refusal;
+        }
+      }
+
+      let source: InstallSource | undefined;
+      let inlinePath: string | undefined;
+      let stagedUploadId: string | undefined;
+      try {
+        // Inline and staged content is written to a local file first
+        let localPath = args.apkPath;
+        if (args.apkBase64 !== undefined) {
+          inlinePath = createTempFilePath("adb-mcp", args.fileName || "app.apk");
+          await writeFilePromise(inlinePath, Buffer.from(args.apkBase64, "base64"));
+          localPath = inlinePath;
+        } else if (args.uploadId) {
+          const upload = stagedUploads.get(args.uploadId);
+          if (!upload) {
+            throw new Error(`Unknown or expired upload: ${args.uploadId}`);
+          }
+          if (upload.busy) {
+            throw new Error(`Upload ${upload.id} is still receiving a chunk`);
+          }
+          localPath = upload.path;
+          stagedUploadId = upload.id;
+        }
+
+        let sha256: string | undefined;
+        if (args.sha256 !== undefined || localPath !== args.apkPath) {
+          if (!localPath || (args.apkPaths && args.apkPaths.length > 0 && localPath === args.apkPath)) {
+            throw new Error("sha256 can only be checked for a single file (apkPath, apkBase64 or uploadId)");
+          }
+          sha256 = await verifySha256(localPath, args.sha256);
+        }
+
+        source = await resolveInstallSource(localPath, localPath === args.apkPath ? args.apkPaths : undefined);
+        const flags: InstallFlags = {
+          replace: args.replace,
+          allowDowngrade: args.allowDowngrade,
+          grantPermissions: args.grantPermissions,
+          allowTest: args.allowTest,
+          user: args.user,
+          abi: args.abi,
+          incremental: args.incremental
+        };
+        const installSource = source;
+        // A timeout or cancellation on one device must not hide the other devices' results
+        const settled = await Promise.allSettled(targets.map((device) => installOnDevice(device, installSource, flags)));
+        const results: InstallResult[] = settled.map((outcome, index) => {
+          if (outcome.status === "fulfilled") {
+            return outcome.value;
+          }
+          const errorMsg = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+          return { device: buildDeviceArgs(targets[index])[1], success: false, message: errorMsg, output: "" };
+        });
+
+        const failed = results.filter((result) => !result.success);
+        for (const result of results) {
+          if (result.success) {
+            log(LogLevel.INFO, `APK installed successfully${result.device ? ` on ${result.device}` : ""}`);
+          } else {
+            log(LogLevel.ERROR, `Error installing APK${result.device ? ` on ${result.device}` : ""}: ${result.code ?? result.message}`);
+          }
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ source: sourceLabel, sha256, results }, null, 2) }],
+          isError: failed.length > 0
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error installing APK: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error installing APK: ${errorMsg}` }],
+          isError: true
+        };
+      } finally {
+        await source?.cleanup();
+        if (inlinePath) {
+          await cleanupTempFile(inlinePath);
+        }
+        if (stagedUploadId) {
+          await discardStagedUpload(stagedUploadId);
+        }
+      }
+    }),
+    { description: ADB_INSTALL_TOOL_DESCRIPTION }
+  );
+
+  // Add adb logcat tool
+  server.tool(
+    "adb_logcat",
+    AdbLogcatSchema.shape,
+    withCommandContext("adb_logcat", async (args: z.infer<typeof AdbLogcatSchema>, _extra: RequestHandlerExtra) => {
+      const lines = args.lines || 50;
+      const filterExpr = args.filter ? args.filter : "";
+      log(LogLevel.INFO, `Reading logcat (${lines} lines, filter: ${filterExpr || 'none'})`);
+    
+      const deviceArgs = buildDeviceArgs(args.device);
+      const filterArgs = filterExpr ? splitCommandArguments(filterExpr) : [];
+      const output = args.output ?? "text";
+      // Structured output needs a known line format to parse
+      const formatArgs = output === "text" ? [] : ["-v", "threadtime"];
+      const adbArgs = [...deviceArgs, "logcat", "-d", ...formatArgs, ...filterArgs];
+
+      try {
+        const { stdout, stderr } = await runAdb(adbArgs);
+        if (stderr) {
+          log(LogLevel.WARN, `logcat returned stderr: ${stderr}`);
+        }
+
+        if (output !== "text") {
+          // Findings are extracted from the whole dump so a crash above the line limit is not missed
+          const parsed = parseLogcat(stdout);
+          const result = output === "findings"
+            ? { findings: parsed.findings }
+            : {
+              records: lines > 0 ? parsed.records.slice(-lines) : parsed.records,
+              findings: parsed.findings,
+              totalRecords: parsed.records.length,
+              unparsedLines: parsed.unparsedLines
+            };
+          log(LogLevel.INFO, `Parsed ${parsed.records.length} logcat records with ${parsed.findings.length} findings`);
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+          };
+        }
+
+        const logLines = stdout.split(/\r?\n/);
+        const limitedLines = lines > 0 ? logLines.slice(-lines) : logLines;
+        const text = limitedLines.join("\n");
+
+        return {
+          content: [{ type: "text" as const, text }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error reading logcat: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error reading logcat: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_LOGCAT_TOOL_DESCRIPTION }
+  );
+
+  /**
+   * URI of a device file under the adb://device/{serial}/files template
+   */
+  async function deviceFileUri(deviceArgs: string[], remotePath: string): Promise<string> {
+    const serial = deviceArgs.length > 0 ? deviceArgs[1] : (await runAdb(["get-serialno"])).stdout.trim();
+    return deviceResourceUri(serial, `files/${encodeURI(remotePath.replace(/^\/+/, ""))}`);
+  }
+
+  // Add adb pull tool
+  server.tool(
+    "adb_pull",
+    AdbPullSchema.shape,
+    withCommandContext("adb_pull", async (args: z.infer<typeof AdbPullSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Pulling file from device: ${args.remotePath}`);
+    
+      const deviceArgs = buildDeviceArgs(args.device);
+      const chunked = args.offset !== undefined || args.length !== undefined || args.transferId !== undefined;
+    
+      try {
+        const remotePath = args.remotePath.trim();
+        if (!remotePath) {
+          throw new Error("Remote path must not be empty");
+        }
+
+        // Without content the pull operation result is enough
+        if (args.asBase64 === false && !args.asResource && !chunked) {
+          const tempFilePath = createTempFilePath("adb-mcp", basename(remotePath));
+          try {
+            const { stdout, stderr } = await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
+            if (stderr) {
+              log(LogLevel.WARN, `adb pull reported stderr: ${stderr}`);
+            }
+            log(LogLevel.INFO, `File pulled from device successfully: ${remotePath}`);
+            return {
+              content: [{ type: "text" as const, text: stdout }]
+            };
+          } finally {
+            await cleanupTempFile(tempFilePath);
+          }
+        }
+
+        let transfer: PulledTransfer;
+        if (args.transferId) {
+          const existing = pulledTransfers.get(args.transferId);
+          if (!existing) {
+            throw new Error(`Unknown or expired transfer: ${args.transferId}; pull again without transferId and compare the sha256`);
+          }
+          if (existing.remotePath !== remotePath) {
+            throw new Error(`Transfer ${existing.id} is for ${existing.remotePath}, not ${remotePath}`);
+          }
+          transfer = existing;
+        } else {
+          transfer = await startPulledTransfer(deviceArgs, remotePath);
+        }
+        const mimeType = guessMimeType(remotePath);
+
+        if (!chunked) {
+          if (transfer.size > MAX_INLINE_PULL_BYTES) {
+            // Keep the pulled file so the chunked reads do not pull it again
+            throw new Error(
+              `${remotePath} is ${transfer.size} bytes, too large for one response; ` +
+              `read it in chunks with offset and length (transferId ${transfer.id})`
+            );
+          }
+          const fileData = await readFilePromise(transfer.path);
+          await discardPulledTransfer(transfer.id);
+          log(LogLevel.INFO, `File pulled from device successfully: ${remotePath}`);
+
+          if (args.asResource) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: JSON.stringify({ remotePath, size: transfer.size, sha256: transfer.sha256, mimeType }, null, 2)
+                },
+                {
+                  type: "resource" as const,
+                  resource: { uri: await deviceFileUri(deviceArgs, remotePath), mimeType, blob: fileData.toString("base64") }
+                }
+              ]
+            };
+          }
+          return {
+            content: [{ type: "text" as const, text: fileData.toString('base64') }]
+          };
+        }
+
+        const offset = args.offset ?? 0;
+        if (offset > transfer.size) {
+          throw new Error(`Offset ${offset} is beyond the end of ${remotePath} (${transfer.size} bytes)`);
+        }
+        const chunk = offset < transfer.size
+          ? await readFileRange(transfer.path, offset, args.length ?? DEFAULT_PULL_CHUNK_BYTES)
+          : Buffer.alloc(0);
+        const nextOffset = offset + chunk.length;
+        const eof = nextOffset >= transfer.size;
+        if (eof) {
+          await discardPulledTransfer(transfer.id);
+          log(LogLevel.INFO, `File pulled from device successfully: ${remotePath}`);
+        } else {
+          transfer.updatedAt = Date.now();
+        }
+
+        const info = {
+          transferId: transfer.id,
+          remotePath,
+          size: transfer.size,
+          sha256: transfer.sha256,
+          mimeType,
+          offset,
+          length: chunk.length,
+          chunkSha256: sha256Buffer(chunk),
+          nextOffset: eof ? undefined : nextOffset,
+          eof
+        };
+        if (args.asResource) {
+          return {
+            content: [
+              { type: "text" as const, text: JSON.stringify(info, null, 2) },
+              {
+                type: "resource" as const,
+                resource: { uri: await deviceFileUri(deviceArgs, remotePath), mimeType, blob: chunk.toString("base64") }
+              }
+            ]
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ ...info, data: chunk.toString("base64") }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error pulling file: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error pulling file: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_PULL_TOOL_DESCRIPTION }
+  );
+
+  // Add adb push tool
+  server.tool(
+    "adb_push",
+    AdbPushSchema.shape,
+    withCommandContext("adb_push", async (args: z.infer<typeof AdbPushSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Pushing file to device: ${args.remotePath}`);
+      const refusal = enforcePolicy({ tool: "adb_push", device: args.device, command: `push ${args.remotePath}` });
+      if (refusal) {
+        return refusal;
+      }
+    
+      const deviceArgs = buildDeviceArgs(args.device);
+      const tempFilePath = createTempFilePath("adb-mcp", basename(args.remotePath));
+    
+      try {
+        const remotePath = args.remotePath.trim();
+        if (!remotePath) {
+          throw new Error("Remote path must not be empty");
+        }
+        if ((args.fileBase64 === undefined) === (args.uploadId === undefined)) {
+          throw new Error("Provide exactly one of fileBase64 or uploadId");
+        }
+        if (args.uploadId && args.offset !== undefined) {
+          throw new Error("offset applies to fileBase64 chunks; a staged upload is pushed whole");
+        }
+
+        let bytesWritten: number;
+        if (args.uploadId) {
+          const upload = stagedUploads.get(args.uploadId);
+          if (!upload) {
+            throw new Error(`Unknown or expired upload: ${args.uploadId}`);
+          }
+          if (upload.busy) {
+            throw new Error(`Upload ${upload.id} is still receiving a chunk`);
+          }
+          if (args.sha256) {
+            await verifySha256(upload.path, args.sha256);
+          }
+          await runAdb([...deviceArgs, "push", upload.path, remotePath]);
+          bytesWritten = upload.receivedBytes;
+          // A failed push keeps the upload so it can be retried
+          await discardStagedUpload(upload.id);
+        } else {
+          // Decode the base64 file data and write to temporary file
+          const fileData = Buffer.from(args.fileBase64 ?? "", 'base64');
+          await writeFilePromise(tempFilePath, fileData);
+          if (args.offset === undefined) {
+            if (args.sha256) {
+              await verifySha256(tempFilePath, args.sha256);
+            }
+            await runAdb([...deviceArgs, "push", tempFilePath, remotePath]);
+          } else {
+            await writeRemoteChunk(deviceArgs, tempFilePath, remotePath, args.offset);
+          }
+          bytesWritten = fileData.length;
+        }
+
+        const remoteSize = await getRemoteFileSize(deviceArgs, remotePath);
+        let sha256: string | undefined;
+        if (args.sha256) {
+          sha256 = await getRemoteSha256(deviceArgs, remotePath);
+          if (sha256 !== normalizeSha256(args.sha256)) {
+            throw new Error(`SHA-256 mismatch on the device: expected ${normalizeSha256(args.sha256)}, got ${sha256} (${remoteSize} bytes)`);
+          }
+        }
+
+        log(LogLevel.INFO, `File pushed to device successfully: ${remotePath} (${bytesWritten} bytes)`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({ remotePath, offset: args.offset, bytesWritten, remoteSize, sha256 }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error pushing file: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error pushing file: ${errorMsg}` }],
+          isError: true
+        };
+      } finally {
+        // Clean up the temporary file
+        await cleanupTempFile(tempFilePath);
+      }
+    }),
+    { description: ADB_PUSH_TOOL_DESCRIPTION }
+  );
+
+  // ===== File System Tools =====
+  const ADB_LIST_DIR_TOOL_DESCRIPTION =
+    "Lists a directory on the device as JSON: name, type (file, directory, symlink, other), size, mode, permissions and mtime per entry. " +
+    "Lists the direct children by default; set recursive (optionally with maxDepth) for the whole tree with paths relative to the directory.";
+
+  const ADB_STAT_TOOL_DESCRIPTION =
+    "Returns type, size, mode, permissions and mtime of one file or directory on the device as JSON.";
+
+  const ADB_PULL_DIR_TOOL_DESCRIPTION =
+    "Pulls a whole directory from the device as a tar (default) or zip archive, base64 encoded or as an embedded resource. " +
+    "The response lists the SHA-256 of every file ('files'); pass it back as knownFiles to sync: only new or changed files are transferred " +
+    "and deleted files are reported. Archives over 16 MB are kept on the server and read in chunks with adb_pull and the returned transferId.";
+
+  const ADB_PUSH_DIR_TOOL_DESCRIPTION =
+    "Pushes the contents of a tar or zip archive (base64, or staged with adb_upload_chunk) into a directory on the device, creating it when missing. " +
+    "Existing files are overwritten and other files are left in place. " +
+    "With sync only files whose content differs from the device are pushed, and device files missing from the archive are reported.";
+
+  server.tool(
+    "adb_list_dir",
+    AdbListDirSchema.shape,
+    withCommandContext("adb_list_dir", async (args: z.infer<typeof AdbListDirSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const remotePath = normalizeRemoteDirectory(args.remotePath);
+        const maxDepth = args.recursive ? args.maxDepth : 1;
+        const entries = await listRemoteDirectory(buildDeviceArgs(args.device), remotePath, maxDepth);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ path: remotePath, entries }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error listing directory: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error listing directory: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_LIST_DIR_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_stat",
+    AdbStatSchema.shape,
+    withCommandContext("adb_stat", async (args: z.infer<typeof AdbStatSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const remotePath = args.remotePath.trim();
+        if (!remotePath) {
+          throw new Error("Remote path must not be empty");
+        }
+        const entry = await statRemotePath(buildDeviceArgs(args.device), remotePath);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(entry, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error reading file status: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error reading file status: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_STAT_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_pull_dir",
+    AdbPullDirSchema.shape,
+    withCommandContext("adb_pull_dir", async (args: z.infer<typeof AdbPullDirSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Pulling directory from device: ${args.remotePath}`);
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const remotePath = normalizeRemoteDirectory(args.remotePath);
+        const pulled = await pullDirectory(deviceArgs, remotePath, args.format, args.knownFiles);
+        const mimeType = args.format === "zip" ? "application/zip" : "application/x-tar";
+        const info = {
+          remotePath,
+          format: args.format,
+          size: pulled.archive.length,
+          sha256: sha256Buffer(pulled.archive),
+          transferred: pulled.transferred,
+          removed: pulled.removed,
+          skipped: pulled.skipped.length > 0 ? pulled.skipped : undefined,
+          files: pulled.files
+        };
+        log(LogLevel.INFO, `Directory pulled from device: ${remotePath} (${pulled.transferred.length} files, ${pulled.archive.length} bytes)`);
+
+        if (pulled.archive.length > MAX_INLINE_PULL_BYTES) {
+          const archivePath = createTempFilePath("adb-mcp-transfer", `${basename(remotePath)}.${args.format}`);
+          await writeFilePromise(archivePath, pulled.archive);
+          const transfer = await registerPulledTransfer(remotePath, archivePath);
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify({ ...info, transferId: transfer.id }, null, 2) }]
+          };
+        }
+        if (args.asResource) {
+          return {
+            content: [
+              { type: "text" as const, text: JSON.stringify(info, null, 2) },
+              {
+                type: "resource" as const,
+                resource: { uri: await deviceFileUri(deviceArgs, remotePath), mimeType, blob: pulled.archive.toString("base64") }
+              }
+            ]
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ ...info, data: pulled.archive.toString("base64") }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error pulling directory: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error pulling directory: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_PULL_DIR_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_push_dir",
+    AdbPushDirSchema.shape,
+    withCommandContext("adb_push_dir", async (args: z.infer<typeof AdbPushDirSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Pushing directory to device: ${args.remotePath}`);
+      const refusal = enforcePolicy({ tool: "adb_push_dir", device: args.device, command: `push ${args.remotePath}` });
+      if (refusal) {
+        return refusal;
+      }
+
+      try {
+        const remotePath = normalizeRemoteDirectory(args.remotePath);
+        if ((args.archiveBase64 === undefined) === (args.uploadId === undefined)) {
+          throw new Error("Provide exactly one of archiveBase64 or uploadId");
+        }
+
+        let archive: Buffer;
+        const upload = args.uploadId ? stagedUploads.get(args.uploadId) : undefined;
+        if (args.uploadId) {
+          if (!upload) {
+            throw new Error(`Unknown or expired upload: ${args.uploadId}`);
+          }
+          if (upload.busy) {
+            throw new Error(`Upload ${upload.id} is still receiving a chunk`);
+          }
+          archive = await readFilePromise(upload.path);
+        } else {
+          archive = Buffer.from(args.archiveBase64 ?? "", "base64");
+        }
+        if (args.sha256 && sha256Buffer(archive) !== normalizeSha256(args.sha256)) {
+          throw new Error(`SHA-256 mismatch: expected ${normalizeSha256(args.sha256)}, got ${sha256Buffer(archive)}`);
+        }
+
+        const result = await pushDirectory(buildDeviceArgs(args.device), remotePath, archive, args.sync ?? false);
+        if (upload) {
+          await discardStagedUpload(upload.id);
+        }
+        log(LogLevel.INFO, `Directory pushed to device: ${remotePath} (${result.pushed.length} files, ${result.unchanged} unchanged)`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error pushing directory: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error pushing directory: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_PUSH_DIR_TOOL_DESCRIPTION }
+  );
+
+  // ===== App Data Tools =====
+  const APP_DATA_LIST_TOOL_DESCRIPTION =
+    "Lists files in the private data directory of a debuggable app (shared_prefs, databases, files, cache, ...) using run-as, " +
+    "which works without root. Returns the same JSON entries as adb_list_dir, with paths relative to the data directory.";
+
+  const APP_DATA_READ_TOOL_DESCRIPTION =
+    "Reads a file from the private data directory of a debuggable app using run-as. " +
+    "Text files are returned as text, other files as base64 or as an embedded resource (asResource). " +
+    "Files over 16 MB are kept on the server and read in chunks with adb_pull and the returned transferId.";
+
+  const APP_DATA_WRITE_TOOL_DESCRIPTION =
+    "Writes a file into the private data directory of a debuggable app using run-as, creating missing directories. " +
+    "The file is owned by the app, as if the app had written it. Stop the app first when replacing files it has open.";
+
+  const APP_PREFS_GET_TOOL_DESCRIPTION =
+    "Reads an app's SharedPreferences as JSON (type and value per key) using run-as. " +
+    "Reads one file (e.g. 'settings' for shared_prefs/settings.xml) or all of them when no file is given.";
+
+  const APP_PREFS_SET_TOOL_DESCRIPTION =
+    "Sets or removes individual SharedPreferences keys of a debuggable app using run-as, creating the file when missing. " +
+    "Existing keys keep their type. A running app keeps its own copy of the values and may overwrite the file, " +
+    "so use forceStop (or stop the app) before editing and restart it afterwards.";
+
+  server.tool(
+    "app_data_list",
+    AppDataListSchema.shape,
+    withCommandContext("app_data_list", async (args: z.infer<typeof AppDataListSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const appPath = normalizeAppPath(packageName, args.path);
+        const quotedPath = quoteShellArgument(appPath);
+        const listCommand = buildListCommand(appPath, args.recursive ? args.maxDepth : 1);
+        const stdout = await runAsApp(
+          buildDeviceArgs(args.device), packageName, `if [ -d ${quotedPath} ]; then ${listCommand}; else echo missing; fi`
+        );
+        if (stdout.trim() === "missing") {
+          throw new Error(`Not a directory: ${appPath}`);
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, path: appPath, entries: parseStatOutput(stdout) }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error listing app data: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error listing app data: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_DATA_LIST_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_data_read",
+    AppDataReadSchema.shape,
+    withCommandContext("app_data_read", async (args: z.infer<typeof AppDataReadSchema>, _extra: RequestHandlerExtra) => {
+      const deviceArgs = buildDeviceArgs(args.device);
+      let tempFilePath: string | undefined;
+
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const appPath = normalizeAppPath(packageName, args.path);
+        const remotePath = `/data/data/${packageName}/${appPath}`;
+        tempFilePath = createTempFilePath("adb-mcp-transfer", basename(appPath));
+        await pullAppFile(deviceArgs, packageName, appPath, tempFilePath);
+
+        const { size } = await statPromise(tempFilePath);
+        if (size > MAX_INLINE_PULL_BYTES) {
+          const transfer = await registerPulledTransfer(remotePath, tempFilePath);
+          tempFilePath = undefined;
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({ remotePath, size, sha256: transfer.sha256, transferId: transfer.id }, null, 2)
+            }]
+          };
+        }
+
+        const data = await readFilePromise(tempFilePath);
+        const mimeType = guessMimeType(appPath);
+        if (args.asResource) {
+          return {
+            content: [{
+              type: "resource" as const,
+              resource: { uri: await deviceFileUri(deviceArgs, remotePath), mimeType, blob: data.toString("base64") }
+            }]
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: isTextMimeType(mimeType) ? data.toString("utf8") : data.toString("base64") }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error reading app data: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error reading app data: ${errorMsg}` }],
+          isError: true
+        };
+      } finally {
+        if (tempFilePath) {
+          await cleanupTempFile(tempFilePath);
+        }
+      }
+    }),
+    { description: APP_DATA_READ_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_data_write",
+    AppDataWriteSchema.shape,
+    withCommandContext("app_data_write", async (args: z.infer<typeof AppDataWriteSchema>, _extra: RequestHandlerExtra) => {
+      const refusal = enforcePolicy({ tool: "app_data_write", device: args.device, command: `run-as ${args.packageName} write ${args.path}` });
+      if (refusal) {
+        return refusal;
+      }
+
+      const tempFilePath = createTempFilePath("adb-mcp", basename(args.path));
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const appPath = normalizeAppPath(packageName, args.path);
+        if (appPath === ".") {
+          throw new Error("path must name a file");
+        }
+        const data = Buffer.from(args.contentBase64, "base64");
+        await writeFilePromise(tempFilePath, data);
+        await pushAppFile(buildDeviceArgs(args.device), packageName, tempFilePath, appPath);
+        log(LogLevel.INFO, `Wrote ${data.length} bytes to ${packageName}:${appPath}`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, path: appPath, bytesWritten: data.length }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error writing app data: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error writing app data: ${errorMsg}` }],
+          isError: true
+        };
+      } finally {
+        await cleanupTempFile(tempFilePath);
+      }
+    }),
+    { description: APP_DATA_WRITE_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_prefs_get",
+    AppPrefsGetSchema.shape,
+    withCommandContext("app_prefs_get", async (args: z.infer<typeof AppPrefsGetSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const deviceArgs = buildDeviceArgs(args.device);
+        let files: string[];
+        if (args.file) {
+          files = [args.file.trim().replace(/\.xml$/, "")];
+        } else {
+          const stdout = await runAsApp(deviceArgs, packageName, "ls -1 shared_prefs 2>/dev/null; true");
+          files = stdout.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.endsWith(".xml")).map((line) => line.slice(0, -4));
+        }
+
+        const prefs: Record<string, SharedPrefs> = {};
+        for (const file of files) {
+          prefs[file] = await readAppSharedPrefs(deviceArgs, packageName, file);
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, files: prefs }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error reading shared preferences: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error reading shared preferences: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_PREFS_GET_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_prefs_set",
+    AppPrefsSetSchema.shape,
+    withCommandContext("app_prefs_set", async (args: z.infer<typeof AppPrefsSetSchema>, _extra: RequestHandlerExtra) => {
+      const refusal = enforcePolicy({ tool: "app_prefs_set", device: args.device, command: `run-as ${args.packageName} edit ${args.file}` });
+      if (refusal) {
+        return refusal;
+      }
+
+      const tempFilePath = createTempFilePath("adb-mcp", "prefs.xml");
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const appPath = sharedPrefsPath(args.file);
+        const deviceArgs = buildDeviceArgs(args.device);
+        if (args.forceStop) {
+          await runAdb([...deviceArgs, "shell", "am", "force-stop", packageName]);
+        }
+
+        const prefs = applySharedPrefsEdits(await readAppSharedPrefs(deviceArgs, packageName, args.file), args.set, args.types, args.remove);
+        await writeFilePromise(tempFilePath, serializeSharedPrefs(prefs));
+        await pushAppFile(deviceArgs, packageName, tempFilePath, appPath);
+        log(LogLevel.INFO, `Updated ${packageName}:${appPath}`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, path: appPath, entries: prefs }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error editing shared preferences: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error editing shared preferences: ${errorMsg}` }],
+          isError: true
+        };
+      } finally {
+        await cleanupTempFile(tempFilePath);
+      }
+    }),
+    { description: APP_PREFS_SET_TOOL_DESCRIPTION }
+  );
+
+  const APP_DB_QUERY_TOOL_DESCRIPTION =
+    "Runs SQL against an SQLite database of a debuggable app (via run-as) or any database the shell can read, " +
+    "and returns the rows as JSON with the storage class of each column (integer, real, text, blob as base64, null). " +
+    "Uses the device's sqlite3 when available; otherwise the database and its WAL files are pulled and queried on the server. " +
+    "Queries are read-only single statements unless write is set, which needs sqlite3 on the device and is checked against the safety policy. " +
+    "sqlite3 runs with -safe where supported; file functions, ATTACH and dot commands are refused.";
+
+  server.tool(
+    "app_db_query",
+    AppDbQuerySchema.shape,
+    withCommandContext("app_db_query", async (args: z.infer<typeof AppDbQuerySchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const packageName = args.packageName ? validatePackageName(args.packageName) : undefined;
+        const database = args.database.trim();
+        let databasePath: string;
+        if (packageName) {
+          databasePath = normalizeAppPath(packageName, database.includes("/") ? database : `databases/${database}`);
+        } else if (database.startsWith("/")) {
+          databasePath = database;
+        } else {
+          throw new Error("database must be an absolute device path when packageName is omitted");
+        }
+
+        const write = args.write ?? false;
+        const unsafe = describeUnsafeSql(args.sql);
+        if (unsafe) {
+          throw new Error(`${unsafe} cannot be used in queries`);
+        }
+        if (!write && !isReadOnlyStatement(args.sql)) {
+          throw new Error("The statement may modify the database or holds more than one statement; set write to run it");
+        }
+        if (write) {
+          const refusal = enforcePolicy(
+            { tool: "app_db_query", device: args.device, command: `sqlite3 ${databasePath} ${JSON.stringify(args.sql)}` },
+            args.confirmationToken
+          );
+          if (refusal) {
+            return refusal;
+          }
+        }
+
+        const deviceArgs = buildDeviceArgs(args.device);
+        let queryOn = args.queryOn;
+        const deviceSqlite = queryOn === "server" ? undefined : await deviceSqliteVersion(deviceArgs);
+        if (queryOn === "auto") {
+          queryOn = write || deviceSqlite ? "device" : "server";
+        }
+        if (queryOn === "server" && write) {
+          throw new Error("Writes need sqlite3 on the device; changes to a pulled copy would be lost");
+        }
+
+        // Writes run as given; wrapping them in a SELECT would break them
+        const sql = write ? args.sql : limitQuery(args.sql, args.maxRows);
+        const result = queryOn === "device"
+          ? await querySqliteOnDevice(deviceArgs, packageName, databasePath, sql, !write, supportsSafeMode(deviceSqlite))
+          : await querySqliteOnServer(deviceArgs, packageName, databasePath, sql);
+        const truncated = result.rows.length > args.maxRows;
+        const rows = result.rows.slice(0, args.maxRows);
+        log(LogLevel.INFO, `Queried ${packageName ? `${packageName}:` : ""}${databasePath} on the ${queryOn} (${rows.length} rows)`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              database: databasePath,
+              packageName,
+              queriedOn: queryOn,
+              columns: result.columns,
+              rows,
+              rowCount: rows.length,
+              truncated
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error querying database: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error querying database: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_DB_QUERY_TOOL_DESCRIPTION }
+  );
+
+  // Add adb screenshot tool
+  server.tool(
+    "dump_image",
+    AdbScreenshotSchema.shape,
+    withCommandContext("dump_image", async (args: z.infer<typeof AdbScreenshotSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, "Taking device screenshot");
+    
+      const deviceArgs = buildDeviceArgs(args.device);
+    
+      try {
+        let crop: CropRect | undefined = args.crop;
+        if (args.element) {
+          const selector = pickUiSelector(args.element);
+          if (!hasSelectorCriteria(selector)) {
+            throw new Error("element selector must set at least one field");
+          }
+          const { matches } = await findElementsOnScreen(deviceArgs, selector);
+          if (matches.length === 0) {
+            throw new Error(`No UI element matches ${describeSelector(selector)}`);
+          }
+          const { left, top, right, bottom } = matches[0].bounds;
+          const padding = args.padding ?? 0;
+          crop = { x: left - padding, y: top - padding, width: right - left + 2 * padding, height: bottom - top + 2 * padding };
+        }
+
+        const imageData = await captureScreenshot(deviceArgs);
+        const image = await processScreenshot(imageData, {
+          format: args.format,
+          quality: args.quality,
+          maxWidth: args.maxWidth,
+          maxHeight: args.maxHeight,
+          scale: args.scale,
+          crop
+        });
+
+        log(LogLevel.INFO, `Screenshot captured successfully (${image.width}x${image.height}, ${image.mimeType}, ${image.data.length} bytes)`);
+        return {
+          content: [{ type: "image" as const, data: image.data.toString('base64'), mimeType: image.mimeType }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error taking screenshot: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error taking screenshot: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_DUMP_IMAGE_TOOL_DESCRIPTION }
+  );
+
+  // ===== Upload Staging Tools =====
+  const ADB_UPLOAD_CHUNK_TOOL_DESCRIPTION =
+    "Uploads a large file to the server in chunks, for clients that cannot place files on the server's filesystem. " +
+    "Start without uploadId (optionally with fileName, e.g. 'app.apks'), then send further chunks with the returned uploadId and offset. " +
+    "Each chunk is base64 encoded on its own. A rejected chunk reports the offset to resume from. " +
+    "Pass the uploadId (and the file's sha256) to adb_install, adb_push or adb_push_dir when done. Unused uploads expire after 30 minutes.";
+
+  server.tool(
+    "adb_upload_chunk",
+    UploadChunkSchema.shape,
+    withCommandContext("adb_upload_chunk", async (args: z.infer<typeof UploadChunkSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const chunk = Buffer.from(args.chunkBase64, "base64");
+        const upload = await appendUploadChunk(args.uploadId, args.fileName, chunk, args.offset);
+        log(LogLevel.DEBUG, `Upload ${upload.id}: received ${chunk.length} bytes (${upload.receivedBytes} total)`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              uploadId: upload.id,
+              fileName: upload.fileName,
+              receivedBytes: upload.receivedBytes,
+              expiresAt: new Date(upload.updatedAt + STAGED_UPLOAD_TTL_MS).toISOString()
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error staging upload chunk: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error staging upload chunk: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_UPLOAD_CHUNK_TOOL_DESCRIPTION }
+  );
+
+  // ===== UI Element Tools =====
+  const FIND_ELEMENTS_TOOL_DESCRIPTION =
+    "Finds UI elements on the current screen by text, resource ID, content description, class name or an XPath-like selector. " +
+    "Parses the uiautomator hierarchy on the server and returns matching elements as JSON, including bounds and the center point to tap. " +
+    "Much cheaper than reading the full inspect_ui XML when you only need a few elements. " +
+    "Example: resourceId='login_button' or xpath=\"//android.widget.EditText[contains(@text,'Email')]\"";
+
+  const ELEMENT_ACTION_TOOL_DESCRIPTION =
+    "Finds a UI element with the same selectors as find_elements and acts on it: 'tap', 'long_press', 'type' (tap to focus, then enter inputText) or 'scroll_to' " +
+    "(scroll the nearest scrollable container until the element appears). " +
+    "Coordinates are computed from the element bounds, so no manual 'input tap x y' commands are needed. " +
+    "Returns the element that was acted on as JSON.";
+
+  const SCREEN_STATE_TOOL_DESCRIPTION =
+    "Summarizes what is on screen as compact JSON: foreground package and activity, focused window, whether the keyboard is shown, orientation, " +
+    "and a pruned UI tree of only the visible elements that are interactive or carry text. " +
+    "Each element has a short id that stays the same across calls, its class, text, content description (desc), resource ID (rid), bounds and flags (click, scroll, edit, checked, ...). " +
+    "Use this first to find out which app and screen is showing; fall back to inspect_ui for the full XML. " +
+    "With diff=true only the changes since the previous call for the device are returned: header changes, added, removed and changed elements.";
+
+  // Last screen_state per device, the base for diffs in this client session
+  const previousScreenStates = new Map<string, ScreenState>();
+
+  /**
+   * Dumps and parses the UI, then resolves the selector
+   */
+  async function findElementsOnScreen(deviceArgs: string[], selector: UiSelector): Promise<{ roots: UiNode[]; matches: UiNode[] }> {
+    const roots = parseUiHierarchy(await dumpUiHierarchy(deviceArgs));
+    return { roots, matches: findUiNodes(roots, selector) };
+  }
+
+  /**
+   * Swipes through the first scrollable container until the selector matches
+   * at least matchIndex + 1 elements, or until the screen stops changing
+   */
+  async function scrollToElement(
+    deviceArgs: string[],
+    selector: UiSelector,
+    direction: "down" | "up",
+    maxScrolls: number,
+    matchIndex = 0
+  ): Promise<UiNode | undefined> {
+    let previousSignature = "";
+    for (let attempt = 0; attempt <= maxScrolls; attempt++) {
+      const { roots, matches } = await findElementsOnScreen(deviceArgs, selector);
+      if (matches.length > matchIndex) {
+        return matches[matchIndex];
+      }
+      if (attempt === maxScrolls) {
+        break;
+      }
+
+      // Stop once scrolling no longer changes the content (end of list)
+      const signature = findUiNodes(roots, {}).map((node) => `${node.text}|${node.resourceId}|${node.contentDesc}`).join("\n");
+      if (signature === previousSignature) {
+        log(LogLevel.DEBUG, "Screen content unchanged after scrolling, giving up");
+        break;
+      }
+      previousSignature = signature;
+
+      const container = findUiNodes(roots, { scrollable: true })[0] ?? roots[0];
+      if (!container) {
+        break;
+      }
+      const { left, top, right, bottom } = container.bounds;
+      const x = Math.round((left + right) / 2);
+      const upperY = Math.round(top + (bottom - top) * 0.25);
+      const lowerY = Math.round(top + (bottom - top) * 0.75);
+      // Scrolling content down means dragging the finger up
+      const [fromY, toY] = direction === "down" ? [lowerY, upperY] : [upperY, lowerY];
+      await runAdb([...deviceArgs, "shell", ...buildSwipeArgs(x, fromY, x, toY, 300)]);
+    }
+    return undefined;
+  }
+
+  server.tool(
+    "screen_state",
+    ScreenStateSchema.shape,
+    withCommandContext("screen_state", async (args: z.infer<typeof ScreenStateSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Summarizing screen state (device: ${args.device || 'default'}, diff: ${args.diff})`);
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const dumpsys = async (...command: string[]) => (await runAdb([...deviceArgs, "shell", "dumpsys", ...command])).stdout;
+        const [hierarchy, activities, windows, inputMethod] = await Promise.all([
+          dumpUiHierarchy(deviceArgs),
+          dumpsys("activity", "activities"),
+          dumpsys("window", "windows"),
+          dumpsys("input_method")
+        ]);
+        const state = buildScreenState({ hierarchy, activities, windows, inputMethod }, args.maxTextLength);
+
+        const key = args.device ?? "";
+        const previous = previousScreenStates.get(key);
+        previousScreenStates.set(key, state);
+
+        let result: object = state;
+        if (args.diff && previous) {
+          const { tree: _tree, ...header } = state;
+          result = { ...header, diff: diffScreenStates(previous, state) };
+        } else if (args.diff) {
+          result = { ...state, diff: null, note: "No earlier screen_state call for this device, so the whole tree is returned" };
+        }
+
+        log(LogLevel.INFO, `Screen state: ${state.activity ?? state.package ?? 'unknown'} with ${state.nodeCount} elements`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error summarizing screen state: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error summarizing screen state: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: SCREEN_STATE_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "find_elements",
+    FindElementsSchema.shape,
+    withCommandContext("find_elements", async (args: z.infer<typeof FindElementsSchema>, _extra: RequestHandlerExtra) => {
+      const selector = pickUiSelector(args);
+      log(LogLevel.INFO, `Finding UI elements: ${describeSelector(selector) || 'all'}`);
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const { matches } = await findElementsOnScreen(deviceArgs, selector);
+        const limit = args.limit || 20;
+        const result = {
+          count: matches.length,
+          truncated: matches.length > limit,
+          elements: matches.slice(0, limit).map(summarizeUiNode)
+        };
+
+        log(LogLevel.INFO, `Found ${matches.length} matching UI elements`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error finding UI elements: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error finding UI elements: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: FIND_ELEMENTS_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "element_action",
+    ElementActionSchema.shape,
+    withCommandContext("element_action", async (args: z.infer<typeof ElementActionSchema>, _extra: RequestHandlerExtra) => {
+      const selector = pickUiSelector(args);
+      const selectorText = describeSelector(selector);
+      log(LogLevel.INFO, `Performing '${args.action}' on UI element: ${selectorText}`);
+      const refusal = enforcePolicy({ tool: "element_action", device: args.device, command: `element ${args.action}` });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      if (!hasSelectorCriteria(selector)) {
+        const message = "At least one selector (text, resourceId, contentDesc, className, xpath, ...) is required";
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+      if (args.action === "type" && args.inputText === undefined) {
+        const message = "inputText is required for action 'type'";
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      try {
+        let target: UiNode | undefined;
+        if (args.action === "scroll_to") {
+          target = await scrollToElement(deviceArgs, selector, args.direction ?? "down", args.maxScrolls ?? 10, args.matchIndex ?? 0);
+        } else {
+          const { matches } = await findElementsOnScreen(deviceArgs, selector);
+          target = matches[args.matchIndex ?? 0];
+          if (!target && matches.length > 0) {
+            throw new Error(`Only ${matches.length} element(s) match, matchIndex ${args.matchIndex} is out of range`);
+          }
+        }
+        if (!target) {
+          throw new Error(`No UI element matches ${selectorText}`);
+        }
+
+        const { x, y } = boundsCenter(target.bounds);
+        switch (args.action) {
+          case "tap":
+            await runAdb([...deviceArgs, "shell", ...buildTapArgs(x, y)]);
+            break;
+          case "long_press":
+            await runAdb([...deviceArgs, "shell", ...buildLongPressArgs(x, y, args.durationMs ?? 800)]);
+            break;
+          case "type":
+            await runAdb([...deviceArgs, "shell", ...buildTapArgs(x, y)]);
+            if (args.clearText && target.text.length > 0) {
+              // Move to the end of the field and delete every existing character
+              const deletes = new Array(target.text.length).fill("DEL");
+              await runAdb([...deviceArgs, "shell", ...buildKeyeventArgs(["MOVE_END", ...deletes])]);
+            }
+            if (args.inputText) {
+              await runAdb([...deviceArgs, "shell", buildTextScript(args.inputText)]);
+            }
+            break;
+          case "scroll_to":
+            // Nothing left to do, the element is on screen now
+            break;
+        }
+
+        const result = {
+          action: args.action,
+          element: summarizeUiNode(target),
+          scrollContainer: args.action === "scroll_to" ? findScrollableAncestor(target)?.path : undefined
+        };
+        log(LogLevel.INFO, `Performed '${args.action}' at (${x}, ${y})`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error performing element action: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error performing element action: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ELEMENT_ACTION_TOOL_DESCRIPTION }
+  );
+
+  // ===== Input Tools =====
+  const ADB_TAP_TOOL_DESCRIPTION =
+    "Taps the screen at the given pixel coordinates. Supports a single tap, a double tap and a long press (with durationMs). " +
+    "Coordinates are validated against the display size reported by 'wm size' (taking rotation into account), " +
+    "so an out-of-range tap returns a clear error instead of silently missing. " +
+    "Prefer element_action when you know the element's text or ID.";
+
+  const ADB_SWIPE_TOOL_DESCRIPTION =
+    "Swipes or drags from (x1, y1) to (x2, y2) over durationMs milliseconds. " +
+    "Use mode='swipe' to scroll or fling and mode='drag' for drag-and-drop (Android 7+). " +
+    "Longer durations produce slower, more precise movements. Coordinates are validated against the display size.";
+
+  const ADB_GESTURE_PATH_TOOL_DESCRIPTION =
+    "Moves a single pointer through a multi-point path: finger down at the first point, move through each following point, lift at the last. " +
+    "Useful for unlock patterns, drawing and curved drags. Requires Android 10+ ('input motionevent'). " +
+    "All points are validated against the display size.";
+
+  const ADB_KEYEVENT_TOOL_DESCRIPTION =
+    "Sends one or more key events by name or numeric code. " +
+    `Common names: ${COMMON_KEY_NAMES.join(", ")}. ` +
+    "Names are case-insensitive, the KEYCODE_ prefix is optional and aliases such as BACKSPACE, ESC and RECENTS are understood. " +
+    "Set longPress=true for long presses (e.g. POWER).";
+
+  const ADB_INPUT_TEXT_TOOL_DESCRIPTION =
+    "Types text into the currently focused input field using 'input text'. " +
+    "Spaces and shell special characters are escaped automatically, and newlines/tabs are sent as ENTER/TAB key events. " +
+    "Only printable ASCII is supported by the platform 'input' command. Tap the target field first (e.g. with element_action).";
+
+  server.tool(
+    "adb_tap",
+    InputTapSchema.shape,
+    withCommandContext("adb_tap", async (args: z.infer<typeof InputTapSchema>, _extra: RequestHandlerExtra) => {
+      const gesture = args.gesture ?? "tap";
+      log(LogLevel.INFO, `Input ${gesture} at (${args.x}, ${args.y})`);
+      const refusal = enforcePolicy({ tool: "adb_tap", device: args.device, command: `input ${gesture} ${args.x} ${args.y}` });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        let script: string[];
+        switch (gesture) {
+          case "double_tap":
+            // Run both taps in one shell invocation to keep them close together
+            script = [`${buildTapArgs(args.x, args.y).join(" ")} && ${buildTapArgs(args.x, args.y).join(" ")}`];
+            break;
+          case "long_press":
+            script = buildLongPressArgs(args.x, args.y, args.durationMs ?? 800);
+            break;
+          default:
+            script = buildTapArgs(args.x, args.y);
+        }
+
+        await runValidatedGesture(deviceArgs, [{ x: args.x, y: args.y }], script);
+        return {
+          content: [{ type: "text" as const, text: `Performed ${gesture} at (${Math.round(args.x)}, ${Math.round(args.y)})` }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error performing ${gesture}: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error performing ${gesture}: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_TAP_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_swipe",
+    InputSwipeSchema.shape,
+    withCommandContext("adb_swipe", async (args: z.infer<typeof InputSwipeSchema>, _extra: RequestHandlerExtra) => {
+      const mode = args.mode ?? "swipe";
+      const durationMs = args.durationMs ?? 300;
+      log(LogLevel.INFO, `Input ${mode} from (${args.x1}, ${args.y1}) to (${args.x2}, ${args.y2}) over ${durationMs}ms`);
+      const refusal = enforcePolicy({ tool: "adb_swipe", device: args.device, command: `input ${mode} ${args.x1} ${args.y1} ${args.x2} ${args.y2}` });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
 
-// Add adb screenshot tool
-server.tool(
-  "dump_image",
-  AdbScreenshotSchema.shape,
-  async (args: z.infer<typeof AdbScreenshotSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, "Taking device screenshot");
-    
-    const deviceArgs = buildDeviceArgs(args.device);
-    const tempFilePath = createTempFilePath("adb-mcp", "screenshot.png");
-    const remotePath = "/sdcard/screenshot.png";
-    
-    try {
-      // Take screenshot on the device
-      await runAdb([...deviceArgs, "shell", "screencap", "-p", remotePath]);
-      
-      // Pull the screenshot from the device
-      await runAdb([...deviceArgs, "pull", remotePath, tempFilePath]);
-      
-      // Clean up the remote file
-      await runAdb([...deviceArgs, "shell", "rm", remotePath]);
-      
-      // Read the screenshot file
-      const imageData = await readFilePromise(tempFilePath);
-      
-      // Return as base64 or success message based on asBase64 parameter
-      if (args.asBase64) {
-        const base64Image = imageData.toString('base64');
-        log(LogLevel.INFO, "Screenshot captured and converted to base64 successfully");
+      try {
+        const script = mode === "drag"
+          ? buildDragArgs(args.x1, args.y1, args.x2, args.y2, durationMs)
+          : buildSwipeArgs(args.x1, args.y1, args.x2, args.y2, durationMs);
+        await runValidatedGesture(deviceArgs, [{ x: args.x1, y: args.y1 }, { x: args.x2, y: args.y2 }], script);
         return {
-          content: [{ type: "text" as const, text: base64Image }]
+          content: [{
+            type: "text" as const,
+            text: `Performed ${mode} from (${Math.round(args.x1)}, ${Math.round(args.y1)}) to (${Math.round(args.x2)}, ${Math.round(args.y2)}) over ${durationMs}ms`
+          }]
         };
-      } else {
-        log(LogLevel.INFO, "Screenshot captured successfully");
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error performing ${mode}: ${errorMsg}`);
         return {
-          content: [{ type: "text" as const, text: "Screenshot captured successfully" }]
+          content: [{ type: "text" as const, text: `Error performing ${mode}: ${errorMsg}` }],
+          isError: true
         };
       }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      log(LogLevel.ERROR, `Error taking screenshot: ${errorMsg}`);
+    }),
+    { description: ADB_SWIPE_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_gesture_path",
+    InputPathSchema.shape,
+    withCommandContext("adb_gesture_path", async (args: z.infer<typeof InputPathSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Input gesture path through ${args.points.length} points`);
+      const refusal = enforcePolicy({ tool: "adb_gesture_path", device: args.device, command: "input gesture path" });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const script = buildPathScript(args.points, args.segmentDurationMs ?? 50);
+        await runValidatedGesture(deviceArgs, args.points, [script]);
+        return {
+          content: [{ type: "text" as const, text: `Performed gesture path through ${args.points.length} points` }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error performing gesture path: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error performing gesture path: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_GESTURE_PATH_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_keyevent",
+    InputKeyeventSchema.shape,
+    withCommandContext("adb_keyevent", async (args: z.infer<typeof InputKeyeventSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Sending key events: ${args.keys.join(", ")}`);
+      const refusal = enforcePolicy({ tool: "adb_keyevent", device: args.device, command: `input keyevent ${args.keys.join(" ")}` });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const keyArgs = buildKeyeventArgs(args.keys, args.longPress);
+        return executeAdbCommand([...deviceArgs, "shell", ...keyArgs], "Error sending key events");
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error sending key events: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error sending key events: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_KEYEVENT_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "adb_input_text",
+    InputTextSchema.shape,
+    withCommandContext("adb_input_text", async (args: z.infer<typeof InputTextSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Typing ${args.text.length} characters`);
+      const refusal = enforcePolicy({ tool: "adb_input_text", device: args.device, command: "input text" });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const script = buildTextScript(args.text);
+        return executeAdbCommand([...deviceArgs, "shell", script], "Error entering text");
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error entering text: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error entering text: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_INPUT_TEXT_TOOL_DESCRIPTION }
+  );
+
+  // ===== Logcat Session Tools =====
+  const LOGCAT_SESSION_START_TOOL_DESCRIPTION =
+    "Starts a long-lived logcat capture session on a device and returns its session ID. " +
+    "Unlike adb_logcat, the session keeps reading in the background so no events are missed between calls. " +
+    "Filter by buffers (main/system/crash/events/radio), minimum priority, tags, process ID or package name. " +
+    "Read new lines with logcat_session_poll using a cursor, or subscribe to the adb://logcat/{sessionId} resource for update notifications. " +
+    "Stop the session with logcat_session_stop when done.";
+
+  const LOGCAT_SESSION_POLL_TOOL_DESCRIPTION =
+    "Returns new lines from a logcat session after the given cursor. " +
+    "Pass the returned nextCursor to the next call to receive only lines that arrived since. " +
+    "'dropped' reports lines that were evicted from the session buffer before being read.";
+
+  const LOGCAT_SESSION_STOP_TOOL_DESCRIPTION =
+    "Stops a logcat session, terminating its logcat process and discarding its buffered lines.";
+
+  const LOGCAT_SESSION_LIST_TOOL_DESCRIPTION =
+    "Lists active and finished logcat sessions with their filters, state and line counts.";
+
+  const LOGCAT_RESOURCE_LINES = 500;
+  const LOGCAT_NOTIFY_INTERVAL_MS = 1000;
+
+  function logcatSessionUri(sessionId: string): string {
+    return `adb://logcat/${sessionId}`;
+  }
+
+  /**
+   * Lists the process IDs belonging to a package (main and ":suffix" processes)
+   * 
+   * @param deviceArgs - Device arguments from buildDeviceArgs
+   * @param packageName - Application package name
+   */
+  async function getPackagePids(deviceArgs: string[], packageName: string): Promise<string[]> {
+    const { stdout } = await runAdb([...deviceArgs, "shell", "ps", "-A", "-o", "PID,NAME"]);
+    return stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim().split(/\s+/))
+      .filter(([pid, name]) => /^\d+$/.test(pid ?? "") && (name === packageName || name?.startsWith(`${packageName}:`)))
+      .map(([pid]) => pid);
+  }
+
+  server.tool(
+    "logcat_session_start",
+    LogcatSessionStartSchema.shape,
+    withCommandContext("logcat_session_start", async (args: z.infer<typeof LogcatSessionStartSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Starting logcat session (device: ${args.device || 'default'})`);
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        // Without a backlog, start from the device's current time so only new lines are captured
+        let since: string | undefined;
+        if (!args.backlog) {
+          const { stdout } = await runAdb([...deviceArgs, "shell", "date", "'+%m-%d %H:%M:%S.000'"]);
+          since = stdout.trim() || undefined;
+        }
+
+        const sessionId = `logcat-${++logcatSessionCounter}`;
+        const options = {
+          buffers: args.buffers,
+          priority: args.priority,
+          tags: args.tags,
+          pid: args.pid,
+          packageName: args.packageName,
+          backlog: args.backlog,
+          since,
+          maxLines: args.maxLines
+        };
+        const session = new LogcatSession(sessionId, args.device, options, (packageName) => getPackagePids(deviceArgs, packageName));
+
+        // Throttle update notifications so a chatty log does not flood the client
+        let notifyTimer: NodeJS.Timeout | undefined;
+        session.onUpdate(() => {
+          if (notifyTimer) {
+            return;
+          }
+          notifyTimer = setTimeout(() => {
+            notifyTimer = undefined;
+            notifyResourceUpdated(logcatSessionUri(sessionId));
+          }, LOGCAT_NOTIFY_INTERVAL_MS);
+        });
+
+        await session.start(config.adbPath, [...buildServerArgs(config), ...deviceArgs, ...buildLogcatArgs(options)]);
+        logcatSessions.set(sessionId, session);
+        notifyResourceListChanged();
+
+        log(LogLevel.INFO, `Logcat session ${sessionId} started`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({ ...session.info(), resourceUri: logcatSessionUri(sessionId) }, null, 2)
+          }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error starting logcat session: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error starting logcat session: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: LOGCAT_SESSION_START_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "logcat_session_poll",
+    LogcatSessionPollSchema.shape,
+    withCommandContext("logcat_session_poll", async (args: z.infer<typeof LogcatSessionPollSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.DEBUG, `Polling logcat session ${args.sessionId} from cursor ${args.cursor}`);
+      const session = logcatSessions.get(args.sessionId);
+      if (!session) {
+        const message = `Unknown logcat session: ${args.sessionId}`;
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      const result = session.poll(args.cursor ?? 0, args.maxLines ?? 200);
       return {
-        content: [{ type: "text" as const, text: `Error taking screenshot: ${errorMsg}` }],
-        isError: true
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }]
       };
-    } finally {
-      // Clean up the temporary file
-      await cleanupTempFile(tempFilePath);
-    }
-  },
-  { description: ADB_DUMP_IMAGE_TOOL_DESCRIPTION }
-);
-
-// ===== Activity Manager Tool =====
-const ADB_ACTIVITY_MANAGER_TOOL_DESCRIPTION =
-  "Executes Activity Manager (am) commands on a connected Android device. " +
-  "Supports starting activities, broadcasting intents, force-stopping packages, and other 'am' subcommands. " +
-  "Specify the subcommand (e.g. 'start', 'broadcast', 'force-stop') and arguments as you would in adb shell am. " +
-  "Example: amCommand='start', amArgs='-a android.intent.action.VIEW -d http://www.example.com'";
-
-server.tool(
-  "adb_activity_manager",
-  AdbActivityManagerSchema.shape,
-  async (args: z.infer<typeof AdbActivityManagerSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, `Executing Activity Manager command: am ${args.amCommand} ${args.amArgs || ''}`);
-    const deviceArgs = buildDeviceArgs(args.device);
-    const amCommand = args.amCommand.trim();
-    if (!amCommand) {
-      const message = "Activity Manager command must not be empty";
-      log(LogLevel.ERROR, message);
+    }),
+    { description: LOGCAT_SESSION_POLL_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "logcat_session_stop",
+    LogcatSessionStopSchema.shape,
+    withCommandContext("logcat_session_stop", async (args: z.infer<typeof LogcatSessionStopSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Stopping logcat session ${args.sessionId}`);
+      const session = logcatSessions.get(args.sessionId);
+      if (!session) {
+        const message = `Unknown logcat session: ${args.sessionId}`;
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      session.stop();
+      logcatSessions.delete(args.sessionId);
+      for (const connection of serverConnections) {
+        connection.subscribedResourceUris.delete(logcatSessionUri(args.sessionId));
+      }
+      notifyResourceListChanged();
       return {
-        content: [{ type: "text" as const, text: message }],
-        isError: true
+        content: [{ type: "text" as const, text: JSON.stringify(session.info(), null, 2) }]
       };
-    }
+    }),
+    { description: LOGCAT_SESSION_STOP_TOOL_DESCRIPTION }
+  );
 
-    const additionalArgs = args.amArgs ? splitCommandArguments(args.amArgs) : [];
-    return executeAdbCommand([...deviceArgs, "shell", "am", amCommand, ...additionalArgs], "Error executing Activity Manager command");
-  },
-  { description: ADB_ACTIVITY_MANAGER_TOOL_DESCRIPTION }
-);
-
-// ===== Package Manager Tool =====
-const ADB_PACKAGE_MANAGER_TOOL_DESCRIPTION =
-  "Executes Package Manager (pm) commands on a connected Android device. " +
-  "Supports listing packages, installing/uninstalling apps, managing permissions, and other 'pm' subcommands. " +
-  "Common commands include: 'list packages', 'install', 'uninstall', 'grant', 'revoke', 'clear', 'enable', 'disable'. " +
-  "Example: pmCommand='list', pmArgs='packages -3' (lists third-party packages) or pmCommand='grant', pmArgs='com.example.app android.permission.CAMERA'";
-
-server.tool(
-  "adb_package_manager",
-  AdbPackageManagerSchema.shape,
-  async (args: z.infer<typeof AdbPackageManagerSchema>, _extra: RequestHandlerExtra) => {
-    log(LogLevel.INFO, `Executing Package Manager command: pm ${args.pmCommand} ${args.pmArgs || ''}`);
-    const deviceArgs = buildDeviceArgs(args.device);
-    const pmCommand = args.pmCommand.trim();
-    if (!pmCommand) {
-      const message = "Package Manager command must not be empty";
-      log(LogLevel.ERROR, message);
+  server.tool(
+    "logcat_session_list",
+    LogcatSessionListSchema.shape,
+    withCommandContext("logcat_session_list", async (_args: Record<string, never>, _extra: RequestHandlerExtra) => {
+      const sessions = Array.from(logcatSessions.values()).map((session) => session.info());
       return {
-        content: [{ type: "text" as const, text: message }],
-        isError: true
+        content: [{ type: "text" as const, text: JSON.stringify(sessions, null, 2) }]
       };
-    }
+    }),
+    { description: LOGCAT_SESSION_LIST_TOOL_DESCRIPTION }
+  );
+
+  // ===== Bugreport Tool =====
+  const ADB_BUGREPORT_TOOL_DESCRIPTION =
+    "Captures a bugreport (adb bugreport) into a zip on the server and returns a structured summary: " +
+    "build fingerprint, uptime, recent ANRs and tombstones, the largest processes by memory, the battery headline and an index of the dumpstate and dumpsys sections. " +
+    "Takes a few minutes; progress is reported through progress notifications when the client sends a progress token. " +
+    "Request the text of individual sections with 'sections'. " +
+    "The raw zip stays available for 30 minutes: read it in chunks with adb_pull, passing the returned zip remotePath and transferId.";
+
+  server.tool(
+    "adb_bugreport",
+    AdbBugreportSchema.shape,
+    withCommandContext("adb_bugreport", async (args: z.infer<typeof AdbBugreportSchema>, extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Capturing bugreport (device: ${args.device || 'default'})`);
+      const deviceArgs = buildDeviceArgs(args.device);
+      const zipPath = createTempFilePath("adb-mcp-bugreport", "bugreport.zip");
+
+      // Progress notifications need the token the client sent with the request
+      const progressToken = extra?._meta?.progressToken;
+      let lastProgress: number | undefined;
+      const reportProgress = (progress: number, message: string) => {
+        if (progressToken === undefined || !extra.sendNotification || progress === lastProgress) {
+          return;
+        }
+        lastProgress = progress;
+        extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total: 100, message } }).catch((error) => {
+          log(LogLevel.DEBUG, `Failed to send progress: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      };
+
+      try {
+        reportProgress(0, "Generating bugreport");
+        const { stdout, stderr } = await runAdb([...deviceArgs, "bugreport", zipPath], undefined, (chunk) => {
+          const progress = parseBugreportProgress(chunk);
+          if (progress !== undefined) {
+            reportProgress(progress, "Generating bugreport");
+          }
+        });
+        // Devices without zipped bugreports (before Android 7) print a text report instead
+        const exists = await statPromise(zipPath).then(() => true, () => false);
+        if (!exists) {
+          throw new Error(`adb bugreport did not write a zip: ${(stderr || stdout).trim().split(/\r?\n/).slice(-3).join(" ")}`);
+        }
+
+        reportProgress(100, "Parsing bugreport");
+        const entries = readZipEntries(await readFilePromise(zipPath));
+        const main = findMainEntry(entries);
+        const text = main.read().toString("utf8");
+        const summary = { mainEntry: main.name, ...parseBugreport(text, entries) };
+        const excerpts = args.sections?.length ? extractBugreportSections(text, args.sections, args.maxSectionLines ?? 200) : undefined;
+        const missingSections = args.sections?.filter((name) => !excerpts?.some((excerpt) => excerpt.name === name));
+
+        const zipName = main.name.replace(/\.txt$/, ".zip");
+        const transfer = await registerPulledTransfer(zipName, zipPath);
+        log(LogLevel.INFO, `Bugreport captured: ${zipName} (${transfer.size} bytes)`);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              zip: { remotePath: zipName, transferId: transfer.id, size: transfer.size, sha256: transfer.sha256 },
+              ...summary,
+              ...(excerpts ? { excerpts } : {}),
+              ...(missingSections?.length ? { missingSections } : {})
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        // A partial zip is of no use
+        await statPromise(zipPath).then(() => cleanupTempFile(zipPath), () => undefined);
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error capturing bugreport: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error capturing bugreport: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_BUGREPORT_TOOL_DESCRIPTION }
+  );
+
+  // ===== Screen Recording Tools =====
+  const SCREENRECORD_START_TOOL_DESCRIPTION =
+    "Starts recording the device screen in the background and returns a session ID. " +
+    "Set the video size, bit rate and total time limit; the recording keeps running across tool calls until screenrecord_stop or the time limit. " +
+    "screenrecord stops after 3 minutes, so longer recordings are chained from several MP4 segments.";
+
+  const SCREENRECORD_STOP_TOOL_DESCRIPTION =
+    "Stops a screen recording, pulls its MP4 segments and deletes them from the device. " +
+    "Segments are embedded as video/mp4 resources when they fit in one response; " +
+    "otherwise each segment is returned with a transferId to read in chunks with adb_pull (pass the segment's remotePath and transferId).";
+
+  const SCREENRECORD_LIST_TOOL_DESCRIPTION =
+    "Lists active and finished screen recordings with their options, state and segments.";
+
+  server.tool(
+    "screenrecord_start",
+    ScreenrecordStartSchema.shape,
+    withCommandContext("screenrecord_start", async (args: z.infer<typeof ScreenrecordStartSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Starting screen recording (device: ${args.device || 'default'})`);
+      const refusal = enforcePolicy({ tool: "screenrecord_start", device: args.device, command: "screenrecord" });
+      if (refusal) {
+        return refusal;
+      }
+      const deviceArgs = buildDeviceArgs(args.device);
+
+      try {
+        const sessionId = `screenrecord-${++screenRecordSessionCounter}`;
+        const options = {
+          size: args.size,
+          bitRate: args.bitRate,
+          timeLimitSec: args.timeLimitSec ?? MAX_SEGMENT_SECONDS,
+          bugreport: args.bugreport
+        };
+        // Random, since other server processes may be recording the same device
+        const remotePrefix = `/data/local/tmp/adb-mcp-screenrecord-${randomBytes(6).toString("hex")}`;
+        const session = new ScreenRecordSession(sessionId, args.device, options, (index) => `${remotePrefix}-${index}.mp4`);
+        await session.start(config.adbPath, [...buildServerArgs(config), ...deviceArgs]);
+        screenRecordSessions.set(sessionId, session);
+
+        log(LogLevel.INFO, `Screen recording ${sessionId} started`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(session.info(), null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error starting screen recording: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error starting screen recording: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: SCREENRECORD_START_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "screenrecord_stop",
+    ScreenrecordStopSchema.shape,
+    withCommandContext("screenrecord_stop", async (args: z.infer<typeof ScreenrecordStopSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Stopping screen recording ${args.sessionId}`);
+      const session = screenRecordSessions.get(args.sessionId);
+      if (!session) {
+        const message = `Unknown screen recording: ${args.sessionId}`;
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      const refusal = enforcePolicy({ tool: "screenrecord_stop", device: session.device, command: `screenrecord stop ${args.sessionId}` });
+      if (refusal) {
+        return refusal;
+      }
+
+      const deviceArgs = buildDeviceArgs(session.device);
+      const transfers: PulledTransfer[] = [];
+      try {
+        await session.stop(async (pid) => {
+          await runAdb([...deviceArgs, "shell", "kill", "-INT", pid]);
+        });
+        screenRecordSessions.delete(args.sessionId);
+
+        // A segment that failed right away leaves no file behind
+        for (const segment of session.recordedSegments()) {
+          if (await getRemoteFileSize(deviceArgs, segment.remotePath) !== undefined) {
+            transfers.push(await startPulledTransfer(deviceArgs, segment.remotePath));
+          }
+        }
+        if (!args.keepOnDevice) {
+          const paths = session.recordedSegments().map((segment) => quoteShellArgument(segment.remotePath));
+          await runAdb([...deviceArgs, "shell", `rm -f ${paths.join(" ")}`]);
+        }
+        if (transfers.length === 0) {
+          throw new Error(`No video was recorded${session.info().lastError ? `: ${session.info().lastError}` : ""}`);
+        }
+
+        const totalSize = transfers.reduce((sum, transfer) => sum + transfer.size, 0);
+        const inline = args.asResource !== false && totalSize <= MAX_INLINE_PULL_BYTES;
+        const segments = session.recordedSegments().map((segment) => {
+          const transfer = transfers.find((candidate) => candidate.remotePath === segment.remotePath);
+          return transfer
+            ? { ...segment, size: transfer.size, sha256: transfer.sha256, ...(inline ? {} : { transferId: transfer.id }) }
+            : segment;
+        });
+        const summary = { ...session.info(), segments, totalSize, keptOnDevice: args.keepOnDevice ?? false };
+        log(LogLevel.INFO, `Screen recording ${args.sessionId} stopped with ${transfers.length} segment(s), ${totalSize} bytes`);
+
+        if (!inline) {
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify(summary, null, 2) }]
+          };
+        }
+        const resources = [];
+        for (const transfer of transfers) {
+          const data = await readFilePromise(transfer.path);
+          await discardPulledTransfer(transfer.id);
+          resources.push({
+            type: "resource" as const,
+            resource: { uri: await deviceFileUri(deviceArgs, transfer.remotePath), mimeType: "video/mp4", blob: data.toString("base64") }
+          });
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(summary, null, 2) }, ...resources]
+        };
+      } catch (error) {
+        for (const transfer of transfers) {
+          await discardPulledTransfer(transfer.id);
+        }
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error stopping screen recording: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error stopping screen recording: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: SCREENRECORD_STOP_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "screenrecord_list",
+    ScreenrecordListSchema.shape,
+    withCommandContext("screenrecord_list", async (_args: Record<string, never>, _extra: RequestHandlerExtra) => {
+      const sessions = Array.from(screenRecordSessions.values()).map((session) => session.info());
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(sessions, null, 2) }]
+      };
+    }),
+    { description: SCREENRECORD_LIST_TOOL_DESCRIPTION }
+  );
+
+  // ===== Activity Manager Tool =====
+  const ADB_ACTIVITY_MANAGER_TOOL_DESCRIPTION =
+    "Executes Activity Manager (am) commands on a connected Android device. " +
+    "Supports starting activities, broadcasting intents, force-stopping packages, and other 'am' subcommands. " +
+    "Specify the subcommand (e.g. 'start', 'broadcast', 'force-stop') and arguments as you would in adb shell am. " +
+    "Example: amCommand='start', amArgs='-a android.intent.action.VIEW -d http://www.example.com'";
+
+  server.tool(
+    "adb_activity_manager",
+    AdbActivityManagerSchema.shape,
+    withCommandContext("adb_activity_manager", async (args: z.infer<typeof AdbActivityManagerSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Executing Activity Manager command: am ${args.amCommand} ${args.amArgs || ''}`);
+      const deviceArgs = buildDeviceArgs(args.device);
+      const amCommand = args.amCommand.trim();
+      if (!amCommand) {
+        const message = "Activity Manager command must not be empty";
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      const additionalArgs = args.amArgs ? splitCommandArguments(args.amArgs) : [];
+      const tokens = ["am", amCommand, ...additionalArgs];
+      const refusal = enforcePolicy(
+        { tool: "adb_activity_manager", device: args.device, command: tokens.join(" "), tokens },
+        args.confirmationToken
+      );
+      if (refusal) {
+        return refusal;
+      }
+
+      // Quoted so the device shell runs exactly the tokens the policy judged
+      return executeAdbCommand([...deviceArgs, "shell", ...tokens.map(quoteShellArgument)], "Error executing Activity Manager command");
+    }),
+    { description: ADB_ACTIVITY_MANAGER_TOOL_DESCRIPTION }
+  );
+
+  // ===== Intent Tool =====
+  const ADB_INTENT_TOOL_DESCRIPTION =
+    "Sends a structured intent to an activity (am start), service (am startservice / start-foreground-service) or broadcast receivers (am broadcast). " +
+    "Takes the action, data URI, MIME type, categories, component, package, named flags and typed extras " +
+    "(string, int, long, bool, float, string_array, uri, component, null) and quotes every value for the device shell, " +
+    "so URIs with '&' and JSON payloads arrive unchanged. Returns JSON: status, am warnings (e.g. an existing task brought to the front), " +
+    "launch timing with wait, and the result code, data and extras of broadcasts.";
+
+  server.tool(
+    "adb_intent",
+    AdbIntentSchema.shape,
+    withCommandContext("adb_intent", async (args: z.infer<typeof AdbIntentSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const amArgs = buildIntentArgs(args.target, {
+          action: args.action,
+          data: args.data,
+          mimeType: args.mimeType,
+          categories: args.categories,
+          component: args.component,
+          package: args.package,
+          flags: args.flags,
+          flagsValue: args.flagsValue,
+          extras: args.extras
+        }, { wait: args.wait, user: args.user });
+        const refusal = enforcePolicy(
+          { tool: "adb_intent", device: args.device, command: amArgs.join(" "), tokens: amArgs },
+          args.confirmationToken
+        );
+        if (refusal) {
+          return refusal;
+        }
+
+        log(LogLevel.INFO, `Sending intent: ${amArgs.join(" ")}`);
+        const { stdout, stderr } = await runAdb([...buildDeviceArgs(args.device), "shell", ...amArgs.map(quoteShellArgument)]);
+        const result = parseIntentResult(args.target, `${stdout}\n${stderr}`);
+        if (result.warning) {
+          log(LogLevel.WARN, `Intent warning: ${result.warning}`);
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ command: amArgs, ...result }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error sending intent: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error sending intent: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: ADB_INTENT_TOOL_DESCRIPTION }
+  );
+
+  // ===== Dumpsys Tool =====
+  const DUMPSYS_TOOL_DESCRIPTION =
+    "Runs dumpsys for a service with optional arguments, or lists the device's services when no service is given. " +
+    `Output is returned as JSON for: ${PARSED_DUMPSYS_SERVICES.join(", ")} ` +
+    "(task/back stack and resumed activity, focused window and displays, app memory, frame stats and janky frames, battery state, networks, package details). " +
+    "Other services, or raw: true, return the text output limited to maxLines.";
+
+  server.tool(
+    "dumpsys",
+    DumpsysSchema.shape,
+    withCommandContext("dumpsys", async (args: z.infer<typeof DumpsysSchema>, _extra: RequestHandlerExtra) => {
+      const service = args.service?.trim();
+      const serviceArgs = args.args ?? [];
+      const tokens = service ? ["dumpsys", service, ...serviceArgs] : ["dumpsys", "-l"];
+      log(LogLevel.INFO, `Running ${tokens.join(" ")} (device: ${args.device || 'default'})`);
+
+      try {
+        if (service !== undefined && !/^[\w.\-/@:]+$/.test(service)) {
+          throw new Error(`Invalid service name: ${service}`);
+        }
+        const refusal = enforcePolicy({ tool: "dumpsys", device: args.device, command: tokens.join(" "), tokens }, args.confirmationToken);
+        if (refusal) {
+          return refusal;
+        }
+
+        const { stdout } = await runAdb([...buildDeviceArgs(args.device), "shell", ...tokens.map(quoteShellArgument)]);
+        if (!service) {
+          const services = parseServiceList(stdout);
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify({ count: services.length, services, parsed: PARSED_DUMPSYS_SERVICES }, null, 2) }]
+          };
+        }
+        if (/^Can't find service: /m.test(stdout)) {
+          throw new Error(`Can't find service: ${service}; call dumpsys without a service to list them`);
+        }
+
+        const parsed = args.raw ? undefined : parseDumpsysOutput(service, serviceArgs, stdout);
+        if (parsed) {
+          return {
+            content: [{ type: "text" as const, text: JSON.stringify({ service, args: serviceArgs, parser: parsed.parser, result: parsed.result }, null, 2) }]
+          };
+        }
+
+        const lines = stdout.replace(/\r?\n$/, "").split(/\r?\n/);
+        const maxLines = args.maxLines ?? 2000;
+        const text = lines.length > maxLines
+          ? `${lines.slice(0, maxLines).join("\n")}\n... ${lines.length - maxLines} more lines (raise maxLines or narrow the dump with args)`
+          : stdout;
+        return {
+          content: [{ type: "text" as const, text }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error running dumpsys: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error running dumpsys: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: DUMPSYS_TOOL_DESCRIPTION }
+  );
+
+  // ===== Package Manager Tool =====
+  const ADB_PACKAGE_MANAGER_TOOL_DESCRIPTION =
+    "Executes Package Manager (pm) commands on a connected Android device. " +
+    "Supports listing packages, installing/uninstalling apps, managing permissions, and other 'pm' subcommands. " +
+    "Common commands include: 'list packages', 'install', 'uninstall', 'grant', 'revoke', 'clear', 'enable', 'disable'. " +
+    "Example: pmCommand='list', pmArgs='packages -3' (lists third-party packages) or pmCommand='grant', pmArgs='com.example.app android.permission.CAMERA'";
+
+  server.tool(
+    "adb_package_manager",
+    AdbPackageManagerSchema.shape,
+    withCommandContext("adb_package_manager", async (args: z.infer<typeof AdbPackageManagerSchema>, _extra: RequestHandlerExtra) => {
+      log(LogLevel.INFO, `Executing Package Manager command: pm ${args.pmCommand} ${args.pmArgs || ''}`);
+      const deviceArgs = buildDeviceArgs(args.device);
+      const pmCommand = args.pmCommand.trim();
+      if (!pmCommand) {
+        const message = "Package Manager command must not be empty";
+        log(LogLevel.ERROR, message);
+        return {
+          content: [{ type: "text" as const, text: message }],
+          isError: true
+        };
+      }
+
+      const additionalArgs = args.pmArgs ? splitCommandArguments(args.pmArgs) : [];
+      const tokens = ["pm", pmCommand, ...additionalArgs];
+      const refusal = enforcePolicy(
+        { tool: "adb_package_manager", device: args.device, command: tokens.join(" "), tokens },
+        args.confirmationToken
+      );
+      if (refusal) {
+        return refusal;
+      }
+
+      // Quoted so the device shell runs exactly the tokens the policy judged
+      return executeAdbCommand([...deviceArgs, "shell", ...tokens.map(quoteShellArgument)], "Error executing Package Manager command");
+    }),
+    { description: ADB_PACKAGE_MANAGER_TOOL_DESCRIPTION }
+  );
+
+  // ===== App Info Tools =====
+  const APP_LIST_TOOL_DESCRIPTION =
+    "Lists installed packages as JSON with their base APK path, version code, UID and installer. " +
+    "Filter by name, by third-party or system packages, and by enabled or disabled state.";
+
+  const APP_INFO_TOOL_DESCRIPTION =
+    "Returns details of an installed app as JSON: versionName/versionCode, min/target SDK, install and update time, installer, UID, " +
+    "APK paths (including splits), enabled state, flags, requested and granted permissions (runtime permissions with their flags), " +
+    "activities/services/receivers/providers that have intent filters, and the launcher activity.";
+
+  server.tool(
+    "app_list",
+    AppListSchema.shape,
+    withCommandContext("app_list", async (args: z.infer<typeof AppListSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const options = [
+          ...(args.type === "third_party" ? ["-3"] : args.type === "system" ? ["-s"] : []),
+          ...(args.state === "enabled" ? ["-e"] : args.state === "disabled" ? ["-d"] : []),
+          ...(args.filter?.trim() ? [quoteShellArgument(args.filter.trim())] : [])
+        ];
+        const packages = await listPackages(buildDeviceArgs(args.device), options);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ count: packages.length, packages }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error listing packages: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error listing packages: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_LIST_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_info",
+    AppInfoSchema.shape,
+    withCommandContext("app_info", async (args: z.infer<typeof AppInfoSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const info = await getAppInfo(buildDeviceArgs(args.device), validatePackageName(args.packageName), args.user);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(info, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error reading app info: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error reading app info: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_INFO_TOOL_DESCRIPTION }
+  );
+
+  // ===== App Lifecycle Tools =====
+  const APP_LAUNCH_TOOL_DESCRIPTION =
+    "Launches an app with 'am start -W' and returns its startup timing as JSON: status, launchState (COLD/WARM/HOT), " +
+    "the activity shown, TotalTime, WaitTime and ThisTime in milliseconds. The launcher activity is found automatically. " +
+    "startMode 'cold' force-stops the app before each launch (clearData also clears its data), 'warm' keeps the process alive. " +
+    "Use runs to measure several launches with min/max/mean/median, and waitForActivity to wait past a splash screen.";
+
+  const APP_STOP_TOOL_DESCRIPTION =
+    "Force-stops an app and optionally clears its data and cache, e.g. to reset it between tests.";
+
+  server.tool(
+    "app_launch",
+    AppLaunchSchema.shape,
+    withCommandContext("app_launch", async (args: z.infer<typeof AppLaunchSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const deviceArgs = buildDeviceArgs(args.device);
+        const userArgs = args.user !== undefined ? ["--user", String(args.user)] : [];
+        const component = args.activity
+          ? resolveActivityComponent(packageName, args.activity)
+          : await resolveLauncherActivity(deviceArgs, packageName, args.user) ?? (await getAppInfo(deviceArgs, packageName, args.user)).launcherActivity;
+        if (!component) {
+          throw new Error(`${packageName} has no launcher activity; pass the activity to start`);
+        }
+
+        const startMode = args.clearData ? "cold" : args.startMode;
+        const startCommand = ["am", "start", "-W", ...userArgs, "-n", component];
+        const resetCommand = args.clearData
+          ? ["pm", "clear", ...userArgs, packageName]
+          : startMode === "cold" ? ["am", "force-stop", ...userArgs, packageName] : undefined;
+        const refusal = enforcePolicy(
+          { tool: "app_launch", device: args.device, command: [...(resetCommand ? [resetCommand] : []), startCommand].map((command) => command.join(" ")).join(" && ") },
+          args.confirmationToken
+        );
+        if (refusal) {
+          return refusal;
+        }
+
+        const start = async (): Promise<LaunchResult> => {
+          // Nested classes ("Outer$Inner") must reach am as written, not expanded by the device shell
+          const { stdout, stderr } = await runAdb([...deviceArgs, "shell", ...startCommand.map(quoteShellArgument)]);
+          return parseAmStartOutput(`${stdout}\n${stderr}`);
+        };
+        if (startMode === "warm") {
+          // The first launch may be cold; only launches of a running process are measured
+          await start();
+        }
+
+        const runs: Array<LaunchResult & { run: number; resumedActivity?: string; waitedMs?: number }> = [];
+        for (let run = 1; run <= args.runs; run++) {
+          if (resetCommand) {
+            const { stdout } = await runAdb([...deviceArgs, "shell", ...resetCommand.map(quoteShellArgument)]);
+            if (args.clearData && !stdout.includes("Success")) {
+              throw new Error(`Clearing data of ${packageName} failed: ${stdout.trim() || "no output"}`);
+            }
+          } else if (startMode === "warm") {
+            await runAdb([...deviceArgs, "shell", "input", "keyevent", "KEYCODE_HOME"]);
+            await delay(500);
+          }
+
+          const result = await start();
+          const waited = args.waitForActivity ? await waitForResumedActivity(deviceArgs, args.waitForActivity, args.waitTimeoutMs) : undefined;
+          runs.push({ run, ...result, ...(waited ? { resumedActivity: waited.activity, waitedMs: waited.waitedMs } : {}) });
+          log(LogLevel.INFO, `Launched ${component} (${result.launchState ?? startMode}): TotalTime ${result.totalTime ?? "?"}ms`);
+        }
+
+        const summary = args.runs > 1 ? {
+          totalTime: summarizeTimings(runs.map((run) => run.totalTime)),
+          waitTime: summarizeTimings(runs.map((run) => run.waitTime)),
+          ...(args.waitForActivity ? { waitedMs: summarizeTimings(runs.map((run) => run.waitedMs)) } : {})
+        } : undefined;
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, component, startMode, runs, summary }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error launching app: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error launching app: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_LAUNCH_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_stop",
+    AppStopSchema.shape,
+    withCommandContext("app_stop", async (args: z.infer<typeof AppStopSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const deviceArgs = buildDeviceArgs(args.device);
+        const userArgs = args.user !== undefined ? ["--user", String(args.user)] : [];
+        const commands = [["am", "force-stop", ...userArgs, packageName], ...(args.clearData ? [["pm", "clear", ...userArgs, packageName]] : [])];
+        const refusal = enforcePolicy(
+          { tool: "app_stop", device: args.device, command: commands.map((command) => command.join(" ")).join(" && ") },
+          args.confirmationToken
+        );
+        if (refusal) {
+          return refusal;
+        }
+
+        await runAdb([...deviceArgs, "shell", ...commands[0]]);
+        if (args.clearData) {
+          const { stdout } = await runAdb([...deviceArgs, "shell", ...commands[1]]);
+          if (!stdout.includes("Success")) {
+            throw new Error(`Clearing data of ${packageName} failed: ${stdout.trim() || "no output"}`);
+          }
+        }
+        log(LogLevel.INFO, `Stopped ${packageName}${args.clearData ? " and cleared its data" : ""}`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, stopped: true, dataCleared: args.clearData }, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error stopping app: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error stopping app: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_STOP_TOOL_DESCRIPTION }
+  );
+
+  // ===== Permission Tools =====
+  const APP_PERMISSIONS_TOOL_DESCRIPTION =
+    "Lists an app's runtime permissions with their grant state and flags (USER_SET, USER_FIXED, GRANTED_BY_DEFAULT, ...) " +
+    "and its app-op modes as JSON. The result is a snapshot that app_permissions_restore can apply later.";
+
+  const APP_PERMISSIONS_SET_TOOL_DESCRIPTION =
+    "Grants and revokes runtime permissions and sets app-op modes (allow, ignore, deny, default, foreground) in one call. " +
+    "Every change is reported separately, so one rejected permission does not stop the others. " +
+    "Revoking a permission kills the app's process.";
+
+  const APP_PERMISSIONS_RESET_TOOL_DESCRIPTION =
+    "Resets an app's runtime permissions to their defaults: user choices (USER_SET/USER_FIXED) are cleared, " +
+    "permissions granted by default stay granted and the others are revoked. App-op modes are reset too unless appOps is false. " +
+    "Fixed system and policy permissions are left alone.";
+
+  const APP_PERMISSIONS_RESTORE_TOOL_DESCRIPTION =
+    "Restores runtime permissions (grant state and user flags) and app-op modes from a snapshot taken with app_permissions, " +
+    "e.g. to start every test run from the same state. App-op modes are reset before the snapshot's package and UID modes are applied.";
+
+  server.tool(
+    "app_permissions",
+    AppPermissionsSchema.shape,
+    withCommandContext("app_permissions", async (args: z.infer<typeof AppPermissionsSchema>, _extra: RequestHandlerExtra) => {
+      try {
+        const state = await readPermissionState(buildDeviceArgs(args.device), validatePackageName(args.packageName), args.user);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(state, null, 2) }]
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error reading permissions: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error reading permissions: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_PERMISSIONS_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_permissions_set",
+    AppPermissionsSetSchema.shape,
+    withCommandContext("app_permissions_set", async (args: z.infer<typeof AppPermissionsSetSchema>, _extra: RequestHandlerExtra) => {
+      const refusal = enforcePolicy({ tool: "app_permissions_set", device: args.device, command: `permissions ${args.packageName} set` });
+      if (refusal) {
+        return refusal;
+      }
+
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const deviceArgs = buildDeviceArgs(args.device);
+        const changes: PermissionChange[] = [
+          ...(args.grant ?? []).map((permission) => ({ permission: validatePermissionName(permission), action: "grant" as const })),
+          ...(args.revoke ?? []).map((permission) => ({ permission: validatePermissionName(permission), action: "revoke" as const }))
+        ];
+        if (changes.length === 0 && Object.keys(args.appOps ?? {}).length === 0) {
+          throw new Error("Nothing to change: provide grant, revoke or appOps");
+        }
+
+        const permissions = await applyPermissionChanges(deviceArgs, packageName, changes, args.user);
+        const appOps = await applyAppOpModes(deviceArgs, packageName, args.appOps ?? {}, args.user);
+        const failed = [...permissions, ...appOps].filter((result) => !result.ok).length;
+        log(failed > 0 ? LogLevel.WARN : LogLevel.INFO, `Applied ${permissions.length + appOps.length - failed} permission changes to ${packageName}, ${failed} failed`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, permissions, appOps, failed }, null, 2) }],
+          isError: failed > 0
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error changing permissions: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error changing permissions: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_PERMISSIONS_SET_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_permissions_reset",
+    AppPermissionsResetSchema.shape,
+    withCommandContext("app_permissions_reset", async (args: z.infer<typeof AppPermissionsResetSchema>, _extra: RequestHandlerExtra) => {
+      const refusal = enforcePolicy({ tool: "app_permissions_reset", device: args.device, command: `permissions ${args.packageName} reset` });
+      if (refusal) {
+        return refusal;
+      }
+
+      try {
+        const packageName = validatePackageName(args.packageName);
+        const deviceArgs = buildDeviceArgs(args.device);
+        const current = await readPermissionState(deviceArgs, packageName, args.user);
+        const permissions = await applyPermissionChanges(deviceArgs, packageName, planPermissionReset(current.runtimePermissions), args.user);
+        if (args.appOps) {
+          const userArgs = args.user !== undefined ? ["--user", String(args.user)] : [];
+          await runPermissionCommand(deviceArgs, ["appops", "reset", ...userArgs, packageName]);
+        }
 
-    const additionalArgs = args.pmArgs ? splitCommandArguments(args.pmArgs) : [];
-    return executeAdbCommand([...deviceArgs, "shell", "pm", pmCommand, ...additionalArgs], "Error executing Package Manager command");
-  },
-  { description: ADB_PACKAGE_MANAGER_TOOL_DESCRIPTION }
-);
+        const failed = permissions.filter((result) => !result.ok).length;
+        const state = await readPermissionState(deviceArgs, packageName, args.user);
+        log(LogLevel.INFO, `Reset permissions of ${packageName}`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, permissions, failed, state }, null, 2) }],
+          isError: failed > 0
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error resetting permissions: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error resetting permissions: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_PERMISSIONS_RESET_TOOL_DESCRIPTION }
+  );
+
+  server.tool(
+    "app_permissions_restore",
+    AppPermissionsRestoreSchema.shape,
+    withCommandContext("app_permissions_restore", async (args: z.infer<typeof AppPermissionsRestoreSchema>, _extra: RequestHandlerExtra) => {
+      const target = args.packageName ?? args.snapshot.packageName;
+      const refusal = enforcePolicy({ tool: "app_permissions_restore", device: args.device, command: `permissions ${target} restore` });
+      if (refusal) {
+        return refusal;
+      }
+
+      try {
+        const packageName = validatePackageName(target);
+        const deviceArgs = buildDeviceArgs(args.device);
+        const wanted = args.snapshot.runtimePermissions.map((permission) => ({ ...permission, name: validatePermissionName(permission.name) }));
+        const current = await readPermissionState(deviceArgs, packageName, args.user);
+        const permissions = await applyPermissionChanges(deviceArgs, packageName, planPermissionRestore(current.runtimePermissions, wanted), args.user);
+
+        // Start from the default modes so ops changed after the snapshot go back too
+        const userArgs = args.user !== undefined ? ["--user", String(args.user)] : [];
+        await runPermissionCommand(deviceArgs, ["appops", "reset", ...userArgs, packageName]);
+        const defaults = await readPermissionState(deviceArgs, packageName, args.user);
+        const changed = (wantedModes: Record<string, string>, defaultModes: Record<string, string>) =>
+          Object.fromEntries(Object.entries(wantedModes).filter(([op, mode]) => defaultModes[op] !== mode));
+        const appOps = [
+          ...await applyAppOpModes(deviceArgs, packageName, changed(args.snapshot.appOps, defaults.appOps), args.user),
+          ...await applyAppOpModes(deviceArgs, packageName, changed(args.snapshot.uidAppOps, defaults.uidAppOps), args.user, true)
+        ];
+
+        const failed = [...permissions, ...appOps].filter((result) => !result.ok).length;
+        log(failed > 0 ? LogLevel.WARN : LogLevel.INFO, `Restored permissions of ${packageName}, ${failed} changes failed`);
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ packageName, permissions, appOps, failed }, null, 2) }],
+          isError: failed > 0
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(LogLevel.ERROR, `Error restoring permissions: ${errorMsg}`);
+        return {
+          content: [{ type: "text" as const, text: `Error restoring permissions: ${errorMsg}` }],
+          isError: true
+        };
+      }
+    }),
+    { description: APP_PERMISSIONS_RESTORE_TOOL_DESCRIPTION }
+  );
+
+  return server;
+}
 
 // ========== Server Startup ==========
 
-// Start receiving messages on stdin and sending messages on stdout
+const HTTP_LOG_LEVELS: Record<HttpLogLevel, LogLevel> = {
+  debug: LogLevel.DEBUG,
+  info: LogLevel.INFO,
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR
+};
+
+// Start receiving messages on stdin/stdout, or over HTTP when configured
 async function runServer(): Promise<void> {
   try {
     log(LogLevel.INFO, "Starting ADB MCP Server...");
     log(LogLevel.INFO, `Current log level: ${LogLevel[LOG_LEVEL]}`);
     log(LogLevel.INFO, "To see more detailed logs, set LOG_LEVEL=3 environment variable");
     
+    log(LogLevel.DEBUG, `Effective configuration: ${JSON.stringify(redactConfig(loadedConfig))}`);
+    
     // Check ADB availability
     try {
       const { stdout } = await runAdb(["version"]);
       log(LogLevel.INFO, `ADB detected: ${stdout.split('\n')[0]}`);
     } catch (error) {
-      log(LogLevel.WARN, "ADB not found in PATH. Please ensure Android Debug Bridge is installed and in your PATH.");
+      log(LogLevel.WARN, `ADB not found at '${config.adbPath}'. Please ensure Android Debug Bridge is installed and in your PATH, or set ADB_PATH / --adb-path.`);
+    }
+    if (config.defaultDevice) {
+      log(LogLevel.INFO, `Default device: ${config.defaultDevice}`);
     }
     
+    if (config.transport === "http") {
+      await startHttpTransport({
+        host: config.httpHost,
+        port: config.httpPort,
+        authToken: config.authToken,
+        allowedHosts: config.allowedHosts,
+        createServer,
+        log: (level, message) => log(HTTP_LOG_LEVELS[level], message)
+      });
+      const baseUrl = `http://${config.httpHost}:${config.httpPort}`;
+      log(LogLevel.INFO, `ADB MCP Server listening on ${baseUrl}${STREAMABLE_HTTP_PATH} (Streamable HTTP) and ${baseUrl}${SSE_PATH} (SSE)`);
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await server.connect(transport);
+    await createServer().connect(transport);
     log(LogLevel.INFO, "ADB MCP Server connected and ready");
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
@@ -799,5 +4482,27 @@ async function runServer(): Promise<void> {
   }
 }
 
+// Stop background logcat and screenrecord processes and remove staged files when the server exits
+process.on("exit", () => {
+  for (const session of logcatSessions.values()) {
+    session.stop();
+  }
+  for (const session of screenRecordSessions.values()) {
+    session.kill();
+  }
+  for (const file of [...stagedUploads.values(), ...pulledTransfers.values()]) {
+    try {
+      unlinkSync(file.path);
+    } catch {
+      // Already gone
+    }
+  }
+});
+
+// The HTTP transport keeps the process alive, so exit explicitly on signals
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => process.exit(0));
+}
+
 // Start the server
 runServer();
@@ -0,0 +1,222 @@
+/**
+ * Input command helpers for the ADB MCP Server
+ *
+ * Builds the argument lists for the device-side `input` command. Everything
+ * returned here is meant to be appended after `adb [-s serial] shell`.
+ */
+
+/**
+ * Quotes a value for the device shell. adb joins shell arguments with spaces
+ * and hands the result to `sh -c`, so anything that is not a plain word has
+ * to be quoted on our side.
+ */
+export function quoteShellArgument(value: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface DisplaySize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Friendly aliases for key names that differ from their KEYCODE_ constant
+ */
+const KEY_ALIASES: Record<string, string> = {
+  BACKSPACE: "DEL",
+  DELETE: "DEL",
+  FORWARD_DELETE: "FORWARD_DEL",
+  ESC: "ESCAPE",
+  RETURN: "ENTER",
+  RECENTS: "APP_SWITCH",
+  RECENT_APPS: "APP_SWITCH",
+  OVERVIEW: "APP_SWITCH",
+  UP: "DPAD_UP",
+  DOWN: "DPAD_DOWN",
+  LEFT: "DPAD_LEFT",
+  RIGHT: "DPAD_RIGHT",
+  CENTER: "DPAD_CENTER",
+  SELECT: "DPAD_CENTER",
+  VOLUMEUP: "VOLUME_UP",
+  VOLUMEDOWN: "VOLUME_DOWN",
+  MUTE: "VOLUME_MUTE",
+  LOCK: "SLEEP",
+  SCREENSHOT: "SYSRQ",
+  PLAY_PAUSE: "MEDIA_PLAY_PAUSE"
+};
+
+/**
+ * Commonly used key names, documented in the tool description
+ */
+export const COMMON_KEY_NAMES = [
+  "BACK", "HOME", "APP_SWITCH", "MENU", "ENTER", "TAB", "SPACE", "DEL", "FORWARD_DEL", "ESCAPE",
+  "DPAD_UP", "DPAD_DOWN", "DPAD_LEFT", "DPAD_RIGHT", "DPAD_CENTER", "MOVE_HOME", "MOVE_END",
+  "PAGE_UP", "PAGE_DOWN", "POWER", "WAKEUP", "SLEEP", "VOLUME_UP", "VOLUME_DOWN", "VOLUME_MUTE",
+  "CAMERA", "SEARCH", "NOTIFICATION", "MEDIA_PLAY_PAUSE", "MEDIA_NEXT", "MEDIA_PREVIOUS"
+];
+
+/**
+ * Normalizes a key name ("back", "KEYCODE_BACK", "Backspace" or "4") into
+ * the form accepted by `input keyevent`
+ */
+export function normalizeKeyCode(key: string): string {
+  const trimmed = key.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  const upper = trimmed.toUpperCase().replace(/[\s-]+/g, "_").replace(/^KEYCODE_/, "");
+  if (!/^[A-Z0-9_]+$/.test(upper)) {
+    throw new Error(`Invalid key name: '${key}'`);
+  }
+  return `KEYCODE_${KEY_ALIASES[upper] ?? upper}`;
+}
+
+/**
+ * Parses `wm size` output. An override size wins over the physical size
+ * because input coordinates are in the logical display space.
+ */
+export function parseWmSize(output: string): DisplaySize {
+  const override = /Override size:\s*(\d+)x(\d+)/.exec(output);
+  const physical = /Physical size:\s*(\d+)x(\d+)/.exec(output);
+  const match = override ?? physical;
+  if (!match) {
+    throw new Error(`Could not determine display size from 'wm size' output: ${output.trim()}`);
+  }
+  return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+}
+
+/**
+ * Parses the current surface orientation (0-3) from `dumpsys input`
+ */
+export function parseSurfaceOrientation(output: string): number {
+  const match = /SurfaceOrientation:\s*(\d)/.exec(output);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * `wm size` reports the natural orientation, so swap the axes when the
+ * display is rotated by 90 or 270 degrees
+ */
+export function orientDisplaySize(size: DisplaySize, orientation: number): DisplaySize {
+  return orientation % 2 === 1 ? { width: size.height, height: size.width } : size;
+}
+
+/**
+ * Throws a descriptive error when any point falls outside the display
+ */
+export function validatePoints(points: Point[], display: DisplaySize): void {
+  for (const point of points) {
+    if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) {
+      throw new Error(`Coordinates must be finite numbers, got (${point.x}, ${point.y})`);
+    }
+    if (point.x < 0 || point.y < 0 || point.x >= display.width || point.y >= display.height) {
+      throw new Error(
+        `Coordinates (${point.x}, ${point.y}) are outside the display (${display.width}x${display.height}); ` +
+        `valid range is x 0-${display.width - 1}, y 0-${display.height - 1}`
+      );
+    }
+  }
+}
+
+/**
+ * Encodes text for `input text`.
+ *
+ * `input text` treats `%s` as a space and splits on real spaces on older
+ * releases, so spaces are rewritten to `%s` before shell quoting. It has no
+ * escape for a literal `%s`; buildTextScript types those in two commands.
+ */
+export function encodeInputText(text: string): string {
+  return quoteShellArgument(text.replace(/ /g, "%s"));
+}
+
+export function buildTapArgs(x: number, y: number): string[] {
+  return ["input", "tap", String(Math.round(x)), String(Math.round(y))];
+}
+
+export function buildSwipeArgs(x1: number, y1: number, x2: number, y2: number, durationMs?: number): string[] {
+  const args = ["input", "swipe", String(Math.round(x1)), String(Math.round(y1)), String(Math.round(x2)), String(Math.round(y2))];
+  if (durationMs !== undefined) {
+    args.push(String(Math.round(durationMs)));
+  }
+  return args;
+}
+
+/**
+ * A long press is a swipe that does not move
+ */
+export function buildLongPressArgs(x: number, y: number, durationMs: number): string[] {
+  return buildSwipeArgs(x, y, x, y, durationMs);
+}
+
+export function buildDragArgs(x1: number, y1: number, x2: number, y2: number, durationMs?: number): string[] {
+  const [, , ...coordinates] = buildSwipeArgs(x1, y1, x2, y2, durationMs);
+  return ["input", "draganddrop", ...coordinates];
+}
+
+export function buildTextArgs(text: string): string[] {
+  return ["input", "text", encodeInputText(text)];
+}
+
+export function buildKeyeventArgs(keys: string[], longPress = false): string[] {
+  return ["input", "keyevent", ...(longPress ? ["--longpress"] : []), ...keys.map(normalizeKeyCode)];
+}
+
+/**
+ * Builds a shell script that types text, pressing ENTER for each newline
+ * since `input text` cannot send line breaks
+ */
+export function buildTextScript(text: string): string {
+  if (/[^\x20-\x7e\n\t]/.test(text)) {
+    throw new Error("input text only supports printable ASCII characters; use the device keyboard or clipboard for other text");
+  }
+
+  const commands: string[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (index > 0) {
+      commands.push(buildKeyeventArgs(["ENTER"]).join(" "));
+    }
+    line.split("\t").forEach((segment, segmentIndex) => {
+      if (segmentIndex > 0) {
+        commands.push(buildKeyeventArgs(["TAB"]).join(" "));
+      }
+      // A literal "%s" would turn into a space, so "%" and "s" are typed separately
+      for (const chunk of segment.split(/(?<=%)(?=s)/)) {
+        if (chunk.length > 0) {
+          commands.push(buildTextArgs(chunk).join(" "));
+        }
+      }
+    });
+  });
+  return commands.join(" && ");
+}
+
+/**
+ * Builds a shell script that drags a single pointer through all points
+ * using `input motionevent` (Android 10+). Each segment waits
+ * `segmentDurationMs` before moving on.
+ */
+export function buildPathScript(points: Point[], segmentDurationMs: number): string {
+  if (points.length < 2) {
+    throw new Error("A gesture path needs at least two points");
+  }
+
+  const sleep = `sleep ${(segmentDurationMs / 1000).toFixed(3)}`;
+  const event = (action: string, point: Point) =>
+    `input motionevent ${action} ${Math.round(point.x)} ${Math.round(point.y)}`;
+
+  const commands = [event("DOWN", points[0])];
+  for (const point of points.slice(1)) {
+    commands.push(sleep, event("MOVE", point));
+  }
+  commands.push(event("UP", points[points.length - 1]));
+  return commands.join(" && ");
+}
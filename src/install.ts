@@ -0,0 +1,233 @@
+/**
+ * APK installation helpers for the ADB MCP Server
+ *
+ * Builds `adb install` / `adb install-multiple` arguments, picks the
+ * split APKs of a bundletool `.apks` archive that match a device, and
+ * parses install failures into structured error codes.
+ */
+
+import { basename } from "path";
+
+export interface InstallFlags {
+  /** Replace an existing app (-r, default true) */
+  replace?: boolean;
+  /** Allow version code downgrade (-d) */
+  allowDowngrade?: boolean;
+  /** Grant all runtime permissions (-g) */
+  grantPermissions?: boolean;
+  /** Allow test packages (-t) */
+  allowTest?: boolean;
+  /** Install for a specific user id, "current" or "all" (--user) */
+  user?: string;
+  /** Override the platform ABI (--abi) */
+  abi?: string;
+  /** true: --incremental, false: --no-incremental, unset: adb decides */
+  incremental?: boolean;
+}
+
+export interface InstallResult {
+  device?: string;
+  success: boolean;
+  /** Failure code such as INSTALL_FAILED_UPDATE_INCOMPATIBLE */
+  code?: string;
+  /** Failure detail reported by the package manager */
+  message?: string;
+  /** Short explanation of common failure codes */
+  hint?: string;
+  output: string;
+}
+
+/**
+ * Explanations for common failure codes
+ */
+const INSTALL_FAILURE_HINTS: Record<string, string> = {
+  INSTALL_FAILED_ALREADY_EXISTS: "The app is already installed; install with replace enabled",
+  INSTALL_FAILED_INSUFFICIENT_STORAGE: "Not enough free storage on the device",
+  INSTALL_FAILED_UPDATE_INCOMPATIBLE: "The installed app is signed with a different key; uninstall it first",
+  INSTALL_FAILED_VERSION_DOWNGRADE: "The installed version is newer; allow downgrade or uninstall it first",
+  INSTALL_FAILED_OLDER_SDK: "The device's Android version is below the app's minSdkVersion",
+  INSTALL_FAILED_NEWER_SDK: "The device's Android version is above the app's maxSdkVersion",
+  INSTALL_FAILED_NO_MATCHING_ABIS: "The APK has no native libraries for the device's CPU ABI",
+  INSTALL_FAILED_TEST_ONLY: "The APK is marked testOnly; install with allowTest",
+  INSTALL_FAILED_DUPLICATE_PERMISSION: "Another installed app already defines one of the app's permissions",
+  INSTALL_FAILED_CONFLICTING_PROVIDER: "Another installed app already uses one of the app's content provider authorities",
+  INSTALL_FAILED_INVALID_APK: "The APK (or one of its splits) is invalid or the splits do not belong together",
+  INSTALL_FAILED_MISSING_SPLIT: "A required split APK is missing",
+  INSTALL_FAILED_USER_RESTRICTED: "Installing apps is blocked for this user (check 'Install via USB' in developer options)",
+  INSTALL_FAILED_ABORTED: "The installation was cancelled on the device",
+  INSTALL_FAILED_VERIFICATION_FAILURE: "Package verification rejected the APK",
+  INSTALL_PARSE_FAILED_NO_CERTIFICATES: "The APK is not signed",
+  INSTALL_PARSE_FAILED_INCONSISTENT_CERTIFICATES: "The APK or its splits are signed inconsistently",
+  INSTALL_PARSE_FAILED_NOT_APK: "The file is not an APK",
+  INSTALL_PARSE_FAILED_MANIFEST_MALFORMED: "The APK manifest is malformed"
+};
+
+/**
+ * Builds the flags shared by `install` and `install-multiple`
+ */
+export function buildInstallFlags(flags: InstallFlags): string[] {
+  const args: string[] = [];
+  if (flags.replace !== false) args.push("-r");
+  if (flags.allowDowngrade) args.push("-d");
+  if (flags.grantPermissions) args.push("-g");
+  if (flags.allowTest) args.push("-t");
+  if (flags.user !== undefined) args.push("--user", flags.user);
+  if (flags.abi) args.push("--abi", flags.abi);
+  if (flags.incremental === true) args.push("--incremental");
+  if (flags.incremental === false) args.push("--no-incremental");
+  return args;
+}
+
+/**
+ * Builds the adb arguments (after device selection) to install one or more APKs
+ */
+export function buildInstallArgs(apkPaths: string[], flags: InstallFlags): string[] {
+  if (apkPaths.length === 0) {
+    throw new Error("No APK files to install");
+  }
+  const command = apkPaths.length === 1 ? "install" : "install-multiple";
+  return [command, ...buildInstallFlags(flags), ...apkPaths];
+}
+
+/**
+ * Parses the combined stdout/stderr of `adb install`
+ */
+export function parseInstallOutput(output: string): Omit<InstallResult, "device"> {
+  const failure = /Failure \[([A-Z][A-Z0-9_]+)(?::\s*([^\]]*))?\]/.exec(output)
+    ?? /\b((?:INSTALL|DELETE)_(?:PARSE_)?FAILED_[A-Z0-9_]+)(?::\s*(.*))?/.exec(output);
+  if (failure) {
+    const code = failure[1];
+    return {
+      success: false,
+      code,
+      message: failure[2]?.trim() || undefined,
+      hint: INSTALL_FAILURE_HINTS[code],
+      output: output.trim()
+    };
+  }
+
+  if (/^Success\s*$/m.test(output)) {
+    return { success: true, output: output.trim() };
+  }
+
+  const adbError = /adb: (?:failed to install [^:]*: )?(.+)/.exec(output) ?? /error: (.+)/.exec(output);
+  return {
+    success: false,
+    message: adbError?.[1]?.trim() || output.trim() || "Installation failed without output",
+    output: output.trim()
+  };
+}
+
+export interface DeviceSpec {
+  /** Supported ABIs, preferred first (ro.product.cpu.abilist) */
+  abis: string[];
+  /** Screen density in dpi */
+  density?: number;
+}
+
+const DENSITY_BUCKETS: Record<string, number> = {
+  ldpi: 120,
+  mdpi: 160,
+  tvdpi: 213,
+  hdpi: 240,
+  xhdpi: 320,
+  xxhdpi: 480,
+  xxxhdpi: 640
+};
+
+const ABI_SPLITS = ["armeabi", "armeabi_v7a", "arm64_v8a", "x86", "x86_64", "mips", "mips64"];
+
+interface SplitName {
+  path: string;
+  module: string;
+  config: string;
+}
+
+function parseSplitName(path: string): SplitName | undefined {
+  const match = /^(.+?)-(.+)\.apk$/.exec(basename(path));
+  return match ? { path, module: match[1], config: match[2] } : undefined;
+}
+
+function closestDensity(available: string[], density: number | undefined): string | undefined {
+  if (available.length === 0) {
+    return undefined;
+  }
+  const sorted = [...available].sort((a, b) => DENSITY_BUCKETS[a] - DENSITY_BUCKETS[b]);
+  if (density === undefined) {
+    return sorted.find((bucket) => bucket === "xxhdpi") ?? sorted[sorted.length - 1];
+  }
+  // Like bundletool, prefer the smallest bucket that is at least the device density
+  return sorted.find((bucket) => DENSITY_BUCKETS[bucket] >= density) ?? sorted[sorted.length - 1];
+}
+
+/**
+ * Picks the APKs of a bundletool `.apks` archive to install on a device
+ *
+ * A universal APK is used when present. Otherwise every module's master
+ * split is installed together with the best matching ABI and density
+ * splits and all language splits.
+ *
+ * @param entries - APK entry names in the archive
+ * @returns Selected entry names, base module first
+ */
+export function selectApksSplits(entries: string[], device: DeviceSpec): string[] {
+  const apks = entries.filter((entry) => entry.endsWith(".apk"));
+  const universal = apks.find((entry) => basename(entry) === "universal.apk");
+  if (universal) {
+    return [universal];
+  }
+
+  const splits = apks
+    .filter((entry) => entry.startsWith("splits/"))
+    .map(parseSplitName)
+    .filter((split): split is SplitName => split !== undefined);
+  if (splits.length === 0) {
+    const standalone = apks.filter((entry) => entry.startsWith("standalones/"));
+    if (standalone.length > 0) {
+      throw new Error("The archive only contains standalone APKs for pre-Lollipop devices; use the matching APK directly");
+    }
+    throw new Error("The archive contains no split APKs");
+  }
+
+  const byModule = new Map<string, SplitName[]>();
+  for (const split of splits) {
+    byModule.set(split.module, [...(byModule.get(split.module) ?? []), split]);
+  }
+
+  const selected: string[] = [];
+  const modules = Array.from(byModule.keys()).sort((a, b) => (a === "base" ? -1 : b === "base" ? 1 : a.localeCompare(b)));
+  for (const module of modules) {
+    const moduleSplits = byModule.get(module) ?? [];
+    const master = moduleSplits.find((split) => split.config === "master");
+    if (!master) {
+      continue;
+    }
+    selected.push(master.path);
+
+    const abiSplits = moduleSplits.filter((split) => ABI_SPLITS.includes(split.config));
+    if (abiSplits.length > 0) {
+      const preferred = device.abis.map((abi) => abi.replace(/-/g, "_")).find((abi) => abiSplits.some((split) => split.config === abi));
+      if (!preferred) {
+        throw new Error(`Module ${module} has no split for the device ABIs (${device.abis.join(", ") || "unknown"})`);
+      }
+      selected.push(abiSplits.find((split) => split.config === preferred)!.path);
+    }
+
+    const densitySplits = moduleSplits.filter((split) => DENSITY_BUCKETS[split.config] !== undefined);
+    const density = closestDensity(densitySplits.map((split) => split.config), device.density);
+    if (density) {
+      selected.push(densitySplits.find((split) => split.config === density)!.path);
+    }
+
+    // Language splits are small, so all of them are installed
+    selected.push(...moduleSplits.filter((split) => /^[a-z]{2,3}(?:_[A-Za-z0-9]+)?$/.test(split.config)
+      && split.config !== "master"
+      && !ABI_SPLITS.includes(split.config)
+      && DENSITY_BUCKETS[split.config] === undefined).map((split) => split.path));
+  }
+
+  if (selected.length === 0) {
+    throw new Error("The archive contains no master split");
+  }
+  return selected;
+}
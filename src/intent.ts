@@ -0,0 +1,217 @@
+/**
+ * Intent helpers for the ADB MCP Server
+ *
+ * Compiles a structured intent (action, data, categories, flags and typed
+ * extras) into `am start`/`startservice`/`broadcast` arguments and parses
+ * what am reports back.
+ */
+
+import { parseAmStartOutput } from "./launch";
+import { INTENT_FLAGS } from "./types";
+
+export type IntentTarget = "activity" | "service" | "foreground_service" | "broadcast";
+
+export type IntentExtraType = "string" | "int" | "long" | "bool" | "float" | "string_array" | "uri" | "component" | "null";
+
+export interface IntentExtra {
+  key: string;
+  type: IntentExtraType;
+  value?: string | number | boolean | string[];
+}
+
+export interface IntentSpec {
+  action?: string;
+  data?: string;
+  mimeType?: string;
+  categories?: string[];
+  component?: string;
+  package?: string;
+  /** Named flags without the leading dashes, e.g. "activity-new-task" */
+  flags?: string[];
+  /** Numeric Intent flags passed with -f */
+  flagsValue?: number;
+  extras?: IntentExtra[];
+}
+
+export interface IntentResult {
+  target: IntentTarget;
+  status: string;
+  /** Warning from am, e.g. when an existing task was brought to the front */
+  warning?: string;
+  /** Activity launches waited for with -W */
+  launchState?: string;
+  activity?: string;
+  totalTime?: number;
+  waitTime?: number;
+  thisTime?: number;
+  /** Broadcast result code, data and extras */
+  resultCode?: number;
+  resultData?: string;
+  resultExtras?: string;
+}
+
+const AM_COMMANDS: Record<IntentTarget, string> = {
+  activity: "start",
+  service: "startservice",
+  foreground_service: "start-foreground-service",
+  broadcast: "broadcast"
+};
+
+const EXTRA_OPTIONS: Record<Exclude<IntentExtraType, "null">, string> = {
+  string: "--es",
+  int: "--ei",
+  long: "--el",
+  bool: "--ez",
+  float: "--ef",
+  string_array: "--esa",
+  uri: "--eu",
+  component: "--ecn"
+};
+
+function extraValue(extra: IntentExtra): string {
+  const { key, type, value } = extra;
+  const invalid = () => new Error(`Extra ${key} needs a value of type ${type}, got ${JSON.stringify(value)}`);
+  switch (type) {
+    case "string":
+    case "uri":
+      if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+        throw invalid();
+      }
+      return String(value);
+    case "component":
+      if (typeof value !== "string" || !/^[\w.$]+\/[\w.$]+$/.test(value)) {
+        throw invalid();
+      }
+      return value;
+    case "bool":
+      if (typeof value === "boolean") {
+        return String(value);
+      }
+      if (value === "true" || value === "false") {
+        return value;
+      }
+      throw invalid();
+    case "int":
+    case "long": {
+      const number = typeof value === "number" ? value : typeof value === "string" && /^-?\d+$/.test(value.trim()) ? Number(value) : NaN;
+      if (!Number.isInteger(number) || (type === "int" && (number < -2147483648 || number > 2147483647))) {
+        throw invalid();
+      }
+      // Longs beyond 2^53 are passed on as written
+      return typeof value === "string" ? value.trim() : String(number);
+    }
+    case "float": {
+      const number = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+      if (!Number.isFinite(number)) {
+        throw invalid();
+      }
+      return String(number);
+    }
+    case "string_array":
+      if (!Array.isArray(value)) {
+        throw invalid();
+      }
+      // am splits the list on commas that are not escaped
+      return value.map((item) => String(item).replace(/,/g, "\\,")).join(",");
+    default:
+      throw invalid();
+  }
+}
+
+/**
+ * Builds the am arguments for an intent, unquoted
+ */
+export function buildIntentArgs(target: IntentTarget, intent: IntentSpec, options: { wait?: boolean; user?: number } = {}): string[] {
+  if (!intent.action && !intent.data && !intent.component && !intent.package) {
+    throw new Error("The intent needs at least an action, data URI, component or package");
+  }
+
+  const args = ["am", AM_COMMANDS[target]];
+  if (options.wait) {
+    if (target !== "activity") {
+      throw new Error("wait is only supported for activities");
+    }
+    args.push("-W");
+  }
+  if (options.user !== undefined) {
+    args.push("--user", String(options.user));
+  }
+
+  if (intent.action) {
+    args.push("-a", intent.action);
+  }
+  if (intent.data) {
+    args.push("-d", intent.data);
+  }
+  if (intent.mimeType) {
+    args.push("-t", intent.mimeType);
+  }
+  for (const category of intent.categories ?? []) {
+    args.push("-c", category);
+  }
+  if (intent.flagsValue !== undefined) {
+    args.push("-f", String(intent.flagsValue));
+  }
+  for (const flag of intent.flags ?? []) {
+    if (!(INTENT_FLAGS as readonly string[]).includes(flag)) {
+      throw new Error(`Unknown intent flag: ${flag}`);
+    }
+    args.push(`--${flag}`);
+  }
+  for (const extra of intent.extras ?? []) {
+    if (!extra.key) {
+      throw new Error("Intent extras need a key");
+    }
+    if (extra.type === "null") {
+      args.push("--esn", extra.key);
+    } else {
+      args.push(EXTRA_OPTIONS[extra.type], extra.key, extraValue(extra));
+    }
+  }
+  if (intent.package) {
+    args.push("-p", intent.package);
+  }
+  // The component goes last: am takes a trailing argument as the component (or data URI)
+  if (intent.component) {
+    if (!/^[\w.$]+\/[\w.$]+$/.test(intent.component)) {
+      throw new Error(`Invalid component: ${intent.component}; expected 'package/class', e.g. 'com.example/.MainActivity'`);
+    }
+    args.push("-n", intent.component);
+  }
+  return args;
+}
+
+/**
+ * Parses am output for an intent
+ *
+ * @throws When am reports an error, e.g. an intent nothing resolves to
+ */
+export function parseIntentResult(target: IntentTarget, output: string): IntentResult {
+  if (target === "activity") {
+    const launch = parseAmStartOutput(output);
+    return { target, ...launch, status: launch.status === "unknown" ? "ok" : launch.status };
+  }
+
+  const error = /^Error:\s*(.*)$/m.exec(output);
+  if (error) {
+    throw new Error(error[1].trim());
+  }
+  const result: IntentResult = { target, status: "ok" };
+  if (target === "broadcast") {
+    const completed = /Broadcast completed: result=(-?\d+)(?:, data="((?:[^"\\]|\\.)*)")?(?:, extras: (.*))?/.exec(output);
+    if (completed) {
+      result.resultCode = parseInt(completed[1], 10);
+      if (completed[2] !== undefined) {
+        result.resultData = completed[2];
+      }
+      if (completed[3] !== undefined) {
+        result.resultExtras = completed[3].trim();
+      }
+    }
+  }
+  const warning = /^Warning:\s*(.*)$/m.exec(output);
+  if (warning) {
+    result.warning = warning[1].trim();
+  }
+  return result;
+}
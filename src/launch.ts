@@ -0,0 +1,132 @@
+/**
+ * App launch helpers for the ADB MCP Server
+ *
+ * Parses `am start -W` output into startup timings, finds the resumed
+ * activity in `dumpsys activity` output and summarizes repeated launches.
+ */
+
+export interface LaunchResult {
+  /** "ok", or the failure reported by am */
+  status: string;
+  /** COLD, WARM, HOT or UNKNOWN (Android 10+) */
+  launchState?: string;
+  /** Activity that was actually shown, e.g. after a trampoline */
+  activity?: string;
+  /** Time from the launch to the first frame of the activity (ms) */
+  totalTime?: number;
+  /** Time am waited, including its own overhead (ms) */
+  waitTime?: number;
+  /** Time of the last activity in the launch (ms; older releases only) */
+  thisTime?: number;
+  /** Warning, e.g. when the activity was only brought to the front */
+  warning?: string;
+}
+
+export interface TimingSummary {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+}
+
+/**
+ * Parses `am start -W` output
+ *
+ * @throws When am reports an error, e.g. an unknown activity
+ */
+export function parseAmStartOutput(output: string): LaunchResult {
+  // "Error type 3" comes before the line with the message
+  const error = /^Error:\s*(.*)$/m.exec(output);
+  if (error) {
+    throw new Error(error[1].trim());
+  }
+
+  const value = (key: string) => new RegExp(`^\\s*${key}:\\s*(.*?)\\s*$`, "m").exec(output)?.[1];
+  const number = (key: string) => {
+    const parsed = parseInt(value(key) ?? "", 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  };
+  const result: LaunchResult = {
+    status: value("Status") ?? "unknown",
+    launchState: value("LaunchState"),
+    activity: value("Activity"),
+    totalTime: number("TotalTime"),
+    waitTime: number("WaitTime"),
+    thisTime: number("ThisTime")
+  };
+  const warning = /^Warning:\s*(.*)$/m.exec(output);
+  if (warning) {
+    result.warning = warning[1].trim();
+  }
+  return result;
+}
+
+/**
+ * Expands "com.example/.Main" to "com.example/com.example.Main"
+ */
+export function expandComponent(component: string): string {
+  const [packageName, className] = component.split("/");
+  if (className === undefined) {
+    return component;
+  }
+  return `${packageName}/${className.startsWith(".") ? packageName + className : className}`;
+}
+
+/**
+ * Resolves the activity argument of a launch to a component name
+ *
+ * Accepts "com.example/.Main", a class name ("com.example.Main") or a
+ * name relative to the package (".Main").
+ */
+export function resolveActivityComponent(packageName: string, activity: string): string {
+  const trimmed = activity.trim();
+  if (!/^[\w.$/]+$/.test(trimmed)) {
+    throw new Error(`Invalid activity name: ${activity}`);
+  }
+  if (trimmed.includes("/")) {
+    return trimmed;
+  }
+  return `${packageName}/${trimmed}`;
+}
+
+/**
+ * True when a component matches the wanted activity: a full component name,
+ * a class name, or the end of the class name ("MainActivity")
+ */
+export function activityMatches(component: string, wanted: string): boolean {
+  const actual = expandComponent(component);
+  const expected = wanted.includes("/") ? expandComponent(wanted) : wanted.trim().replace(/^\./, "");
+  if (actual === expected) {
+    return true;
+  }
+  const className = actual.split("/")[1] ?? actual;
+  return className === expected || className.endsWith(`.${expected}`) || className.endsWith(`$${expected}`);
+}
+
+/**
+ * Finds the resumed activity in `dumpsys activity activities`
+ * (mResumedActivity, topResumedActivity or ResumedActivity depending on the release)
+ */
+export function parseResumedActivity(output: string): string | undefined {
+  const match = /\b(?:mResumedActivity|topResumedActivity|ResumedActivity)[:=]\s*ActivityRecord\{\S+ \S+ ([\w.$]+\/[\w.$]+)/.exec(output);
+  return match?.[1];
+}
+
+/**
+ * Minimum, maximum, mean and median of the given timings
+ *
+ * @returns undefined when there are no values
+ */
+export function summarizeTimings(values: Array<number | undefined>): TimingSummary | undefined {
+  const sorted = values.filter((value): value is number => value !== undefined).sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+  };
+}
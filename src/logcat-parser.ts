@@ -0,0 +1,389 @@
+/**
+ * Logcat parsing for the ADB MCP Server
+ *
+ * Turns `logcat -v threadtime` output into records and extracts crash
+ * findings (Java FATAL EXCEPTION traces, native tombstone summaries and
+ * ANR reports). Pure functions only, so it can be exercised against
+ * recorded logs without a device.
+ */
+
+export type LogLevelChar = "V" | "D" | "I" | "W" | "E" | "F" | "S" | "A";
+
+export interface LogcatRecord {
+  /** "MM-DD hh:mm:ss.mmm" (or with a leading year for `-v year`) */
+  timestamp: string;
+  pid: number;
+  tid: number;
+  level: LogLevelChar;
+  tag: string;
+  message: string;
+}
+
+export interface JavaCrashFinding {
+  type: "java_crash";
+  timestamp: string;
+  package?: string;
+  /** Full process name, e.g. "com.example.app:sync" */
+  processName?: string;
+  pid: number;
+  thread?: string;
+  exception?: string;
+  message?: string;
+  causes: Array<{ exception: string; message?: string }>;
+  stackTrace: string[];
+}
+
+export interface NativeCrashFinding {
+  type: "native_crash";
+  timestamp: string;
+  package?: string;
+  processName?: string;
+  pid?: number;
+  tid?: number;
+  threadName?: string;
+  signal?: number;
+  signalName?: string;
+  code?: string;
+  faultAddress?: string;
+  abortMessage?: string;
+  fingerprint?: string;
+  tombstonePath?: string;
+  backtrace: string[];
+}
+
+export interface AnrFinding {
+  type: "anr";
+  timestamp: string;
+  package?: string;
+  component?: string;
+  pid?: number;
+  reason?: string;
+  details: string[];
+}
+
+export type LogcatFinding = JavaCrashFinding | NativeCrashFinding | AnrFinding;
+
+export interface ParsedLogcat {
+  records: LogcatRecord[];
+  findings: LogcatFinding[];
+  /** Lines that are not threadtime records (buffer headers, wrapped output) */
+  unparsedLines: number;
+}
+
+const THREADTIME_PATTERN =
+  /^((?:\d{4}-)?\d\d-\d\d\s+\d\d:\d\d:\d\d\.\d+)\s+(\d+)\s+(\d+)\s+([VDIWEFSA])\s+(.*?)\s*:(?: (.*)|$)/;
+
+/**
+ * Parses a single `-v threadtime` line, returning undefined for anything else
+ */
+export function parseLogcatLine(line: string): LogcatRecord | undefined {
+  const match = THREADTIME_PATTERN.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    timestamp: match[1].replace(/\s+/, " "),
+    pid: parseInt(match[2], 10),
+    tid: parseInt(match[3], 10),
+    level: match[4] as LogLevelChar,
+    tag: match[5].trim(),
+    message: match[6] ?? ""
+  };
+}
+
+export function parseLogcatRecords(text: string): { records: LogcatRecord[]; unparsedLines: number } {
+  const records: LogcatRecord[] = [];
+  let unparsedLines = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    const record = parseLogcatLine(line);
+    if (record) {
+      records.push(record);
+    } else {
+      unparsedLines++;
+    }
+  }
+  return { records, unparsedLines };
+}
+
+/**
+ * Strips the ":suffix" of secondary processes so findings map to a package
+ */
+function packageFromProcess(processName: string): string {
+  return processName.split(":")[0];
+}
+
+/**
+ * Splits "java.lang.IllegalStateException: message" into class and message
+ */
+function splitException(line: string): { exception: string; message?: string } {
+  const match = /^([\w$.]+)(?::\s?(.*))?$/.exec(line.trim());
+  if (!match) {
+    return { exception: line.trim() };
+  }
+  return { exception: match[1], message: match[2] };
+}
+
+/**
+ * Collects the records that continue a block started at `startIndex`:
+ * same pid, tag and level, stopping at the first record that matches
+ * `isStart` (the next block) or at anything else logged by the same process.
+ */
+function collectBlock(
+  records: LogcatRecord[],
+  startIndex: number,
+  isStart: (record: LogcatRecord) => boolean
+): { block: LogcatRecord[]; consumed: Set<number> } {
+  const first = records[startIndex];
+  const block = [first];
+  const consumed = new Set<number>([startIndex]);
+  for (let index = startIndex + 1; index < records.length; index++) {
+    const record = records[index];
+    if (record.pid !== first.pid) {
+      continue;
+    }
+    if (record.tag !== first.tag || record.level !== first.level || isStart(record)) {
+      break;
+    }
+    block.push(record);
+    consumed.add(index);
+  }
+  return { block, consumed };
+}
+
+const isJavaCrashStart = (record: LogcatRecord) =>
+  record.tag === "AndroidRuntime" && /^FATAL EXCEPTION/.test(record.message);
+
+const isNativeCrashStart = (record: LogcatRecord) =>
+  (record.tag === "DEBUG" || record.tag === "crash_dump64" || record.tag === "crash_dump32") &&
+  /^\*\*\* \*\*\* \*\*\*/.test(record.message);
+
+const isAnrStart = (record: LogcatRecord) =>
+  record.tag === "ActivityManager" && /^ANR in /.test(record.message);
+
+function parseJavaCrash(block: LogcatRecord[]): JavaCrashFinding {
+  const finding: JavaCrashFinding = {
+    type: "java_crash",
+    timestamp: block[0].timestamp,
+    pid: block[0].pid,
+    causes: [],
+    stackTrace: []
+  };
+
+  const threadMatch = /^FATAL EXCEPTION:\s*(.*)$/.exec(block[0].message);
+  finding.thread = threadMatch?.[1]?.trim() || undefined;
+
+  for (const record of block.slice(1)) {
+    const message = record.message;
+    const processMatch = /^Process:\s*([^,\s]+)(?:,\s*PID:\s*(\d+))?/.exec(message);
+    if (processMatch) {
+      finding.processName = processMatch[1];
+      finding.package = packageFromProcess(processMatch[1]);
+      if (processMatch[2]) {
+        finding.pid = parseInt(processMatch[2], 10);
+      }
+      continue;
+    }
+
+    finding.stackTrace.push(message);
+    const trimmed = message.trim();
+    if (trimmed.startsWith("at ") || trimmed.startsWith("...")) {
+      continue;
+    }
+    const causeMatch = /^Caused by:\s*(.*)$/.exec(trimmed);
+    if (causeMatch) {
+      finding.causes.push(splitException(causeMatch[1]));
+    } else if (!finding.exception) {
+      const { exception, message: exceptionMessage } = splitException(trimmed);
+      finding.exception = exception;
+      finding.message = exceptionMessage;
+    } else if (finding.causes.length === 0 && finding.message !== undefined) {
+      // Multi-line exception messages continue on the following lines
+      finding.message += `\n${trimmed}`;
+    }
+  }
+
+  return finding;
+}
+
+function parseNativeCrash(block: LogcatRecord[]): NativeCrashFinding {
+  const finding: NativeCrashFinding = {
+    type: "native_crash",
+    timestamp: block[0].timestamp,
+    backtrace: []
+  };
+
+  let inBacktrace = false;
+  for (const record of block.slice(1)) {
+    const message = record.message;
+
+    const fingerprintMatch = /^Build fingerprint:\s*'?([^']*)'?/.exec(message);
+    if (fingerprintMatch) {
+      finding.fingerprint = fingerprintMatch[1];
+      continue;
+    }
+
+    const processMatch = /^pid:\s*(\d+),\s*tid:\s*(\d+),\s*name:\s*(.*?)\s+>>>\s*(.*?)\s*<<<$/.exec(message);
+    if (processMatch) {
+      finding.pid = parseInt(processMatch[1], 10);
+      finding.tid = parseInt(processMatch[2], 10);
+      finding.threadName = processMatch[3];
+      finding.processName = processMatch[4].split(/\s+/)[0];
+      finding.package = packageFromProcess(finding.processName);
+      continue;
+    }
+
+    const signalMatch = /^signal\s+(\d+)\s+\((\w+)\),\s*code\s+(-?\d+\s*(?:\([^)]*\))?),\s*fault addr\s+(\S+)/.exec(message);
+    if (signalMatch) {
+      finding.signal = parseInt(signalMatch[1], 10);
+      finding.signalName = signalMatch[2];
+      finding.code = signalMatch[3].trim();
+      finding.faultAddress = signalMatch[4];
+      continue;
+    }
+
+    const abortMatch = /^Abort message:\s*'?(.*?)'?$/.exec(message);
+    if (abortMatch) {
+      finding.abortMessage = abortMatch[1];
+      continue;
+    }
+
+    const tombstoneMatch = /^Tombstone written to:\s*(\S+)/.exec(message);
+    if (tombstoneMatch) {
+      finding.tombstonePath = tombstoneMatch[1];
+      continue;
+    }
+
+    if (/^backtrace:/.test(message.trim())) {
+      inBacktrace = true;
+      continue;
+    }
+    if (inBacktrace) {
+      if (/^\s*#\d+\s+pc\s/.test(message)) {
+        finding.backtrace.push(message.trim());
+      } else if (finding.backtrace.length > 0) {
+        inBacktrace = false;
+      }
+    }
+  }
+
+  return finding;
+}
+
+/**
+ * Fallback for devices that only log the libc "Fatal signal" line
+ */
+function parseFatalSignal(record: LogcatRecord): NativeCrashFinding | undefined {
+  const match = /^Fatal signal (\d+) \((\w+)\)(?:, code (-?\d+(?: \([^)]*\))?))?(?:, fault addr (\S+))?.*? in tid (\d+) \(([^)]*)\), pid (\d+) \(([^)]*)\)/.exec(record.message);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    type: "native_crash",
+    timestamp: record.timestamp,
+    signal: parseInt(match[1], 10),
+    signalName: match[2],
+    code: match[3],
+    faultAddress: match[4],
+    tid: parseInt(match[5], 10),
+    threadName: match[6],
+    pid: parseInt(match[7], 10),
+    processName: match[8],
+    package: packageFromProcess(match[8]),
+    backtrace: []
+  };
+}
+
+function parseAnr(block: LogcatRecord[]): AnrFinding {
+  const finding: AnrFinding = {
+    type: "anr",
+    timestamp: block[0].timestamp,
+    details: []
+  };
+
+  const headerMatch = /^ANR in ([^\s(]+)(?:\s+\(([^)]+)\))?/.exec(block[0].message);
+  if (headerMatch) {
+    finding.package = packageFromProcess(headerMatch[1]);
+    finding.component = headerMatch[2];
+  }
+
+  for (const record of block.slice(1)) {
+    const message = record.message;
+    const pidMatch = /^PID:\s*(\d+)/.exec(message);
+    if (pidMatch) {
+      finding.pid = parseInt(pidMatch[1], 10);
+      continue;
+    }
+    const reasonMatch = /^Reason:\s*(.*)$/.exec(message);
+    if (reasonMatch) {
+      finding.reason = reasonMatch[1];
+      continue;
+    }
+    finding.details.push(message);
+  }
+
+  return finding;
+}
+
+/**
+ * Extracts crash and ANR findings from parsed records
+ */
+export function extractLogcatFindings(records: LogcatRecord[]): LogcatFinding[] {
+  const findings: LogcatFinding[] = [];
+  const consumed = new Set<number>();
+  const nativeCrashKeys = new Set<string>();
+
+  records.forEach((record, index) => {
+    if (consumed.has(index)) {
+      return;
+    }
+
+    if (isJavaCrashStart(record)) {
+      const block = collectBlock(records, index, isJavaCrashStart);
+      block.consumed.forEach((consumedIndex) => consumed.add(consumedIndex));
+      findings.push(parseJavaCrash(block.block));
+    } else if (isNativeCrashStart(record)) {
+      const block = collectBlock(records, index, isNativeCrashStart);
+      block.consumed.forEach((consumedIndex) => consumed.add(consumedIndex));
+      const finding = parseNativeCrash(block.block);
+      nativeCrashKeys.add(`${finding.pid}:${finding.tid}`);
+      findings.push(finding);
+    } else if (isAnrStart(record)) {
+      const block = collectBlock(records, index, isAnrStart);
+      block.consumed.forEach((consumedIndex) => consumed.add(consumedIndex));
+      findings.push(parseAnr(block.block));
+    } else if (record.tag === "tombstoned") {
+      // tombstoned logs the path separately from the crash_dump block
+      const tombstoneMatch = /^Tombstone written to:\s*(\S+)/.exec(record.message);
+      const pending = findings.filter((finding): finding is NativeCrashFinding =>
+        finding.type === "native_crash" && !finding.tombstonePath).pop();
+      if (tombstoneMatch && pending) {
+        pending.tombstonePath = tombstoneMatch[1];
+      }
+    }
+  });
+
+  // Only report bare "Fatal signal" lines when no tombstone block covers them
+  for (const record of records) {
+    if (record.tag !== "libc") {
+      continue;
+    }
+    const finding = parseFatalSignal(record);
+    if (finding && !nativeCrashKeys.has(`${finding.pid}:${finding.tid}`)) {
+      const position = findings.findIndex((existing) => existing.timestamp > finding.timestamp);
+      findings.splice(position === -1 ? findings.length : position, 0, finding);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Parses logcat threadtime output into records and findings
+ */
+export function parseLogcat(text: string): ParsedLogcat {
+  const { records, unparsedLines } = parseLogcatRecords(text);
+  return { records, findings: extractLogcatFindings(records), unparsedLines };
+}
@@ -0,0 +1,321 @@
+/**
+ * Long-lived logcat capture for the ADB MCP Server
+ *
+ * A session keeps one `adb logcat` child process running and stores its
+ * output in a bounded buffer. Every line gets an increasing sequence number
+ * so callers can poll with a cursor and only receive what is new.
+ */
+
+import { spawn, ChildProcess } from "child_process";
+
+export type LogcatBuffer = "main" | "system" | "crash" | "events" | "radio" | "all";
+export type LogcatPriority = "V" | "D" | "I" | "W" | "E" | "F";
+
+export interface LogcatSessionOptions {
+  buffers?: LogcatBuffer[];
+  priority?: LogcatPriority;
+  tags?: string[];
+  pid?: number;
+  packageName?: string;
+  /** Number of already-buffered lines to include when the session starts */
+  backlog?: number;
+  /** Device time ("MM-DD hh:mm:ss.mmm") to start from when there is no backlog */
+  since?: string;
+  /** Maximum number of lines kept in memory */
+  maxLines?: number;
+}
+
+export interface LogcatLine {
+  seq: number;
+  line: string;
+}
+
+export interface LogcatPollResult {
+  sessionId: string;
+  lines: string[];
+  /** Pass this back as `cursor` to continue where this poll stopped */
+  nextCursor: number;
+  /** Lines that fell out of the buffer before they could be read */
+  dropped: number;
+  hasMore: boolean;
+  running: boolean;
+}
+
+export interface LogcatSessionInfo {
+  sessionId: string;
+  device?: string;
+  buffers: LogcatBuffer[];
+  priority: LogcatPriority;
+  tags: string[];
+  pid?: number;
+  packageName?: string;
+  running: boolean;
+  exitCode?: number | null;
+  startedAt: string;
+  totalLines: number;
+  bufferedLines: number;
+  lastError?: string;
+}
+
+const THREADTIME_PID_PATTERN = /^\d\d-\d\d\s+\d\d:\d\d:\d\d\.\d+\s+(\d+)\s+\d+\s+[VDIWEFS]\s/;
+const DEFAULT_MAX_LINES = 5000;
+const PID_REFRESH_INTERVAL_MS = 2000;
+// "Start proc 4477:com.example.app/u0a190 for ..." (Android 7+) or
+// "Start proc com.example.app for activity ...: pid=4477 uid=..." (older releases)
+const START_PROC_PATTERNS = [
+  /\bStart proc (\d+):([\w.]+)(?::[\w.]+)?\//,
+  /\bStart proc ([\w.]+)(?::[\w.]+)? for .*?: pid=(\d+)/
+];
+
+/**
+ * Builds the logcat arguments (after `adb [-s serial]`) for a session
+ */
+export function buildLogcatArgs(options: LogcatSessionOptions): string[] {
+  const args = ["logcat", "-v", "threadtime"];
+  for (const buffer of options.buffers ?? []) {
+    args.push("-b", buffer);
+  }
+  if (options.backlog && options.backlog > 0) {
+    args.push("-T", String(options.backlog));
+  } else if (options.since) {
+    args.push("-T", options.since);
+  }
+  if (options.pid !== undefined) {
+    args.push(`--pid=${options.pid}`);
+  }
+
+  const priority = options.priority ?? "V";
+  const tags = options.tags ?? [];
+  // A package session learns the PIDs of new processes from ActivityManager's
+  // "Start proc" lines; they come from system_server, so they are not shown
+  const processStarts = options.packageName && !tags.some((tag) => tag.split(":")[0] === "ActivityManager")
+    ? ["ActivityManager:I"]
+    : [];
+  if (tags.length > 0) {
+    // Tags without an explicit priority use the session priority, everything else is silenced
+    args.push(...tags.map((tag) => (tag.includes(":") ? tag : `${tag}:${priority}`)), ...processStarts, "*:S");
+  } else if (priority !== "V") {
+    args.push(...processStarts, `*:${priority}`);
+  }
+  return args;
+}
+
+export class LogcatSession {
+  readonly id: string;
+  readonly device?: string;
+  readonly options: LogcatSessionOptions;
+  readonly startedAt = new Date();
+
+  private child?: ChildProcess;
+  private lines: LogcatLine[] = [];
+  private nextSeq = 1;
+  private partial = "";
+  private running = false;
+  private exitCode?: number | null;
+  private lastError?: string;
+  private packagePids = new Set<string>();
+  /** PIDs seen starting while a refresh is in flight */
+  private startedPids = new Set<string>();
+  private pidTimer?: NodeJS.Timeout;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    id: string,
+    device: string | undefined,
+    options: LogcatSessionOptions,
+    private readonly resolvePackagePids?: (packageName: string) => Promise<string[]>
+  ) {
+    this.id = id;
+    this.device = device;
+    this.options = options;
+  }
+
+  /**
+   * Spawns the logcat process
+   *
+   * @param command - adb executable
+   * @param args - Full argument list, including device selection
+   */
+  async start(command: string, args: string[]): Promise<void> {
+    if (this.options.packageName && this.resolvePackagePids) {
+      await this.refreshPackagePids();
+      this.pidTimer = setInterval(() => {
+        void this.refreshPackagePids();
+      }, PID_REFRESH_INTERVAL_MS);
+    }
+
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    this.child = child;
+    this.running = true;
+
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.on("data", (chunk: string) => this.handleOutput(chunk));
+    child.stderr?.setEncoding("utf8");
+    child.stderr?.on("data", (chunk: string) => {
+      this.lastError = chunk.trim() || this.lastError;
+    });
+    child.on("error", (error) => {
+      this.lastError = error.message;
+      this.handleExit(null);
+    });
+    child.on("close", (code) => this.handleExit(code));
+  }
+
+  stop(): void {
+    if (this.pidTimer) {
+      clearInterval(this.pidTimer);
+      this.pidTimer = undefined;
+    }
+    if (this.child && this.running) {
+      this.child.kill();
+    }
+    this.running = false;
+  }
+
+  /**
+   * Returns up to `maxLines` lines with a sequence number above `cursor`
+   */
+  poll(cursor = 0, maxLines = 200): LogcatPollResult {
+    const oldestSeq = this.lines.length > 0 ? this.lines[0].seq : this.nextSeq;
+    const dropped = Math.max(0, oldestSeq - cursor - 1);
+    const available = this.lines.filter((entry) => entry.seq > cursor);
+    const selected = available.slice(0, maxLines);
+    const nextCursor = selected.length > 0 ? selected[selected.length - 1].seq : Math.max(cursor, oldestSeq - 1);
+
+    return {
+      sessionId: this.id,
+      lines: selected.map((entry) => entry.line),
+      nextCursor,
+      dropped,
+      hasMore: available.length > selected.length,
+      running: this.running
+    };
+  }
+
+  /**
+   * Most recent lines, regardless of cursor
+   */
+  tail(count: number): LogcatLine[] {
+    return this.lines.slice(-count);
+  }
+
+  get latestCursor(): number {
+    return this.nextSeq - 1;
+  }
+
+  /**
+   * Registers a callback fired whenever new lines arrive or the session ends
+   *
+   * @returns Function that removes the listener
+   */
+  onUpdate(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  info(): LogcatSessionInfo {
+    return {
+      sessionId: this.id,
+      device: this.device,
+      buffers: this.options.buffers ?? [],
+      priority: this.options.priority ?? "V",
+      tags: this.options.tags ?? [],
+      pid: this.options.pid,
+      packageName: this.options.packageName,
+      running: this.running,
+      exitCode: this.exitCode,
+      startedAt: this.startedAt.toISOString(),
+      totalLines: this.nextSeq - 1,
+      bufferedLines: this.lines.length,
+      lastError: this.lastError
+    };
+  }
+
+  private async refreshPackagePids(): Promise<void> {
+    if (!this.options.packageName || !this.resolvePackagePids) {
+      return;
+    }
+    try {
+      this.startedPids.clear();
+      const pids = await this.resolvePackagePids(this.options.packageName);
+      this.packagePids = new Set([...pids, ...this.startedPids]);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Picks up the PID of a package process as soon as ActivityManager reports
+   * its start, so a crash right after launch is not dropped while waiting for
+   * the next refresh
+   */
+  private trackProcessStart(line: string): void {
+    const packageName = this.options.packageName;
+    if (!packageName || !line.includes("Start proc ")) {
+      return;
+    }
+    const modern = START_PROC_PATTERNS[0].exec(line);
+    const legacy = modern ? undefined : START_PROC_PATTERNS[1].exec(line);
+    const [pid, processPackage] = modern ? [modern[1], modern[2]] : legacy ? [legacy[2], legacy[1]] : [];
+    if (pid && processPackage === packageName) {
+      this.packagePids.add(pid);
+      this.startedPids.add(pid);
+    }
+  }
+
+  private accepts(line: string): boolean {
+    if (!this.options.packageName) {
+      return true;
+    }
+    const match = THREADTIME_PID_PATTERN.exec(line);
+    // Continuation and buffer header lines carry no pid; keep them only while
+    // the package is running so crash traces are not cut apart
+    return match ? this.packagePids.has(match[1]) : this.packagePids.size > 0;
+  }
+
+  private handleOutput(chunk: string): void {
+    const text = this.partial + chunk;
+    const parts = text.split(/\r?\n/);
+    this.partial = parts.pop() ?? "";
+
+    let added = false;
+    for (const line of parts) {
+      this.trackProcessStart(line);
+      if (line.length === 0 || !this.accepts(line)) {
+        continue;
+      }
+      this.lines.push({ seq: this.nextSeq++, line });
+      added = true;
+    }
+
+    const maxLines = this.options.maxLines ?? DEFAULT_MAX_LINES;
+    if (this.lines.length > maxLines) {
+      this.lines.splice(0, this.lines.length - maxLines);
+    }
+    if (added) {
+      this.notify();
+    }
+  }
+
+  private handleExit(code: number | null): void {
+    if (!this.running && this.exitCode !== undefined) {
+      return;
+    }
+    if (this.partial) {
+      this.handleOutput("\n");
+    }
+    this.running = false;
+    this.exitCode = code;
+    if (this.pidTimer) {
+      clearInterval(this.pidTimer);
+      this.pidTimer = undefined;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Package information parsing for the ADB MCP Server
+ *
+ * Turns `pm list packages`, `pm path` and `dumpsys package <pkg>` output
+ * into structured package and app descriptions.
+ */
+
+export interface PackageEntry {
+  packageName: string;
+  /** Base APK (`-f`) */
+  apkPath?: string;
+  versionCode?: number;
+  uid?: number;
+  /** Package that installed the app (`-i`), "null" when installed over adb */
+  installer?: string;
+}
+
+export interface PermissionState {
+  name: string;
+  granted: boolean;
+  /** Permission flags such as USER_SET or POLICY_FIXED */
+  flags?: string[];
+}
+
+/** Components with intent filters, as "package/.Class" names usable with `am start -n` */
+export interface AppComponents {
+  activities: string[];
+  services: string[];
+  receivers: string[];
+  providers: string[];
+}
+
+/**
+ * Values of PackageManager.COMPONENT_ENABLED_STATE_*
+ */
+export type EnabledState = "default" | "enabled" | "disabled" | "disabled_user" | "disabled_until_used";
+
+export interface AppInfo {
+  packageName: string;
+  versionName?: string;
+  versionCode?: number;
+  minSdk?: number;
+  targetSdk?: number;
+  uid?: number;
+  installer?: string;
+  /** Install and update times as printed by the device (local time) */
+  firstInstallTime?: string;
+  lastUpdateTime?: string;
+  codePath?: string;
+  apkPaths: string[];
+  enabled?: boolean;
+  enabledState?: EnabledState;
+  installed?: boolean;
+  stopped?: boolean;
+  system?: boolean;
+  debuggable?: boolean;
+  /** ApplicationInfo flags, e.g. HAS_CODE, ALLOW_BACKUP, DEBUGGABLE */
+  flags: string[];
+  requestedPermissions: string[];
+  /** Install-time and runtime permissions that are granted */
+  grantedPermissions: string[];
+  runtimePermissions: PermissionState[];
+  components: AppComponents;
+  launcherActivity?: string;
+}
+
+const ENABLED_STATES: Record<string, EnabledState> = {
+  "0": "default",
+  "1": "enabled",
+  "2": "disabled",
+  "3": "disabled_user",
+  "4": "disabled_until_used"
+};
+
+function toInteger(value: string | undefined): number | undefined {
+  const number = value !== undefined ? parseInt(value, 10) : NaN;
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Parses `pm list packages` with any of the `-f`, `-i`, `-U` and
+ * `--show-versioncode` columns
+ */
+export function parsePackageList(output: string): PackageEntry[] {
+  const packages: PackageEntry[] = [];
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line.startsWith("package:")) {
+      continue;
+    }
+
+    const [head, ...columns] = line.slice("package:".length).split(/\s+/);
+    // With -f the APK path comes first: package:/data/app/.../base.apk=com.example.app
+    const separator = head.lastIndexOf("=");
+    const entry: PackageEntry = { packageName: separator >= 0 ? head.slice(separator + 1) : head };
+    if (separator >= 0) {
+      entry.apkPath = head.slice(0, separator);
+    }
+    for (const column of columns) {
+      const match = /^(versionCode|uid|installer)[:=](.*)$/.exec(column);
+      if (!match) {
+        continue;
+      }
+      if (match[1] === "installer") {
+        entry.installer = match[2];
+      } else {
+        // Apps sharing a UID list several, e.g. "uid:10123,1000"
+        entry[match[1] as "versionCode" | "uid"] = toInteger(match[2]);
+      }
+    }
+    packages.push(entry);
+  }
+  return packages.sort((a, b) => a.packageName.localeCompare(b.packageName));
+}
+
+/**
+ * Parses `pm path <pkg>` into the base and split APK paths
+ */
+export function parsePackagePaths(output: string): string[] {
+  return output.split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("package:"))
+    .map((line) => line.slice("package:".length));
+}
+
+/**
+ * Lines indented below the line at `index`
+ */
+function childLines(lines: string[], index: number): string[] {
+  const parentIndent = indentation(lines[index]);
+  const children: string[] = [];
+  for (let i = index + 1; i < lines.length; i++) {
+    if (lines[i].trim() && indentation(lines[i]) <= parentIndent) {
+      break;
+    }
+    if (lines[i].trim()) {
+      children.push(lines[i]);
+    }
+  }
+  return children;
+}
+
+function findLine(lines: string[], pattern: RegExp, from = 0): number {
+  for (let i = from; i < lines.length; i++) {
+    if (pattern.test(lines[i])) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses "name: granted=true, flags=[ USER_SET|USER_SENSITIVE_WHEN_GRANTED ]" lines
+ */
+function parsePermissionLines(lines: string[]): PermissionState[] {
+  const permissions: PermissionState[] = [];
+  for (const line of lines) {
+    const match = /^\s*([^\s:]+):\s*granted=(true|false)(?:,\s*flags=\[\s*(.*?)\s*\])?/.exec(line);
+    if (match) {
+      const flags = match[3] ? match[3].split(/[|\s]+/).filter(Boolean) : [];
+      permissions.push({ name: match[1], granted: match[2] === "true", ...(flags.length > 0 ? { flags } : {}) });
+    }
+  }
+  return permissions;
+}
+
+function parseFlagList(value: string | undefined): string[] {
+  return value ? value.split(/\s+/).filter(Boolean) : [];
+}
+
+const RESOLVER_TABLES: Record<string, keyof AppComponents> = {
+  "Activity Resolver Table:": "activities",
+  "Receiver Resolver Table:": "receivers",
+  "Service Resolver Table:": "services",
+  "Provider Resolver Table:": "providers"
+};
+
+/**
+ * Collects components from the resolver tables and finds the activity
+ * filtering for MAIN/LAUNCHER
+ */
+function parseResolverTables(lines: string[], packageName: string): { components: AppComponents; launcherActivity?: string } {
+  const components: AppComponents = { activities: [], services: [], receivers: [], providers: [] };
+  const componentPattern = new RegExp(`^\\s*[0-9a-f]+\\s+(${packageName.replace(/\./g, "\\.")}/\\S+)`);
+  let table: keyof AppComponents | undefined;
+  let action: string | undefined;
+  let component: string | undefined;
+  let launcherActivity: string | undefined;
+
+  for (const line of lines) {
+    if (indentation(line) === 0 && line.trim()) {
+      table = RESOLVER_TABLES[line.trim()];
+      if (!table && /^(?:Registered ContentProviders|ContentProvider Authorities):/.test(line)) {
+        table = "providers";
+      }
+      continue;
+    }
+    if (!table) {
+      continue;
+    }
+
+    const actionMatch = /^\s+([\w.]+):\s*$/.exec(line);
+    if (actionMatch && !line.includes("/")) {
+      action = actionMatch[1];
+      component = undefined;
+      continue;
+    }
+    const match = componentPattern.exec(line) ?? (table === "providers" ? /^\s+(\S+\/\S+?):?\s*$/.exec(line) : null);
+    if (match) {
+      component = match[1];
+      if (!components[table].includes(component)) {
+        components[table].push(component);
+      }
+      continue;
+    }
+    if (
+      table === "activities" && !launcherActivity && component && action === "android.intent.action.MAIN" &&
+      /Category: "android\.intent\.category\.LAUNCHER"/.test(line)
+    ) {
+      launcherActivity = component;
+    }
+  }
+  components.providers = components.providers.filter((name) => name.startsWith(`${packageName}/`));
+  return { components, launcherActivity };
+}
+
+/**
+ * Parses `dumpsys package <pkg>`
+ *
+ * @param userId - User whose install state and runtime permissions are read (default: 0)
+ * @throws When the output has no entry for the package
+ */
+export function parseDumpsysPackage(output: string, packageName: string, userId = 0): AppInfo {
+  const lines = output.split(/\r?\n/);
+  // "Hidden system packages:" repeats the entry of updated system apps; the first one is current
+  const start = findLine(lines, new RegExp(`^\\s*Package \\[${packageName.replace(/\./g, "\\.")}\\]`));
+  if (start < 0) {
+    throw new Error(`Package ${packageName} is not installed`);
+  }
+  const block = childLines(lines, start);
+  const text = block.join("\n");
+  const value = (key: string) => new RegExp(`^\\s*${key}=(.*?)\\s*$`, "m").exec(text)?.[1];
+  const number = (key: string) => toInteger(new RegExp(`\\b${key}=(\\d+)`).exec(text)?.[1]);
+
+  const flags = parseFlagList(/^\s*flags=\[\s*(.*?)\s*\]/m.exec(text)?.[1]);
+  const privateFlags = parseFlagList(/^\s*privateFlags=\[\s*(.*?)\s*\]/m.exec(text)?.[1]);
+
+  const requestedIndex = findLine(block, /^\s*requested permissions:\s*$/);
+  const requestedPermissions = requestedIndex >= 0
+    ? childLines(block, requestedIndex).map((line) => line.trim().split(/[:\s]/)[0])
+    : [];
+  const installIndex = findLine(block, /^\s*install permissions:\s*$/);
+  const installPermissions = installIndex >= 0 ? parsePermissionLines(childLines(block, installIndex)) : [];
+
+  // Install state and runtime permissions are per user
+  let userIndex = findLine(block, new RegExp(`^\\s*User ${userId}:`));
+  if (userIndex < 0) {
+    userIndex = findLine(block, /^\s*User \d+:/);
+  }
+  const userLine = userIndex >= 0 ? block[userIndex] : "";
+  const userLines = userIndex >= 0 ? childLines(block, userIndex) : [];
+  const runtimeIndex = findLine(userLines, /^\s*runtime permissions:\s*$/);
+  // Before Android 6 there are no runtime permissions; older releases list them outside the user section
+  const runtimeLines = runtimeIndex >= 0
+    ? childLines(userLines, runtimeIndex)
+    : (() => {
+      const index = findLine(block, /^\s*runtime permissions:\s*$/);
+      return index >= 0 ? childLines(block, index) : [];
+    })();
+  const runtimePermissions = parsePermissionLines(runtimeLines);
+
+  const enabledState = ENABLED_STATES[/\benabled=(\d)/.exec(userLine)?.[1] ?? ""];
+  const userFlag = (key: string) => {
+    const match = new RegExp(`\\b${key}=(true|false)`).exec(userLine);
+    return match ? match[1] === "true" : undefined;
+  };
+
+  const { components, launcherActivity } = parseResolverTables(lines.slice(0, start), packageName);
+  const grantedPermissions = [...installPermissions, ...runtimePermissions]
+    .filter((permission) => permission.granted)
+    .map((permission) => permission.name);
+
+  return {
+    packageName,
+    versionName: value("versionName"),
+    versionCode: number("versionCode"),
+    minSdk: number("minSdk"),
+    targetSdk: number("targetSdk"),
+    // Android 13 prints appId, older releases userId
+    uid: toInteger(/^\s*(?:userId|appId)=(\d+)/m.exec(text)?.[1]),
+    installer: value("installerPackageName"),
+    firstInstallTime: value("firstInstallTime"),
+    lastUpdateTime: value("lastUpdateTime"),
+    codePath: value("codePath"),
+    apkPaths: [],
+    enabled: enabledState !== undefined ? enabledState === "default" || enabledState === "enabled" : undefined,
+    enabledState,
+    installed: userFlag("installed"),
+    stopped: userFlag("stopped"),
+    system: flags.includes("SYSTEM"),
+    debuggable: flags.includes("DEBUGGABLE"),
+    flags: [...flags, ...privateFlags.filter((flag) => !flags.includes(flag))],
+    requestedPermissions: Array.from(new Set(requestedPermissions)),
+    grantedPermissions: Array.from(new Set(grantedPermissions)),
+    runtimePermissions,
+    components,
+    launcherActivity
+  };
+}
+
+/**
+ * Parses `cmd package resolve-activity --brief`: the component is on the last line
+ *
+ * @returns undefined when no activity matches
+ */
+export function parseResolvedActivity(output: string): string | undefined {
+  const lines = output.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const last = lines[lines.length - 1];
+  return last && /^[\w.]+\/[\w.$]+$/.test(last) ? last : undefined;
+}
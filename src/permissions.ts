@@ -0,0 +1,163 @@
+/**
+ * Permission and app-op helpers for the ADB MCP Server
+ *
+ * Parses `appops get` output and plans the `pm grant`/`pm revoke`/flag
+ * changes that reset an app's runtime permissions or bring them back to a
+ * snapshot.
+ */
+
+import { PermissionState } from "./packages";
+
+export type AppOpMode = "allow" | "ignore" | "deny" | "default" | "foreground";
+
+export const APP_OP_MODES: AppOpMode[] = ["allow", "ignore", "deny", "default", "foreground"];
+
+export interface AppOps {
+  /** Package modes by op name, e.g. CAMERA → "ignore" */
+  ops: Record<string, string>;
+  /** Modes set for the app's UID, which take precedence on recent releases */
+  uidModes: Record<string, string>;
+}
+
+/**
+ * Permission state of an app, as returned by app_permissions and accepted
+ * by app_permissions_restore
+ */
+export interface PermissionSnapshot {
+  packageName: string;
+  user?: number;
+  runtimePermissions: PermissionState[];
+  appOps: Record<string, string>;
+  /** Modes set for the app's UID (`appops set --uid`); missing in older snapshots */
+  uidAppOps?: Record<string, string>;
+}
+
+export interface PermissionChange {
+  permission: string;
+  action: "grant" | "revoke" | "set-flags" | "clear-flags";
+  /** pm flag names for set-flags/clear-flags, e.g. "user-set" */
+  flags?: string[];
+}
+
+/** Flags a user (or a test) can change, as shown by dumpsys and as pm expects them */
+const USER_FLAGS: Record<string, string> = {
+  USER_SET: "user-set",
+  USER_FIXED: "user-fixed"
+};
+
+/** Flags of permissions that cannot be changed from the shell */
+const FIXED_FLAGS = ["SYSTEM_FIXED", "POLICY_FIXED"];
+
+const DEFAULT_GRANT_FLAGS = ["GRANTED_BY_DEFAULT", "GRANTED_BY_ROLE"];
+
+/**
+ * Checks a permission name so it can be passed to pm unquoted
+ */
+export function validatePermissionName(permission: string): string {
+  const trimmed = permission.trim();
+  if (!/^[A-Za-z][\w.]*$/.test(trimmed)) {
+    throw new Error(`Invalid permission name: ${permission}`);
+  }
+  return trimmed;
+}
+
+/**
+ * Checks an app-op name ("CAMERA", "android:camera" or a number)
+ */
+export function validateAppOpName(op: string): string {
+  const trimmed = op.trim();
+  if (!/^[\w:.]+$/.test(trimmed)) {
+    throw new Error(`Invalid app op: ${op}`);
+  }
+  return trimmed;
+}
+
+/**
+ * Parses `appops get <pkg>`; access times and per-attribution details are skipped
+ */
+export function parseAppOps(output: string): AppOps {
+  const appOps: AppOps = { ops: {}, uidModes: {} };
+  for (const line of output.split(/\r?\n/)) {
+    const uidMatch = /^Uid mode:\s*(\w+):\s*(\w+)/.exec(line);
+    if (uidMatch) {
+      appOps.uidModes[uidMatch[1]] = uidMatch[2];
+      continue;
+    }
+    const match = /^(\w+):\s*(\w+)\s*(?:;|$)/.exec(line);
+    if (match) {
+      appOps.ops[match[1]] = match[2];
+    }
+  }
+  return appOps;
+}
+
+function hasAny(permission: PermissionState | undefined, flags: string[]): boolean {
+  return flags.some((flag) => permission?.flags?.includes(flag));
+}
+
+function userFlags(permission: PermissionState | undefined): string[] {
+  return Object.keys(USER_FLAGS).filter((flag) => permission?.flags?.includes(flag));
+}
+
+/**
+ * Changes that bring runtime permissions back to their defaults: user
+ * choices are cleared, permissions granted by default stay granted and the
+ * rest are revoked. Fixed permissions are left alone.
+ */
+export function planPermissionReset(current: PermissionState[]): PermissionChange[] {
+  const changes: PermissionChange[] = [];
+  for (const permission of current) {
+    if (hasAny(permission, FIXED_FLAGS)) {
+      continue;
+    }
+    const flags = userFlags(permission);
+    if (flags.length > 0) {
+      changes.push({ permission: permission.name, action: "clear-flags", flags: flags.map((flag) => USER_FLAGS[flag]) });
+    }
+    const grantedByDefault = hasAny(permission, DEFAULT_GRANT_FLAGS);
+    if (permission.granted !== grantedByDefault) {
+      changes.push({ permission: permission.name, action: grantedByDefault ? "grant" : "revoke" });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Changes that bring runtime permissions to the grant state and user flags
+ * of a snapshot. Permissions missing from the snapshot are not touched.
+ */
+export function planPermissionRestore(current: PermissionState[], snapshot: PermissionState[]): PermissionChange[] {
+  const changes: PermissionChange[] = [];
+  for (const wanted of snapshot) {
+    const permission = current.find((candidate) => candidate.name === wanted.name);
+    if (hasAny(permission, FIXED_FLAGS)) {
+      continue;
+    }
+    const currentFlags = userFlags(permission);
+    const wantedFlags = userFlags(wanted);
+    // Clear flags first: a user-fixed denial would otherwise survive the grant
+    const clear = currentFlags.filter((flag) => !wantedFlags.includes(flag));
+    if (clear.length > 0) {
+      changes.push({ permission: wanted.name, action: "clear-flags", flags: clear.map((flag) => USER_FLAGS[flag]) });
+    }
+    if (permission ? permission.granted !== wanted.granted : wanted.granted) {
+      changes.push({ permission: wanted.name, action: wanted.granted ? "grant" : "revoke" });
+    }
+    const set = wantedFlags.filter((flag) => !currentFlags.includes(flag));
+    if (set.length > 0) {
+      changes.push({ permission: wanted.name, action: "set-flags", flags: set.map((flag) => USER_FLAGS[flag]) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * `pm` arguments carrying out a permission change
+ */
+export function buildPermissionCommand(packageName: string, change: PermissionChange, user?: number): string[] {
+  const userArgs = user !== undefined ? ["--user", String(user)] : [];
+  const action = change.action === "set-flags" ? "set-permission-flags"
+    : change.action === "clear-flags" ? "clear-permission-flags"
+    : change.action;
+  return ["pm", action, ...userArgs, packageName, change.permission, ...(change.flags ?? [])];
+}
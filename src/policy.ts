@@ -0,0 +1,510 @@
+/**
+ * Safety policy for the ADB MCP Server
+ *
+ * Decides whether a free-form command (adb_shell, am, pm) may run. Rules
+ * match either a regular expression against the command text or a token
+ * prefix against the tokenized command, optionally limited to some tools
+ * and devices. Configured rules are checked first, then the read-only
+ * allowlist (when enabled), then the built-in rules; anything unmatched is
+ * allowed. Commands are judged by what actually runs, so paths, env
+ * assignments, wrappers such as toybox, env or timeout and shell keywords
+ * are stripped first, and command substitutions, subshells and `sh -c` or
+ * `eval` arguments are checked as commands of their own. A segment whose
+ * command is only known when it runs (`$CMD`, `sh script.sh`) needs
+ * confirmation.
+ */
+
+import { randomBytes } from "crypto";
+import { extractCommandSubstitutions, splitCommandArguments, splitShellSegments } from "./shell";
+
+export type PolicyAction = "allow" | "deny" | "confirm";
+
+export interface PolicyRule {
+  action: PolicyAction;
+  /** Regular expression tested against the command text of each segment */
+  pattern?: string;
+  /** Token prefix, e.g. ["pm", "uninstall"]; "*" matches any single token */
+  tokens?: string[];
+  /** Tools the rule applies to (default: all guarded tools) */
+  tools?: string[];
+  /** Device serials the rule applies to; "*" wildcards are allowed (default: all) */
+  devices?: string[];
+  /** Explanation returned to the caller when the rule blocks a command */
+  reason?: string;
+}
+
+export interface PolicyConfig {
+  /** Only allow commands known not to change device state */
+  readOnly: boolean;
+  /** Include the built-in deny/confirm rules after the configured ones */
+  defaultRules: boolean;
+  rules: PolicyRule[];
+}
+
+export interface PolicyRequest {
+  tool: string;
+  device?: string;
+  /** Command text as the caller provided it */
+  command: string;
+  /** Pre-tokenized command (am/pm tools); adb_shell commands are tokenized here */
+  tokens?: string[];
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  reason?: string;
+  /** The segment of a compound shell command that decided the outcome */
+  segment?: string;
+  rule?: PolicyRule;
+}
+
+export const DEFAULT_POLICY: PolicyConfig = {
+  readOnly: false,
+  defaultRules: true,
+  rules: []
+};
+
+// Any flag token of the rm command may carry -r, e.g. `rm -f -r dir` or `rm dir -rf`
+const RECURSIVE_RM_PATTERN = "^rm\\s(?=(?:.*\\s)?(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)(?:\\s|$))";
+// "/", "/sdcard/", "/data/*", "/storage/emulated/0/." ...
+const TOP_LEVEL_PATH_PATTERN = "/(?:(?:sdcard|storage(?:/emulated(?:/0)?)?|data|system|vendor|product)/?)?(?:\\*|\\.)?(?:\\s|$)";
+
+/**
+ * Built-in rules guarding against the most destructive commands
+ */
+export const BUILT_IN_RULES: PolicyRule[] = [
+  {
+    action: "deny",
+    pattern: `${RECURSIVE_RM_PATTERN}(?:.*\\s)?${TOP_LEVEL_PATH_PATTERN}`,
+    reason: "Recursive delete of a top-level storage or system directory"
+  },
+  { action: "deny", tokens: ["dd"], reason: "Raw block device writes" },
+  { action: "deny", pattern: "^(?:mkfs\\S*|make_ext4fs|newfs_msdos|sgdisk|wipe)\\b", reason: "Formatting or wiping storage" },
+  { action: "confirm", tokens: ["reboot"], reason: "Reboots the device" },
+  { action: "confirm", tokens: ["svc", "power", "reboot"], reason: "Reboots the device" },
+  { action: "confirm", tokens: ["svc", "power", "shutdown"], reason: "Shuts the device down" },
+  { action: "confirm", tokens: ["setprop"], reason: "Changes system properties" },
+  { action: "confirm", pattern: RECURSIVE_RM_PATTERN, reason: "Recursive delete" },
+  { action: "confirm", tokens: ["pm", "uninstall"], reason: "Uninstalls a package" },
+  { action: "confirm", tokens: ["cmd", "package", "uninstall"], reason: "Uninstalls a package" },
+  { action: "confirm", tokens: ["pm", "clear"], reason: "Deletes all data of a package" },
+  { action: "confirm", pattern: "^(?:pm|cmd\\s+package)\\s+(?:disable|disable-user|hide|suspend)\\b", reason: "Disables a package" },
+  { action: "confirm", tokens: ["settings", "put"], reason: "Changes device settings" },
+  { action: "confirm", tokens: ["settings", "delete"], reason: "Deletes device settings" },
+  { action: "confirm", tokens: ["settings", "reset"], reason: "Resets device settings" },
+  { action: "confirm", pattern: "^cmd\\s+settings\\s+(?:put|delete|reset)\\b", reason: "Changes device settings" },
+  { action: "confirm", pattern: "^am\\s+broadcast\\b.*android\\.intent\\.action\\.MASTER_CLEAR", reason: "Factory reset" },
+  { action: "confirm", tokens: ["recovery"], reason: "Reboots into recovery" }
+];
+
+/**
+ * Tools refused outright in read-only mode because they always write, or
+ * drive the UI, which can do anything a user can
+ */
+export const READ_ONLY_BLOCKED_TOOLS = [
+  "adb_install", "adb_push", "adb_push_dir", "app_data_write", "app_prefs_set",
+  "app_permissions_set", "app_permissions_reset", "app_permissions_restore",
+  "adb_tap", "adb_swipe", "adb_gesture_path", "adb_keyevent", "adb_input_text", "element_action",
+  "screenrecord_start", "screenrecord_stop"
+];
+
+/**
+ * Read-only commands, by first token. `true` allows any arguments, a list
+ * restricts the second token to the given subcommands.
+ */
+const READ_ONLY_COMMANDS: Record<string, true | string[]> = {
+  ls: true, cat: true, head: true, tail: true, grep: true, wc: true, stat: true, file: true,
+  echo: true, printf: true, date: true, uptime: true, uname: true, id: true, whoami: true,
+  getprop: true, dumpsys: true, ps: true, top: true, df: true, du: true, free: true, pidof: true,
+  which: true, printenv: true, md5sum: true, sha1sum: true, sha256sum: true, logcat: true,
+  pm: ["list", "path", "dump", "get-install-location", "get-max-users", "get-app-links", "has-feature"],
+  am: ["stack", "get-current-user", "get-config", "get-standby-bucket"],
+  cmd: ["package", "settings"],
+  settings: ["get", "list"],
+  wm: ["size", "density"]
+};
+
+/**
+ * Subcommands of multi-level commands that still write when a read-only
+ * first level matched (e.g. `cmd package list` is fine, `cmd package install` is not)
+ */
+const READ_ONLY_THIRD_TOKEN: Record<string, string[]> = {
+  "am stack": ["list", "info"],
+  "cmd settings": ["get", "list"],
+  "cmd package": ["list", "path", "dump", "resolve-activity", "query-activities", "query-services", "query-receivers", "has-feature"]
+};
+
+/**
+ * dumpsys arguments that change state, e.g. `dumpsys battery set level 5`
+ */
+const DUMPSYS_WRITE_ARGUMENTS = ["set", "unplug", "reset", "force-idle", "unforce", "step"];
+
+interface CommandWrapper {
+  /** Multi-call binaries take the command name right away */
+  noOptions?: boolean;
+  /** Options whose value is the next token, e.g. `nice -n 5` */
+  valueOptions?: string[];
+  /** Operands between the options and the command, e.g. the duration of timeout */
+  operands?: number;
+}
+
+/**
+ * Multi-call binaries and wrappers that run the command named after them
+ */
+const COMMAND_WRAPPERS: Record<string, CommandWrapper> = {
+  toybox: { noOptions: true },
+  busybox: { noOptions: true },
+  env: { valueOptions: ["-u", "-C"] },
+  nohup: {},
+  exec: { valueOptions: ["-a"] },
+  command: {},
+  time: {},
+  timeout: { valueOptions: ["-s", "-k"], operands: 1 },
+  nice: { valueOptions: ["-n"] },
+  ionice: { valueOptions: ["-c", "-n"] },
+  xargs: { valueOptions: ["-E", "-I", "-L", "-P", "-a", "-d", "-n", "-s"] },
+  // `su 0 reboot`; `su -c "..."` is unwrapped like `sh -c` instead
+  su: { operands: 1 }
+};
+
+/**
+ * Reserved words that may precede a command, as in `if true; then reboot; fi`
+ */
+const SHELL_KEYWORDS = ["!", "{", "}", "if", "then", "else", "elif", "fi", "do", "done", "while", "until", "esac"];
+
+/**
+ * Compound command headers that run nothing themselves (`for x in a b`)
+ */
+const SHELL_HEADERS = ["for", "case", "select", "function"];
+
+/**
+ * Shells that run the argument of -c, or a script or stdin without it
+ */
+const SHELLS = ["sh", "bash", "mksh", "ksh", "dash", "zsh", "su"];
+
+/**
+ * Reduces a segment to the command that actually runs: `/system/bin/rm -rf x`,
+ * `toybox rm -rf x`, `FOO=1 env rm -rf x` and `then timeout 5 rm -rf x` all
+ * become `rm -rf x`
+ */
+function normalizeCommandTokens(tokens: string[]): string[] {
+  let index = 0;
+  let wrapperIndex = -1;
+  for (;;) {
+    // Environment assignments in front of the command, or after env
+    while (index < tokens.length && /^[A-Za-z_]\w*=/.test(tokens[index])) {
+      index++;
+    }
+    const command = posixBasename(tokens[index] ?? "");
+    if (SHELL_HEADERS.includes(command)) {
+      return [];
+    }
+    if (SHELL_KEYWORDS.includes(command)) {
+      index++;
+      continue;
+    }
+    const wrapper = COMMAND_WRAPPERS[command];
+    if (!wrapper || (command === "su" && tokens.slice(index).includes("-c"))) {
+      break;
+    }
+    wrapperIndex = index;
+    index++;
+    // Wrapper options such as `env -i` or `nice -n 5`
+    while (!wrapper.noOptions && index < tokens.length && tokens[index].startsWith("-")) {
+      const option = tokens[index++];
+      if (option === "--") {
+        break;
+      }
+      if (wrapper.valueOptions?.includes(option)) {
+        index++;
+      }
+    }
+    index += wrapper.operands ?? 0;
+  }
+  if (index >= tokens.length) {
+    // A wrapper without a command runs on its own: `env` prints, `su 0` starts a shell
+    return wrapperIndex >= 0 ? [posixBasename(tokens[wrapperIndex]), ...tokens.slice(wrapperIndex + 1)] : [];
+  }
+  return [posixBasename(tokens[index]), ...tokens.slice(index + 1)];
+}
+
+function posixBasename(path: string): string {
+  return path.includes("/") ? path.slice(path.lastIndexOf("/") + 1) : path;
+}
+
+/**
+ * `date` only prints: no -s/--set and no positional date to set
+ */
+function isReadOnlyDate(args: string[]): boolean {
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg.startsWith("+")) {
+      continue;
+    }
+    if (!arg.startsWith("-") || /^-[a-zA-Z]*s/.test(arg) || arg.startsWith("--set")) {
+      return false;
+    }
+    // Options taking a value: the date to show, an input format or a reference file
+    if (/^-[a-zA-Z]*[dDr]$/.test(arg)) {
+      index++;
+    }
+  }
+  return true;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Validates rules from configuration, throwing on unusable entries
+ */
+export function validatePolicyRules(rules: unknown, origin: string): PolicyRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`Policy rules from ${origin} must be an array`);
+  }
+  return rules.map((rule, index) => {
+    const candidate = rule as PolicyRule;
+    if (!candidate || !["allow", "deny", "confirm"].includes(candidate.action)) {
+      throw new Error(`Policy rule ${index} from ${origin} needs an action of allow, deny or confirm`);
+    }
+    if (!candidate.pattern && !(Array.isArray(candidate.tokens) && candidate.tokens.length > 0)) {
+      throw new Error(`Policy rule ${index} from ${origin} needs a pattern or tokens`);
+    }
+    if (candidate.pattern) {
+      try {
+        new RegExp(candidate.pattern);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Policy rule ${index} from ${origin} has an invalid pattern: ${errorMsg}`);
+      }
+    }
+    return candidate;
+  });
+}
+
+function ruleApplies(rule: PolicyRule, request: PolicyRequest): boolean {
+  if (rule.tools && rule.tools.length > 0 && !rule.tools.includes(request.tool)) {
+    return false;
+  }
+  if (rule.devices && rule.devices.length > 0) {
+    const device = request.device ?? "";
+    return rule.devices.some((pattern) => globToRegExp(pattern).test(device));
+  }
+  return true;
+}
+
+function ruleMatches(rule: PolicyRule, tokens: string[], text: string): boolean {
+  if (rule.tokens && rule.tokens.length > 0) {
+    if (tokens.length < rule.tokens.length) {
+      return false;
+    }
+    const tokensMatch = rule.tokens.every((expected, index) => expected === "*" || globToRegExp(expected).test(tokens[index]));
+    if (!tokensMatch) {
+      return false;
+    }
+  }
+  if (rule.pattern) {
+    // Patterns see the command as written and with wrappers and paths stripped
+    const pattern = new RegExp(rule.pattern);
+    if (!pattern.test(text) && !pattern.test(tokens.join(" "))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * True when the segment redirects output into a file (other than /dev/null)
+ */
+function writesToFile(segment: string): boolean {
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index];
+    if (char === "'" && !inDoubleQuote) inSingleQuote = !inSingleQuote;
+    else if (char === '"' && !inSingleQuote) inDoubleQuote = !inDoubleQuote;
+    else if (char === ">" && !inSingleQuote && !inDoubleQuote) {
+      let next = index + 1;
+      if (segment[next] === ">") next++;
+      if (segment[next] === "&") continue;
+      const target = segment.slice(next).trim().split(/\s+/)[0] ?? "";
+      if (target !== "/dev/null") {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function isReadOnlySegment(tokens: string[], segment: string): boolean {
+  if (tokens.length === 0) {
+    return true;
+  }
+  if (writesToFile(segment) || /\$\(|`/.test(segment)) {
+    return false;
+  }
+
+  const [command, subcommand, third] = tokens;
+  const allowed = READ_ONLY_COMMANDS[command];
+  if (allowed === undefined) {
+    return false;
+  }
+  if (command === "logcat" && tokens.some((token) => token === "-c" || token === "--clear" || token === "-G")) {
+    return false;
+  }
+  if (command === "date" && !isReadOnlyDate(tokens.slice(1))) {
+    return false;
+  }
+  if (command === "dumpsys" && tokens.slice(2).some((token) => DUMPSYS_WRITE_ARGUMENTS.includes(token))) {
+    return false;
+  }
+  if (command === "wm" && tokens.length > 2) {
+    // `wm size 720x1280` changes the display
+    return false;
+  }
+  if (allowed === true) {
+    return true;
+  }
+  if (!subcommand || !allowed.includes(subcommand)) {
+    return false;
+  }
+  const thirdLevel = READ_ONLY_THIRD_TOKEN[`${command} ${subcommand}`];
+  return !thirdLevel || (third !== undefined && thirdLevel.includes(third));
+}
+
+interface CommandSegment {
+  text: string;
+  tokens: string[];
+  /** The command that runs is only known at run time, e.g. `$CMD` or `sh script.sh` */
+  opaque?: boolean;
+}
+
+const MAX_NESTING = 3;
+
+/**
+ * Splits the request into segments, unwrapping command substitutions,
+ * subshells, `sh -c "..."` and `eval`
+ */
+function commandSegments(request: PolicyRequest): CommandSegment[] {
+  if (request.tokens) {
+    return [{ text: request.tokens.join(" "), tokens: normalizeCommandTokens(request.tokens) }];
+  }
+
+  const segments: CommandSegment[] = [];
+  const visit = (input: string, depth: number) => {
+    if (depth > MAX_NESTING) {
+      segments.push({ text: input, tokens: [], opaque: true });
+      return;
+    }
+    const { command, substitutions } = extractCommandSubstitutions(input);
+    for (const substitution of substitutions) {
+      visit(substitution, depth + 1);
+    }
+    for (const text of splitShellSegments(command)) {
+      const tokens = normalizeCommandTokens(splitCommandArguments(text));
+      const name = tokens[0] ?? "";
+      if (name === "eval") {
+        visit(tokens.slice(1).join(" "), depth + 1);
+        continue;
+      }
+      if (SHELLS.includes(name)) {
+        const script = tokens.indexOf("-c") >= 0 ? tokens[tokens.indexOf("-c") + 1] : undefined;
+        if (script !== undefined) {
+          visit(script, depth + 1);
+        } else {
+          segments.push({ text, tokens, opaque: true });
+        }
+        continue;
+      }
+      segments.push({ text, tokens, opaque: /[$`]/.test(name) || name === "." || name === "source" });
+    }
+  };
+  visit(request.command, 0);
+  return segments;
+}
+
+const ACTION_SEVERITY: Record<PolicyAction, number> = { allow: 0, confirm: 1, deny: 2 };
+
+/**
+ * Decides whether a command may run. For compound shell commands the most
+ * restrictive outcome of any segment wins.
+ */
+export function evaluatePolicy(policy: PolicyConfig, request: PolicyRequest): PolicyDecision {
+  if (policy.readOnly && READ_ONLY_BLOCKED_TOOLS.includes(request.tool)) {
+    return { action: "deny", reason: `${request.tool} is disabled in read-only mode` };
+  }
+
+  const configured = policy.rules.filter((rule) => ruleApplies(rule, request));
+  const builtIn = policy.defaultRules ? BUILT_IN_RULES.filter((rule) => ruleApplies(rule, request)) : [];
+  let decision: PolicyDecision = { action: "allow" };
+
+  for (const segment of commandSegments(request)) {
+    const matches = (rule: PolicyRule) => ruleMatches(rule, segment.tokens, segment.text);
+    const configuredRule = configured.find(matches);
+    const builtInRule = builtIn.find(matches);
+    let segmentDecision: PolicyDecision;
+    if (configuredRule) {
+      // An explicit allow rule also lifts the read-only restriction
+      segmentDecision = { action: configuredRule.action, reason: configuredRule.reason, segment: segment.text, rule: configuredRule };
+    } else if (policy.readOnly && (segment.opaque || !isReadOnlySegment(segment.tokens, segment.text))) {
+      segmentDecision = { action: "deny", reason: "Only read-only commands are allowed in read-only mode", segment: segment.text };
+    } else if (builtInRule) {
+      segmentDecision = { action: builtInRule.action, reason: builtInRule.reason, segment: segment.text, rule: builtInRule };
+    } else if (segment.opaque) {
+      segmentDecision = { action: "confirm", reason: "Runs a command that can only be known when it runs", segment: segment.text };
+    } else {
+      segmentDecision = { action: "allow", segment: segment.text };
+    }
+
+    if (ACTION_SEVERITY[segmentDecision.action] > ACTION_SEVERITY[decision.action]) {
+      decision = segmentDecision;
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * Issues single-use tokens that let a caller re-run a command which the
+ * policy flagged as requiring confirmation
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, { key: string; expiresAt: number }>();
+
+  constructor(private readonly ttlMs = 5 * 60 * 1000) {}
+
+  issue(request: PolicyRequest): string {
+    this.prune();
+    const token = randomBytes(8).toString("hex");
+    this.pending.set(token, { key: this.keyFor(request), expiresAt: Date.now() + this.ttlMs });
+    return token;
+  }
+
+  /**
+   * Consumes the token if it was issued for exactly this request
+   */
+  consume(token: string, request: PolicyRequest): boolean {
+    this.prune();
+    const entry = this.pending.get(token);
+    if (!entry || entry.key !== this.keyFor(request)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  private keyFor(request: PolicyRequest): string {
+    return JSON.stringify([request.tool, request.device ?? "", request.command]);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
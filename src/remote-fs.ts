@@ -0,0 +1,101 @@
+/**
+ * Device filesystem helpers for the ADB MCP Server
+ *
+ * Builds the `stat`, `find` and `sha256sum` commands used to browse and
+ * compare directories on the device and parses their output.
+ */
+
+import { quoteShellArgument } from "./input";
+
+export type RemoteFileType = "file" | "directory" | "symlink" | "other";
+
+export interface RemoteFileEntry {
+  /** Path relative to the listed directory, or the full path for a single stat */
+  name: string;
+  type: RemoteFileType;
+  size: number;
+  /** Permission bits in octal, e.g. "644" */
+  mode: string;
+  /** ls style permissions, e.g. "-rw-r--r--" */
+  permissions: string;
+  /** Modification time (ISO 8601) */
+  mtime: string;
+}
+
+/** The name comes last so names containing the separator still parse */
+const STAT_FORMAT = "%F|%s|%Y|%a|%A|%n";
+
+/**
+ * Shell command printing one stat line for a path
+ */
+export function buildStatCommand(path: string): string {
+  return `stat -c '${STAT_FORMAT}' ${quoteShellArgument(path)}`;
+}
+
+/**
+ * Shell command printing one stat line per entry below a directory, with
+ * names relative to it. `cd` follows symlinked directories such as /sdcard.
+ *
+ * @param maxDepth - 1 lists only the directory itself; omit for the whole tree
+ */
+export function buildListCommand(path: string, maxDepth?: number): string {
+  const depth = maxDepth !== undefined ? ` -maxdepth ${maxDepth}` : "";
+  return `cd ${quoteShellArgument(path)} && find . -mindepth 1${depth} -exec stat -c '${STAT_FORMAT}' {} +`;
+}
+
+/**
+ * Shell command printing the SHA-256 of every file below a directory
+ */
+export function buildHashCommand(path: string): string {
+  return `cd ${quoteShellArgument(path)} && find . -type f -exec sha256sum {} +`;
+}
+
+function fileType(description: string): RemoteFileType {
+  if (description.includes("directory")) {
+    return "directory";
+  }
+  if (description.includes("symbolic link")) {
+    return "symlink";
+  }
+  return description.includes("regular") ? "file" : "other";
+}
+
+function relativeName(name: string): string {
+  return name.startsWith("./") ? name.slice(2) : name;
+}
+
+/**
+ * Parses the output of the stat and list commands
+ */
+export function parseStatOutput(output: string): RemoteFileEntry[] {
+  const entries: RemoteFileEntry[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = /^([^|]+)\|(\d+)\|(\d+)\|([0-7]+)\|([^|]+)\|(.+)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    entries.push({
+      name: relativeName(match[6]),
+      type: fileType(match[1]),
+      size: parseInt(match[2], 10),
+      mode: match[4],
+      permissions: match[5],
+      mtime: new Date(parseInt(match[3], 10) * 1000).toISOString()
+    });
+  }
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Parses the hash command output into relative path → SHA-256
+ */
+export function parseHashOutput(output: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  for (const line of output.split(/\r?\n/)) {
+    const match = /^([0-9a-fA-F]{64})\s+(.+)$/.exec(line);
+    if (match) {
+      hashes.set(relativeName(match[2]), match[1].toLowerCase());
+    }
+  }
+  return hashes;
+}
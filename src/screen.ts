@@ -0,0 +1,267 @@
+/**
+ * Compact screen state for the ADB MCP Server
+ *
+ * Combines the foreground activity, keyboard and orientation with a pruned
+ * copy of the uiautomator hierarchy: only visible nodes that can be
+ * interacted with or carry text are kept, each with a short id derived from
+ * its position in the hierarchy so the same element keeps its id from one
+ * dump to the next. Two states can be diffed by those ids.
+ */
+
+import { createHash } from "crypto";
+import { UiNode, parseUiHierarchy, boundsArea } from "./ui";
+import { parseResumedActivity } from "./launch";
+import { parseWindow } from "./dumpsys";
+
+export interface ScreenNode {
+  id: string;
+  /** Class name without the package, e.g. "Button" */
+  class: string;
+  text?: string;
+  desc?: string;
+  /** Resource ID without the "package:id/" prefix */
+  rid?: string;
+  /** Bounds as uiautomator writes them, e.g. "[0,63][1080,210]" */
+  bounds: string;
+  /** Comma-separated: click, longclick, scroll, check, checked, edit, focused, selected, password, disabled */
+  flags?: string;
+  children?: ScreenNode[];
+}
+
+export interface ScreenState {
+  capturedAt: string;
+  package?: string;
+  /** Resumed activity component, e.g. "com.example.app/.MainActivity" */
+  activity?: string;
+  /** Window with input focus; differs from the activity for dialogs, popups and system UI */
+  focusedWindow?: string;
+  keyboardShown?: boolean;
+  orientation: "portrait" | "landscape";
+  /** Display rotation in quarter turns (0-3) */
+  rotation?: number;
+  nodeCount: number;
+  tree: ScreenNode[];
+}
+
+/** Output of the commands a screen state is built from */
+export interface ScreenSources {
+  /** `uiautomator dump` XML */
+  hierarchy: string;
+  /** `dumpsys activity activities` */
+  activities: string;
+  /** `dumpsys window windows` */
+  windows: string;
+  /** `dumpsys input_method` */
+  inputMethod: string;
+}
+
+/** A node as listed in a diff: without children, but with its parent's id */
+export type FlatScreenNode = Omit<ScreenNode, "children"> & { parent?: string };
+
+/** Changed fields as [before, after] */
+export type ScreenNodeChange = { id: string } & Partial<Record<"text" | "desc" | "flags" | "bounds", [string | undefined, string | undefined]>>;
+
+export interface ScreenDiff {
+  since: string;
+  /** Header fields that changed, as [before, after] */
+  changes: Partial<Record<"package" | "activity" | "focusedWindow" | "keyboardShown" | "orientation" | "rotation", [unknown, unknown]>>;
+  added: FlatScreenNode[];
+  removed: Array<Pick<ScreenNode, "id" | "class" | "text" | "desc" | "rid">>;
+  changed: ScreenNodeChange[];
+  unchanged: number;
+}
+
+/**
+ * Whether the soft keyboard is shown, from `dumpsys input_method`
+ * (mInputShown, or the IME's own isInputViewShown on releases without it)
+ */
+export function parseKeyboardShown(output: string): boolean | undefined {
+  const match = /\bmInputShown=(true|false)/.exec(output) ?? /\b(?:mIsInputViewShown|isInputViewShown)=(true|false)/.exec(output);
+  return match ? match[1] === "true" : undefined;
+}
+
+/**
+ * Rotation uiautomator records on the <hierarchy> element
+ */
+export function parseHierarchyRotation(xml: string): number | undefined {
+  const match = /<hierarchy\b[^>]*\brotation="(\d)"/.exec(xml);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function isInteractive(node: UiNode): boolean {
+  return node.clickable || node.longClickable || node.scrollable || node.checkable || isEditText(node);
+}
+
+function isEditText(node: UiNode): boolean {
+  return /EditText$/.test(node.className);
+}
+
+function isVisible(node: UiNode): boolean {
+  return boundsArea(node.bounds) > 0 && node.attributes["visible-to-user"] !== "false";
+}
+
+function nodeFlags(node: UiNode): string | undefined {
+  const flags = [
+    node.clickable && "click",
+    node.longClickable && "longclick",
+    node.scrollable && "scroll",
+    node.checkable && (node.checked ? "checked" : "check"),
+    isEditText(node) && "edit",
+    node.focused && "focused",
+    node.selected && "selected",
+    node.password && "password",
+    !node.enabled && "disabled"
+  ].filter((flag): flag is string => Boolean(flag));
+  return flags.length > 0 ? flags.join(",") : undefined;
+}
+
+function truncate(value: string, maxLength: number): string | undefined {
+  const text = value.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return undefined;
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * Builds the pruned tree. Nodes that are dropped pass their kept descendants
+ * up to the nearest kept ancestor.
+ *
+ * Ids hash the chain of class name and resource ID from the root, numbering
+ * siblings that share both, so they survive text changes and unrelated
+ * nodes appearing elsewhere on screen.
+ */
+export function buildScreenTree(roots: UiNode[], maxTextLength = 80): ScreenNode[] {
+  const usedIds = new Set<string>();
+
+  const shortId = (key: string): string => {
+    const hash = createHash("sha1").update(key).digest("hex").slice(0, 5);
+    let id = hash;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${hash}.${suffix}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  const visit = (nodes: UiNode[], parentKey: string): ScreenNode[] => {
+    const kept: ScreenNode[] = [];
+    const siblingCounts = new Map<string, number>();
+    for (const node of nodes) {
+      const step = `${node.className}:${node.resourceId}`;
+      const nth = siblingCounts.get(step) ?? 0;
+      siblingCounts.set(step, nth + 1);
+      const key = `${parentKey}/${step}#${nth}`;
+
+      if (!isVisible(node)) {
+        continue;
+      }
+      const children = visit(node.children, key);
+      const text = truncate(node.text, maxTextLength);
+      const desc = truncate(node.contentDesc, maxTextLength);
+      if (!isInteractive(node) && !text && !desc) {
+        kept.push(...children);
+        continue;
+      }
+
+      const { left, top, right, bottom } = node.bounds;
+      const screenNode: ScreenNode = {
+        id: shortId(`${node.packageName}${key}`),
+        class: node.className.split(".").pop() || node.className,
+        text,
+        desc,
+        rid: node.resourceId ? node.resourceId.replace(/^.*:id\//, "") : undefined,
+        bounds: `[${left},${top}][${right},${bottom}]`,
+        flags: nodeFlags(node),
+        children: children.length > 0 ? children : undefined
+      };
+      kept.push(screenNode);
+    }
+    return kept;
+  };
+
+  return visit(roots, "");
+}
+
+/**
+ * Lists the nodes of a tree in document order
+ */
+export function flattenScreenTree(nodes: ScreenNode[], parent?: string): FlatScreenNode[] {
+  return nodes.flatMap(({ children, ...node }) => [
+    parent ? { ...node, parent } : node,
+    ...flattenScreenTree(children ?? [], node.id)
+  ]);
+}
+
+/**
+ * Builds the screen state from the dumps
+ */
+export function buildScreenState(sources: ScreenSources, maxTextLength = 80): ScreenState {
+  const roots = parseUiHierarchy(sources.hierarchy);
+  const tree = buildScreenTree(roots, maxTextLength);
+  const window = parseWindow(sources.windows);
+  const activity = parseResumedActivity(sources.activities) ?? window.focusedApp;
+
+  // The root nodes span the whole display in its current orientation
+  const width = Math.max(0, ...roots.map((root) => root.bounds.right));
+  const height = Math.max(0, ...roots.map((root) => root.bounds.bottom));
+
+  return {
+    capturedAt: new Date().toISOString(),
+    package: activity?.split("/")[0] ?? roots.find((root) => root.packageName)?.packageName,
+    activity,
+    focusedWindow: window.focusedWindow,
+    keyboardShown: parseKeyboardShown(sources.inputMethod),
+    orientation: width > height ? "landscape" : "portrait",
+    rotation: parseHierarchyRotation(sources.hierarchy),
+    nodeCount: flattenScreenTree(tree).length,
+    tree
+  };
+}
+
+/**
+ * Compares two screen states node by node, matching nodes by id
+ */
+export function diffScreenStates(previous: ScreenState, current: ScreenState): ScreenDiff {
+  const changes: ScreenDiff["changes"] = {};
+  for (const field of ["package", "activity", "focusedWindow", "keyboardShown", "orientation", "rotation"] as const) {
+    if (previous[field] !== current[field]) {
+      changes[field] = [previous[field], current[field]];
+    }
+  }
+
+  const before = new Map(flattenScreenTree(previous.tree).map((node) => [node.id, node]));
+  const after = flattenScreenTree(current.tree);
+  const added: FlatScreenNode[] = [];
+  const changed: ScreenNodeChange[] = [];
+  let unchanged = 0;
+
+  for (const node of after) {
+    const old = before.get(node.id);
+    if (!old) {
+      added.push(node);
+      continue;
+    }
+    before.delete(node.id);
+    const change: ScreenNodeChange = { id: node.id };
+    for (const field of ["text", "desc", "flags", "bounds"] as const) {
+      if (old[field] !== node[field]) {
+        change[field] = [old[field], node[field]];
+      }
+    }
+    if (Object.keys(change).length > 1) {
+      changed.push(change);
+    } else {
+      unchanged++;
+    }
+  }
+
+  return {
+    since: previous.capturedAt,
+    changes,
+    added,
+    removed: Array.from(before.values()).map(({ id, class: className, text, desc, rid }) => ({ id, class: className, text, desc, rid })),
+    changed,
+    unchanged
+  };
+}
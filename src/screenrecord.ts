@@ -0,0 +1,257 @@
+/**
+ * Background screen recording for the ADB MCP Server
+ *
+ * A session runs `screenrecord` on the device through one `adb shell` child
+ * process per segment. screenrecord stops after at most three minutes, so a
+ * recording that should run longer is chained from several segments; each
+ * one is a playable MP4 file of its own.
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { quoteShellArgument } from "./input";
+
+export interface ScreenRecordOptions {
+  /** Video size, e.g. "1280x720" (default: the display size) */
+  size?: string;
+  /** Bits per second (default: screenrecord's, 20 Mbps on recent releases) */
+  bitRate?: number;
+  /** Total recording time in seconds, over all segments */
+  timeLimitSec: number;
+  /** Overlay timestamps and frame info (screenrecord --bugreport) */
+  bugreport?: boolean;
+}
+
+export interface ScreenRecordSegment {
+  index: number;
+  remotePath: string;
+  startedAt: string;
+  endedAt?: string;
+  exitCode?: number | null;
+}
+
+export interface ScreenRecordSessionInfo {
+  sessionId: string;
+  device?: string;
+  options: ScreenRecordOptions;
+  running: boolean;
+  startedAt: string;
+  elapsedMs: number;
+  segments: ScreenRecordSegment[];
+  lastError?: string;
+}
+
+/** The longest segment screenrecord records */
+export const MAX_SEGMENT_SECONDS = 180;
+
+const STOP_GRACE_MS = 10000;
+/** screenrecord reports a bad size or bit rate right after it starts */
+const START_CHECK_MS = 1000;
+
+/**
+ * Shell command recording one segment. It prints the shell's PID first;
+ * `exec` makes that the PID of screenrecord, so the segment can be stopped
+ * with SIGINT, which finalizes the MP4.
+ */
+export function buildScreenrecordCommand(remotePath: string, options: ScreenRecordOptions, seconds: number): string {
+  const args = ["screenrecord"];
+  if (options.size) {
+    if (!/^\d+x\d+$/.test(options.size)) {
+      throw new Error(`Invalid video size: ${options.size}; expected WIDTHxHEIGHT, e.g. 1280x720`);
+    }
+    args.push("--size", options.size);
+  }
+  if (options.bitRate !== undefined) {
+    args.push("--bit-rate", String(options.bitRate));
+  }
+  if (options.bugreport) {
+    args.push("--bugreport");
+  }
+  args.push("--time-limit", String(seconds), quoteShellArgument(remotePath));
+  return `echo $$; exec ${args.join(" ")}`;
+}
+
+export class ScreenRecordSession {
+  readonly id: string;
+  readonly device?: string;
+  readonly options: ScreenRecordOptions;
+  readonly startedAt = new Date();
+
+  private child?: ChildProcess;
+  private remotePid?: string;
+  private segments: ScreenRecordSegment[] = [];
+  private running = false;
+  private stopping = false;
+  private lastError?: string;
+  private segmentStarted?: Promise<void>;
+  private segmentClosed?: Promise<void>;
+
+  /**
+   * @param remotePath - Device path of a segment by index
+   */
+  constructor(
+    id: string,
+    device: string | undefined,
+    options: ScreenRecordOptions,
+    private readonly remotePath: (index: number) => string
+  ) {
+    this.id = id;
+    this.device = device;
+    this.options = options;
+  }
+
+  /**
+   * Starts the first segment
+   *
+   * @param command - adb executable
+   * @param args - Arguments before `shell`, including device selection
+   * @throws When screenrecord exits right away, e.g. on an unsupported size
+   */
+  async start(command: string, args: string[]): Promise<void> {
+    this.running = true;
+    await this.startSegment(command, args);
+
+    const first = this.segments[0];
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      this.segmentClosed,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, START_CHECK_MS);
+      })
+    ]);
+    clearTimeout(timer);
+    if (first.endedAt && first.exitCode !== 0) {
+      throw new Error(this.lastError ?? `screenrecord exited with code ${first.exitCode}`);
+    }
+  }
+
+  /**
+   * Ends the recording and waits until the current segment is written
+   *
+   * @param interrupt - Sends SIGINT to screenrecord on the device
+   */
+  async stop(interrupt: (pid: string) => Promise<void>): Promise<void> {
+    this.stopping = true;
+    if (this.running) {
+      // A chained segment may not have reported its PID yet
+      await this.segmentStarted?.catch(() => undefined);
+      if (this.remotePid) {
+        try {
+          await interrupt(this.remotePid);
+        } catch (error) {
+          this.lastError = error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+    const closed = this.segmentClosed;
+    if (closed) {
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), STOP_GRACE_MS);
+      });
+      if (await Promise.race([closed.then(() => false), timedOut])) {
+        this.child?.kill();
+      }
+      clearTimeout(timer);
+    }
+    this.running = false;
+  }
+
+  /**
+   * Kills the local adb process without waiting, e.g. when the server exits
+   */
+  kill(): void {
+    this.stopping = true;
+    this.child?.kill();
+    this.running = false;
+  }
+
+  /**
+   * Segments that were recorded (the device files may still be incomplete while running)
+   */
+  recordedSegments(): ScreenRecordSegment[] {
+    return this.segments.map((segment) => ({ ...segment }));
+  }
+
+  info(): ScreenRecordSessionInfo {
+    return {
+      sessionId: this.id,
+      device: this.device,
+      options: this.options,
+      running: this.running,
+      startedAt: this.startedAt.toISOString(),
+      elapsedMs: Date.now() - this.startedAt.getTime(),
+      segments: this.recordedSegments(),
+      lastError: this.lastError
+    };
+  }
+
+  private remainingSeconds(): number {
+    return this.options.timeLimitSec - Math.floor((Date.now() - this.startedAt.getTime()) / 1000);
+  }
+
+  private startSegment(command: string, args: string[]): Promise<void> {
+    const seconds = Math.min(MAX_SEGMENT_SECONDS, this.remainingSeconds());
+    const segment: ScreenRecordSegment = {
+      index: this.segments.length,
+      remotePath: this.remotePath(this.segments.length),
+      startedAt: new Date().toISOString()
+    };
+    const shellCommand = buildScreenrecordCommand(segment.remotePath, this.options, seconds);
+    this.segments.push(segment);
+    this.remotePid = undefined;
+
+    const child = spawn(command, [...args, "shell", shellCommand], { stdio: ["ignore", "pipe", "pipe"] });
+    this.child = child;
+    let output = "";
+    let errorOutput = "";
+
+    // Resolves once the PID is known, rejects when the segment ends before
+    this.segmentStarted = new Promise<void>((resolve, reject) => {
+      let started = false;
+      child.stdout?.setEncoding("utf8");
+      child.stdout?.on("data", (chunk: string) => {
+        output += chunk;
+        const match = /^(\d+)\s*\n/.exec(output);
+        if (match && !started) {
+          started = true;
+          this.remotePid = match[1];
+          resolve();
+        }
+      });
+      child.stderr?.setEncoding("utf8");
+      child.stderr?.on("data", (chunk: string) => {
+        errorOutput += chunk;
+      });
+
+      this.segmentClosed = new Promise<void>((closed) => {
+        const finish = (code: number | null, error?: string) => {
+          if (segment.endedAt) {
+            return;
+          }
+          segment.endedAt = new Date().toISOString();
+          segment.exitCode = code;
+          const message = error ?? (errorOutput.trim() || output.replace(/^\d+\s*\n/, "").trim());
+          if (code !== 0 && message) {
+            this.lastError = message;
+          }
+          closed();
+
+          if (!started) {
+            this.running = false;
+            reject(new Error(this.lastError ?? `screenrecord exited with code ${code}`));
+            return;
+          }
+          // Chain the next segment until the total time is used up
+          if (!this.stopping && code === 0 && this.remainingSeconds() > 0) {
+            this.startSegment(command, args).catch(() => undefined);
+          } else {
+            this.running = false;
+          }
+        };
+        child.on("error", (error) => finish(null, error.message));
+        child.on("close", (code) => finish(code));
+      });
+    });
+    return this.segmentStarted;
+  }
+}
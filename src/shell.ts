@@ -0,0 +1,198 @@
+/**
+ * Shell command tokenizing for the ADB MCP Server
+ *
+ * Splits free-form command strings the way a POSIX shell would, closely
+ * enough to pass arguments through to adb and to reason about commands
+ * in the safety policy.
+ */
+
+export function splitCommandArguments(value: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+  let escapeNext = false;
+
+  for (const char of value) {
+    if (escapeNext) {
+      current += char;
+      escapeNext = false;
+      continue;
+    }
+
+    if (char === "\\") {
+      escapeNext = true;
+      continue;
+    }
+
+    if (char === "'" && !inDoubleQuote) {
+      inSingleQuote = !inSingleQuote;
+      continue;
+    }
+
+    if (char === '"' && !inSingleQuote) {
+      inDoubleQuote = !inDoubleQuote;
+      continue;
+    }
+
+    if (/\s/.test(char) && !inSingleQuote && !inDoubleQuote) {
+      if (current.length > 0) {
+        args.push(current);
+        current = "";
+      }
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (escapeNext) {
+    current += "\\";
+  }
+
+  if (current.length > 0) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * Splits a shell command line into its simple commands at unquoted `;`,
+ * `&&`, `||`, `|`, `&` and newlines. Quotes are kept so each segment can
+ * be tokenized with splitCommandArguments afterwards.
+ */
+export function splitShellSegments(value: string): string[] {
+  const segments: string[] = [];
+  let current = "";
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+  let escapeNext = false;
+
+  const flush = () => {
+    if (current.trim()) {
+      segments.push(current.trim());
+    }
+    current = "";
+  };
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (escapeNext) {
+      current += char;
+      escapeNext = false;
+      continue;
+    }
+    if (char === "\\" && !inSingleQuote) {
+      current += char;
+      escapeNext = true;
+      continue;
+    }
+    if (char === "'" && !inDoubleQuote) {
+      inSingleQuote = !inSingleQuote;
+    } else if (char === '"' && !inSingleQuote) {
+      inDoubleQuote = !inDoubleQuote;
+    } else if (char === "&" && (value[index - 1] === ">" || value[index - 1] === "<")) {
+      // File descriptor duplication such as 2>&1, not a separator
+    } else if (!inSingleQuote && !inDoubleQuote && (char === ";" || char === "|" || char === "&" || char === "\n")) {
+      flush();
+      // Skip the second character of && and ||
+      if ((char === "&" || char === "|") && value[index + 1] === char) {
+        index++;
+      }
+      continue;
+    }
+    current += char;
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Pulls command substitutions (`$(...)`, backticks, `<(...)` and `>(...)`)
+ * out of a command line so each can be checked on its own, leaving `$(...)`
+ * in their place. Unquoted parentheses of subshells and function
+ * definitions become `;`, so splitShellSegments sees the commands inside.
+ */
+export function extractCommandSubstitutions(value: string): { command: string; substitutions: string[] } {
+  const substitutions: string[] = [];
+  let command = "";
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (inSingleQuote) {
+      inSingleQuote = char !== "'";
+      command += char;
+      continue;
+    }
+    if (char === "\\") {
+      command += value.slice(index, index + 2);
+      index++;
+      continue;
+    }
+    if (char === "'" && !inDoubleQuote) {
+      inSingleQuote = true;
+    } else if (char === '"') {
+      inDoubleQuote = !inDoubleQuote;
+    } else if (char === "`") {
+      const end = findClosingBacktick(value, index + 1);
+      substitutions.push(value.slice(index + 1, end));
+      command += "$(...)";
+      index = end;
+      continue;
+    } else if (value[index + 1] === "(" && (char === "$" || (!inDoubleQuote && (char === "<" || char === ">")))) {
+      const end = findClosingParenthesis(value, index + 2);
+      substitutions.push(value.slice(index + 2, end));
+      command += "$(...)";
+      index = end;
+      continue;
+    } else if (!inDoubleQuote && (char === "(" || char === ")")) {
+      command += ";";
+      continue;
+    }
+    command += char;
+  }
+
+  return { command, substitutions };
+}
+
+function findClosingBacktick(value: string, start: number): number {
+  for (let index = start; index < value.length; index++) {
+    if (value[index] === "\\") {
+      index++;
+    } else if (value[index] === "`") {
+      return index;
+    }
+  }
+  return value.length;
+}
+
+/**
+ * Index of the `)` closing a substitution whose body starts at `start`,
+ * or the end of the value when it is never closed
+ */
+function findClosingParenthesis(value: string, start: number): number {
+  let depth = 1;
+  let inSingleQuote = false;
+  let inDoubleQuote = false;
+  for (let index = start; index < value.length; index++) {
+    const char = value[index];
+    if (inSingleQuote) {
+      inSingleQuote = char !== "'";
+    } else if (char === "\\") {
+      index++;
+    } else if (char === "'" && !inDoubleQuote) {
+      inSingleQuote = true;
+    } else if (char === '"') {
+      inDoubleQuote = !inDoubleQuote;
+    } else if (!inDoubleQuote && char === "(") {
+      depth++;
+    } else if (!inDoubleQuote && char === ")" && --depth === 0) {
+      return index;
+    }
+  }
+  return value.length;
+}
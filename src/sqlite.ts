@@ -0,0 +1,283 @@
+/**
+ * SQLite helpers for the ADB MCP Server
+ *
+ * Builds `sqlite3` command lines for queries against app databases and
+ * parses the shell's quote mode output, which keeps the storage class of
+ * every value (integer, real, text, blob or null).
+ */
+
+export type SqliteValueType = "integer" | "real" | "text" | "blob" | "null";
+export type SqliteValue = number | string | null;
+
+export interface SqliteColumn {
+  name: string;
+  /** Storage classes seen in the column, e.g. "integer" or "text|null" */
+  type: string;
+}
+
+export interface SqliteResult {
+  columns: SqliteColumn[];
+  rows: Array<Record<string, SqliteValue>>;
+}
+
+/** sqlite3 shells from this release on accept -safe */
+const SAFE_MODE_VERSION = [3, 37, 0];
+
+/** Shell functions that read or write files, or load code */
+const UNSAFE_FUNCTIONS = /\b(readfile|writefile|edit|load_extension|fts3_tokenizer)\s*\(/i;
+
+const WRITE_KEYWORDS = /\b(?:INSERT|UPDATE|DELETE|REPLACE\s+INTO|CREATE|DROP|ALTER|ATTACH|DETACH|VACUUM|REINDEX)\b/i;
+
+/**
+ * The SQL with comments and string literals blanked out and identifier
+ * quotes removed, so keywords and function names can be looked for
+ */
+function stripSqlLiterals(sql: string): string {
+  return sql.replace(
+    /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^']|'')*'?|"((?:[^"]|"")*)"?|`((?:[^`]|``)*)`?|\[([^\]]*)\]?/g,
+    (match, double?: string, backtick?: string, bracket?: string) => {
+      const identifier = double ?? backtick ?? bracket;
+      return identifier === undefined ? " " : ` ${identifier.replace(/\W+/g, " ")} `;
+    }
+  );
+}
+
+/**
+ * True for a single statement that looks like a read: SELECT, WITH, VALUES,
+ * EXPLAIN or a PRAGMA query (not an assignment), with no data-modifying
+ * statement inside a CTE. This gives a clear error early; opening the
+ * database with `-readonly` is the actual guard.
+ */
+export function isReadOnlyStatement(sql: string): boolean {
+  const statement = stripSqlLiterals(sql).trim().replace(/;[\s;]*$/, "");
+  return /^(?:SELECT|WITH|VALUES|EXPLAIN|PRAGMA)\b/i.test(statement) &&
+    !/^PRAGMA[^;]*=/i.test(statement) &&
+    !statement.includes(";") &&
+    !WRITE_KEYWORDS.test(statement);
+}
+
+/**
+ * Describes what in the SQL could reach beyond the database: dot commands
+ * (the shell runs an argument starting with "." as one), the shell's file
+ * functions, extension loading and ATTACH. These are refused even where
+ * `-safe` would block them, since older shells do not have it.
+ */
+export function describeUnsafeSql(sql: string): string | undefined {
+  if (sql.trimStart().startsWith(".")) {
+    return "sqlite3 dot commands";
+  }
+  const statement = stripSqlLiterals(sql);
+  const unsafeFunction = UNSAFE_FUNCTIONS.exec(statement);
+  if (unsafeFunction) {
+    return `${unsafeFunction[1].toLowerCase()}()`;
+  }
+  return /\bATTACH\b/i.test(statement) ? "ATTACH" : undefined;
+}
+
+/**
+ * Whether the shell that printed this `sqlite3 -version` output supports
+ * -safe, which disables the file functions, ATTACH, extensions and dot
+ * commands that touch other files
+ */
+export function supportsSafeMode(versionOutput: string | undefined): boolean {
+  const match = /^\s*(\d+)\.(\d+)\.(\d+)/.exec(versionOutput ?? "");
+  if (!match) {
+    return false;
+  }
+  const version = match.slice(1).map((part) => parseInt(part, 10));
+  const index = version.findIndex((part, i) => part !== SAFE_MODE_VERSION[i]);
+  return index < 0 || version[index] > SAFE_MODE_VERSION[index];
+}
+
+/**
+ * Wraps a single query so at most `maxRows + 1` rows come back, which tells
+ * whether the result was truncated. Other statements (including CTEs that
+ * modify data) are returned unchanged.
+ */
+export function limitQuery(sql: string, maxRows: number): string {
+  const statement = sql.trim().replace(/;+\s*$/, "");
+  if (!/^(?:SELECT|WITH|VALUES)\b/i.test(statement) || statement.includes(";") || /\b(?:INSERT|UPDATE|DELETE|REPLACE)\b/i.test(statement)) {
+    return sql;
+  }
+  return `SELECT * FROM (${statement}) LIMIT ${maxRows + 1}`;
+}
+
+/**
+ * Arguments for `sqlite3` printing the result in quote mode with a header row
+ */
+export function buildSqliteArgs(databasePath: string, sql: string, readOnly: boolean, safe: boolean): string[] {
+  return [...(safe ? ["-safe"] : []), ...(readOnly ? ["-readonly"] : []), "-bail", "-cmd", ".mode quote", "-cmd", ".headers on", databasePath, sql];
+}
+
+/**
+ * Extracts the sqlite3 error line from a failed command's message
+ */
+export function describeSqliteError(message: string): string | undefined {
+  const match = /^(?:Error|Parse error|Runtime error)\b.*$/m.exec(message);
+  return match ? match[0].trim() : undefined;
+}
+
+interface ParsedValue {
+  value: SqliteValue;
+  type: SqliteValueType;
+}
+
+class QuoteModeParser {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  get done(): boolean {
+    return this.position >= this.input.length;
+  }
+
+  private fail(expected: string): never {
+    throw new Error(`Unexpected sqlite3 output at offset ${this.position}: expected ${expected}`);
+  }
+
+  private expect(token: string): void {
+    if (!this.input.startsWith(token, this.position)) {
+      this.fail(`'${token}'`);
+    }
+    this.position += token.length;
+  }
+
+  private readString(): string {
+    this.expect("'");
+    let value = "";
+    for (;;) {
+      const end = this.input.indexOf("'", this.position);
+      if (end < 0) {
+        this.fail("end of string");
+      }
+      value += this.input.slice(this.position, end);
+      this.position = end + 1;
+      if (this.input[this.position] !== "'") {
+        return value;
+      }
+      // '' is an escaped quote
+      value += "'";
+      this.position++;
+    }
+  }
+
+  /**
+   * Text value, including the escaped forms newer shells print for control
+   * characters: replace('a\nb','\n',char(10)) and unistr('a\u000ab')
+   */
+  private readText(): string {
+    if (this.input.startsWith("replace(", this.position)) {
+      this.position += "replace(".length;
+      const text = this.readText();
+      this.expect(",");
+      const placeholder = this.readString();
+      this.expect(",char(");
+      const code = /^\d+/.exec(this.input.slice(this.position));
+      if (!code) {
+        this.fail("character code");
+      }
+      this.position += code[0].length;
+      this.expect("))");
+      return text.split(placeholder).join(String.fromCharCode(parseInt(code[0], 10)));
+    }
+    if (this.input.startsWith("unistr(", this.position)) {
+      this.position += "unistr(".length;
+      const text = this.readString();
+      this.expect(")");
+      return text.replace(/\\(?:u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|\\)/g, (match, short: string, long: string) =>
+        short || long ? String.fromCodePoint(parseInt(short ?? long, 16)) : "\\");
+    }
+    return this.readString();
+  }
+
+  readValue(): ParsedValue {
+    const rest = this.input.slice(this.position, this.position + 8);
+    if (rest.startsWith("NULL")) {
+      this.position += 4;
+      return { value: null, type: "null" };
+    }
+    if (rest.startsWith("X'")) {
+      this.position++;
+      const hex = this.readString();
+      return { value: Buffer.from(hex, "hex").toString("base64"), type: "blob" };
+    }
+    if (rest.startsWith("'") || rest.startsWith("replace(") || rest.startsWith("unistr(")) {
+      return { value: this.readText(), type: "text" };
+    }
+
+    const number = /^-?\d+(?:\.\d*)?(?:[eE][+-]?\d+)?/.exec(this.input.slice(this.position, this.position + 64));
+    if (!number) {
+      this.fail("a value");
+    }
+    this.position += number[0].length;
+    const text = number[0];
+    if (/^-?\d+$/.test(text)) {
+      const integer = Number(text);
+      // Integers beyond 2^53 keep their exact digits
+      return { value: Number.isSafeInteger(integer) ? integer : text, type: "integer" };
+    }
+    return { value: Number(text), type: "real" };
+  }
+
+  /**
+   * Reads the values of one row up to the line break
+   */
+  readRow(): ParsedValue[] {
+    const values = [this.readValue()];
+    while (this.input[this.position] === ",") {
+      this.position++;
+      values.push(this.readValue());
+    }
+    if (this.input.startsWith("\r\n", this.position)) {
+      this.position += 2;
+    } else if (this.input[this.position] === "\n") {
+      this.position++;
+    } else if (!this.done) {
+      this.fail("',' or end of line");
+    }
+    return values;
+  }
+}
+
+/**
+ * Parses `sqlite3` quote mode output with a header row
+ */
+export function parseQuoteModeOutput(output: string): SqliteResult {
+  const parser = new QuoteModeParser(output.replace(/\s+$/, ""));
+  if (parser.done) {
+    // The shell prints no header for an empty result
+    return { columns: [], rows: [] };
+  }
+
+  const names: string[] = [];
+  for (const header of parser.readRow()) {
+    const base = String(header.value);
+    let name = base;
+    for (let suffix = 2; names.includes(name); suffix++) {
+      name = `${base}:${suffix}`;
+    }
+    names.push(name);
+  }
+
+  const types = names.map(() => new Set<SqliteValueType>());
+  const rows: Array<Record<string, SqliteValue>> = [];
+  while (!parser.done) {
+    const values = parser.readRow();
+    if (values.length !== names.length) {
+      throw new Error(`Row ${rows.length + 1} has ${values.length} values for ${names.length} columns`);
+    }
+    const row: Record<string, SqliteValue> = {};
+    values.forEach((parsed, index) => {
+      row[names[index]] = parsed.value;
+      types[index].add(parsed.type);
+    });
+    rows.push(row);
+  }
+
+  const columns = names.map((name, index) => {
+    const seen = Array.from(types[index]);
+    const nonNull = seen.filter((type) => type !== "null");
+    return { name, type: [...nonNull, ...(nonNull.length < seen.length ? ["null"] : [])].join("|") || "null" };
+  });
+  return { columns, rows };
+}
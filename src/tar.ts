@@ -0,0 +1,142 @@
+/**
+ * Minimal tar support for the ADB MCP Server
+ *
+ * Writes ustar archives (long names as GNU long-name entries) and reads
+ * ustar, GNU and pax archives. Only files and directories are kept.
+ */
+
+import { ArchiveFile } from "./archive";
+
+const BLOCK_SIZE = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf8");
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeString(header, value.toString(8).padStart(length - 1, "0"), offset, length - 1);
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
+
+function buildHeader(name: string, size: number, type: string, mode: number, mtime: Date): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.fill(" ", 148, 156);
+  writeString(header, type, 156, 1);
+  writeString(header, "ustar", 257, 6);
+  writeString(header, "00", 263, 2);
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  writeString(header, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+  return header;
+}
+
+/**
+ * Builds a tar archive
+ */
+export function createTar(files: ArchiveFile[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const file of files) {
+    const name = file.directory ? `${file.name.replace(/\/+$/, "")}/` : file.name;
+    const data = file.directory ? Buffer.alloc(0) : file.data;
+    const mtime = file.mtime ?? new Date();
+    const mode = file.mode ?? (file.directory ? 0o755 : 0o644);
+
+    if (Buffer.byteLength(name) > 100) {
+      const longName = Buffer.from(`${name}\0`);
+      blocks.push(buildHeader("././@LongLink", longName.length, "L", 0o644, mtime), longName, padding(longName.length));
+    }
+    blocks.push(buildHeader(name, data.length, file.directory ? "5" : "0", mode, mtime), data, padding(data.length));
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const end = block.indexOf(0, offset);
+  return block.toString("utf8", offset, end >= 0 && end < offset + length ? end : offset + length);
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function parsePaxPath(data: Buffer): string | undefined {
+  // Records are "<length> <key>=<value>\n"
+  for (const record of data.toString("utf8").split("\n")) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * True when the buffer starts with a tar header
+ */
+export function isTar(archive: Buffer): boolean {
+  return archive.length >= BLOCK_SIZE && archive.toString("ascii", 257, 262) === "ustar";
+}
+
+/**
+ * Lists the files and directories of a tar archive held in memory
+ */
+export function readTarEntries(archive: Buffer): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > archive.length) {
+      throw new Error(`Truncated tar archive at offset ${offset}`);
+    }
+    const data = archive.subarray(dataStart, dataStart + size);
+    offset = dataStart + size + padding(size).length;
+
+    if (type === "L" || type === "x") {
+      longName = type === "L" ? readString(data, 0, data.length) : parsePaxPath(data) ?? longName;
+      continue;
+    }
+    if (type === "g") {
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    longName = undefined;
+
+    if (type === "5" || (type === "0" && name.endsWith("/"))) {
+      files.push({ name: name.replace(/\/+$/, ""), data: Buffer.alloc(0), directory: true, mode: readOctal(header, 100, 8) });
+    } else if (type === "0" || type === "7") {
+      files.push({
+        name,
+        data: Buffer.from(data),
+        mode: readOctal(header, 100, 8),
+        mtime: new Date(readOctal(header, 136, 12) * 1000)
+      });
+    }
+    // Links and special files are skipped
+  }
+  return files;
+}
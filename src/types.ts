@@ -6,15 +6,50 @@ import { z } from 'zod';
 
 // RequestHandlerExtra interface for MCP SDK
 export interface RequestHandlerExtra {
-  uri: URL;
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  sessionId?: string;
+  /** Request metadata, including the client's progress token */
+  _meta?: { progressToken?: string | number; [key: string]: unknown };
+  /** Sends a notification related to the request, e.g. progress */
+  sendNotification?: (notification: { method: string; params?: Record<string, unknown> }) => Promise<void>;
   [key: string]: unknown;
 }
 
+/**
+ * Text content item in a tool response
+ */
+export interface TextContent {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Image content item in a tool response (base64 data plus mime type)
+ */
+export interface ImageContent {
+  type: "image";
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Embedded resource item in a tool response (a file with its URI and mime type)
+ */
+export interface EmbeddedResourceContent {
+  type: "resource";
+  resource: {
+    uri: string;
+    mimeType: string;
+    blob: string;
+  };
+}
+
 /**
  * Response type for command execution
  */
 export interface CommandResponse {
-  content: Array<{ type: string; text: string }>;
+  content: Array<TextContent | ImageContent | EmbeddedResourceContent>;
   isError?: boolean;
   [key: string]: unknown;
 }
@@ -39,64 +74,537 @@ export enum LogLevel {
 }
 
 // Schema definitions for tool inputs
+
+// Optional per-call override of the adb command timeout, shared by the tool schemas
+export const commandTimeoutSchema = z.number().int().min(0).optional().describe(
+  "Timeout in milliseconds for each adb command this tool runs; 0 disables it (default: server/tool setting)"
+);
+
+export const confirmationTokenSchema = z.string().optional().describe(
+  "Token from a previous refusal that requires confirmation; re-run the identical command with it to proceed"
+);
+
 export const adbDevicesInputSchema = {
-  random_string: z.string().optional()
+  random_string: z.string().optional(),
+  details: z.boolean().optional().describe(
+    "Also read properties of online devices: SDK level, Android release, ABI, manufacturer, screen size/density and battery (default: false)"
+  ),
+  timeoutMs: commandTimeoutSchema
 };
 
 export const adbShellInputSchema = {
   command: z.string().describe("Shell command to execute on the device"),
-  device: z.string().optional().describe("Specific device ID (optional)")
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
 };
 
 export const adbInstallInputSchema = {
-  apkPath: z.string().describe("Local path to the APK file"),
-  device: z.string().optional().describe("Specific device ID (optional)")
+  apkPath: z.string().optional().describe(
+    "Local path to an APK file, a directory of split APKs, or a bundletool .apks archive"
+  ),
+  apkPaths: z.array(z.string()).optional().describe("Local paths of split APKs installed together with install-multiple"),
+  apkBase64: z.string().optional().describe("APK (or .apks archive, see fileName) content as base64, for clients without access to the server's filesystem"),
+  uploadId: z.string().optional().describe("Install a file staged with adb_upload_chunk"),
+  fileName: z.string().optional().describe("File name for apkBase64, e.g. 'app.apks' for a bundletool archive (default: app.apk)"),
+  sha256: z.string().optional().describe("Expected SHA-256 of the inline or staged file; the install is refused on mismatch"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  devices: z.array(z.string()).optional().describe("Install on each of these devices in parallel"),
+  replace: z.boolean().optional().describe("Replace an existing app (-r, default: true)"),
+  allowDowngrade: z.boolean().optional().describe("Allow version code downgrade (-d)"),
+  grantPermissions: z.boolean().optional().describe("Grant all runtime permissions (-g)"),
+  allowTest: z.boolean().optional().describe("Allow test-only packages (-t)"),
+  user: z.string().optional().describe("Install for this user id, 'current' or 'all' (--user)"),
+  abi: z.string().optional().describe("Override the platform ABI (--abi)"),
+  incremental: z.boolean().optional().describe("Use (true) or disable (false) incremental install; default: adb decides"),
+  timeoutMs: commandTimeoutSchema
 };
 
 export const adbLogcatInputSchema = {
   filter: z.string().optional().describe("Logcat filter expression (optional)"),
   device: z.string().optional().describe("Specific device ID (optional)"),
-  lines: z.number().optional().default(50).describe("Number of lines to return (default: 50)")
+  lines: z.number().optional().default(50).describe("Number of lines to return (default: 50)"),
+  output: z.enum(["text", "records", "findings"]).optional().default("text").describe(
+    "'text' returns raw log lines; 'records' returns JSON records (timestamp, pid, tid, level, tag, message) plus crash/ANR findings; " +
+    "'findings' returns only the Java crash, native crash and ANR findings (default: text)"
+  ),
+  timeoutMs: commandTimeoutSchema
 };
 
 export const adbPullInputSchema = {
   remotePath: z.string().describe("Remote file path on the device"),
   device: z.string().optional().describe("Specific device ID (optional)"),
-  asBase64: z.boolean().optional().default(true).describe("Return file content as base64 (default: true)")
+  asBase64: z.boolean().optional().default(true).describe("Return file content as base64 (default: true)"),
+  asResource: z.boolean().optional().describe(
+    "Return the content as an embedded resource (blob) with a mime type detected from the file name"
+  ),
+  offset: z.number().int().min(0).optional().describe(
+    "Read a chunk starting at this byte offset instead of the whole file; the response includes the next offset and checksums"
+  ),
+  length: z.number().int().min(1).max(8 * 1024 * 1024).optional().describe(
+    "Maximum chunk size in bytes for chunked reads (default: 1048576)"
+  ),
+  transferId: z.string().optional().describe(
+    "Transfer returned by a previous chunked read; continues from the same snapshot of the file without pulling it again"
+  ),
+  timeoutMs: commandTimeoutSchema
 };
 
 export const adbPushInputSchema = {
-  fileBase64: z.string().describe("Base64 encoded file content to push"),
+  fileBase64: z.string().optional().describe("Base64 encoded file content to push, or the next chunk when offset is set"),
+  uploadId: z.string().optional().describe("Push a file staged with adb_upload_chunk instead of fileBase64"),
   remotePath: z.string().describe("Remote file path on the device"),
-  device: z.string().optional().describe("Specific device ID (optional)")
+  offset: z.number().int().min(0).optional().describe(
+    "Write fileBase64 as a chunk at this byte offset: 0 creates or truncates the file, later chunks must start at the current remote size"
+  ),
+  sha256: z.string().optional().describe(
+    "Expected SHA-256 (hex) of the complete remote file, checked on the device after the write; send it with the last chunk"
+  ),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const adbListDirInputSchema = {
+  remotePath: z.string().describe("Directory on the device"),
+  recursive: z.boolean().optional().describe("List the whole tree instead of only the direct children"),
+  maxDepth: z.number().int().min(1).optional().describe("Depth limit for recursive listings (1 = direct children)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const adbStatInputSchema = {
+  remotePath: z.string().describe("File or directory on the device"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const adbPullDirInputSchema = {
+  remotePath: z.string().describe("Directory on the device"),
+  format: z.enum(["tar", "zip"]).optional().default("tar").describe("Archive format (default: tar)"),
+  knownFiles: z.record(z.string()).optional().describe(
+    "Sync mode: SHA-256 per relative path from a previous pull (its 'files' field); only new or changed files are transferred"
+  ),
+  asResource: z.boolean().optional().describe("Return the archive as an embedded resource (blob) instead of base64 in the JSON"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const adbPushDirInputSchema = {
+  archiveBase64: z.string().optional().describe("Base64 encoded tar or ZIP archive with the directory contents"),
+  uploadId: z.string().optional().describe("Archive staged with adb_upload_chunk instead of archiveBase64"),
+  sha256: z.string().optional().describe("Expected SHA-256 (hex) of the archive, checked before extracting"),
+  remotePath: z.string().describe("Destination directory on the device; created when missing"),
+  sync: z.boolean().optional().describe("Only push files whose content differs from the device"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+const appPackageNameSchema = z.string().describe("Package name of a debuggable app, e.g. 'com.example.app'");
+
+export const appDataListInputSchema = {
+  packageName: appPackageNameSchema,
+  path: z.string().optional().describe("Directory relative to the app's data directory, e.g. 'databases' (default: the data directory)"),
+  recursive: z.boolean().optional().describe("List the whole tree instead of only the direct children"),
+  maxDepth: z.number().int().min(1).optional().describe("Depth limit for recursive listings (1 = direct children)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appDataReadInputSchema = {
+  packageName: appPackageNameSchema,
+  path: z.string().describe("File relative to the app's data directory, e.g. 'files/config.json' or 'databases/app.db'"),
+  asResource: z.boolean().optional().describe("Return the content as an embedded resource (blob) with a mime type detected from the file name"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appDataWriteInputSchema = {
+  packageName: appPackageNameSchema,
+  path: z.string().describe("File relative to the app's data directory; missing parent directories are created"),
+  contentBase64: z.string().describe("Base64 encoded file content"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appPrefsGetInputSchema = {
+  packageName: appPackageNameSchema,
+  file: z.string().optional().describe("SharedPreferences file name, e.g. 'settings' for shared_prefs/settings.xml; omit to read all files"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+const sharedPrefTypeSchema = z.enum(["string", "int", "long", "float", "boolean", "set"]);
+
+export const appPrefsSetInputSchema = {
+  packageName: appPackageNameSchema,
+  file: z.string().describe("SharedPreferences file name, e.g. 'settings' for shared_prefs/settings.xml; created when missing"),
+  set: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())])).optional().describe(
+    "Keys to set. Existing keys keep their type; new keys get one from the value (whole numbers become int, or long when too large)"
+  ),
+  types: z.record(sharedPrefTypeSchema).optional().describe("Explicit types for keys in set, e.g. {\"lastSync\": \"long\"}"),
+  remove: z.array(z.string()).optional().describe("Keys to remove"),
+  forceStop: z.boolean().optional().describe(
+    "Force-stop the app first so it does not overwrite the file with its in-memory values (default: false)"
+  ),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appDbQueryInputSchema = {
+  database: z.string().describe(
+    "Database name in the app's databases directory (e.g. 'app.db'), a path relative to its data directory, " +
+    "or a device path such as '/sdcard/test.db' when packageName is omitted"
+  ),
+  packageName: z.string().optional().describe("Debuggable app that owns the database; omit for databases the shell can read"),
+  sql: z.string().describe("SQL statement to run, e.g. \"SELECT * FROM users WHERE id = 1\""),
+  write: z.boolean().optional().describe("Allow statements that modify the database (default: read-only; needs sqlite3 on the device)"),
+  maxRows: z.number().int().min(1).max(10000).optional().default(500).describe("Maximum number of rows to return (default: 500)"),
+  queryOn: z.enum(["auto", "device", "server"]).optional().default("auto").describe(
+    "Where to run sqlite3: 'auto' uses the device's sqlite3 when available and otherwise pulls the database to the server"
+  ),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
+};
+
+// App info tool schemas
+export const appListInputSchema = {
+  filter: z.string().optional().describe("Only list packages whose name contains this text"),
+  type: z.enum(["all", "third_party", "system"]).optional().default("all").describe("Which packages to list (default: all)"),
+  state: z.enum(["all", "enabled", "disabled"]).optional().default("all").describe("Only list enabled or disabled packages (default: all)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appInfoInputSchema = {
+  packageName: z.string().describe("Package name, e.g. 'com.example.app'"),
+  user: z.number().int().min(0).optional().describe("User whose install state and runtime permissions are reported (default: 0)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+// Permission tool schemas
+const appOpModeSchema = z.enum(["allow", "ignore", "deny", "default", "foreground"]);
+const permissionUserSchema = z.number().int().min(0).optional().describe("User whose permissions are read or changed (default: the current user)");
+
+export const appPermissionsInputSchema = {
+  packageName: z.string().describe("Package name, e.g. 'com.example.app'"),
+  user: permissionUserSchema,
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appPermissionsSetInputSchema = {
+  packageName: z.string().describe("Package name, e.g. 'com.example.app'"),
+  grant: z.array(z.string()).optional().describe("Runtime permissions to grant, e.g. ['android.permission.CAMERA']"),
+  revoke: z.array(z.string()).optional().describe("Runtime permissions to revoke"),
+  appOps: z.record(appOpModeSchema).optional().describe("App-op modes to set, e.g. {\"SYSTEM_ALERT_WINDOW\": \"allow\", \"RUN_IN_BACKGROUND\": \"ignore\"}"),
+  user: permissionUserSchema,
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appPermissionsResetInputSchema = {
+  packageName: z.string().describe("Package name, e.g. 'com.example.app'"),
+  appOps: z.boolean().optional().default(true).describe("Also reset app-op modes (default: true)"),
+  user: permissionUserSchema,
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appPermissionsRestoreInputSchema = {
+  snapshot: z.object({
+    packageName: z.string(),
+    runtimePermissions: z.array(z.object({
+      name: z.string(),
+      granted: z.boolean(),
+      flags: z.array(z.string()).optional()
+    })),
+    appOps: z.record(z.string()).optional().default({}),
+    uidAppOps: z.record(z.string()).optional().default({})
+  }).describe("Permission state returned by app_permissions"),
+  packageName: z.string().optional().describe("Apply the snapshot to this package instead of the one it was taken from"),
+  user: permissionUserSchema,
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+// App lifecycle tool schemas
+export const appLaunchInputSchema = {
+  packageName: z.string().describe("Package name, e.g. 'com.example.app'"),
+  activity: z.string().optional().describe("Activity to start, e.g. 'com.example.app/.MainActivity' or '.MainActivity' (default: the launcher activity)"),
+  startMode: z.enum(["default", "cold", "warm"]).optional().default("default").describe(
+    "'cold' force-stops the app before each launch; 'warm' starts it once and sends it to the background with HOME before each launch; " +
+    "'default' launches it as it is (default: default)"
+  ),
+  clearData: z.boolean().optional().default(false).describe("Clear the app's data before each launch (implies a cold start; needs confirmation under the default policy)"),
+  runs: z.number().int().min(1).max(20).optional().default(1).describe("Number of launches to measure (default: 1)"),
+  waitForActivity: z.string().optional().describe(
+    "After each launch, wait until this activity is resumed, e.g. '.HomeActivity' after a splash screen"
+  ),
+  waitTimeoutMs: z.number().int().positive().optional().default(10000).describe("How long to wait for waitForActivity in milliseconds (default: 10000)"),
+  user: z.number().int().min(0).optional().describe("User to start the app for (default: the current user)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
+};
+
+export const appStopInputSchema = {
+  packageName: z.string().describe("Package name, e.g. 'com.example.app'"),
+  clearData: z.boolean().optional().default(false).describe("Also clear the app's data and cache (needs confirmation under the default policy)"),
+  user: z.number().int().min(0).optional().describe("User to stop the app for (default: all users for force-stop, the current user for clearing)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
+};
+
+/** Intent flags am accepts by name */
+export const INTENT_FLAGS = [
+  "grant-read-uri-permission", "grant-write-uri-permission", "grant-persistable-uri-permission", "grant-prefix-uri-permission",
+  "exclude-stopped-packages", "include-stopped-packages", "debug-log-resolution",
+  "activity-brought-to-front", "activity-clear-top", "activity-clear-when-task-reset", "activity-exclude-from-recents",
+  "activity-launched-from-history", "activity-multiple-task", "activity-no-animation", "activity-no-history",
+  "activity-no-user-action", "activity-previous-is-top", "activity-reorder-to-front", "activity-reset-task-if-needed",
+  "activity-single-top", "activity-clear-task", "activity-task-on-home", "activity-match-external",
+  "activity-new-task", "receiver-registered-only", "receiver-replace-pending", "receiver-foreground",
+  "receiver-no-abort", "receiver-include-background"
+] as const;
+
+// Intent tool schema
+export const adbIntentInputSchema = {
+  target: z.enum(["activity", "service", "foreground_service", "broadcast"]).optional().default("activity").describe(
+    "What to send the intent to: 'activity' (am start), 'service' (am startservice), 'foreground_service' or 'broadcast' (default: activity)"
+  ),
+  action: z.string().optional().describe("Intent action, e.g. 'android.intent.action.VIEW'"),
+  data: z.string().optional().describe("Data URI, e.g. 'https://example.com/path?a=1&b=2' or 'myapp://open/item/42'"),
+  mimeType: z.string().optional().describe("MIME type, e.g. 'text/plain'"),
+  categories: z.array(z.string()).optional().describe("Categories, e.g. ['android.intent.category.BROWSABLE']"),
+  component: z.string().optional().describe("Explicit component, e.g. 'com.example.app/.MainActivity'"),
+  package: z.string().optional().describe("Limit resolution to this package"),
+  flags: z.array(z.enum(INTENT_FLAGS)).optional().describe("Named intent flags, e.g. ['activity-clear-task', 'activity-new-task']"),
+  flagsValue: z.number().int().optional().describe("Numeric intent flags (Intent.FLAG_* bits), passed with -f"),
+  extras: z.array(z.object({
+    key: z.string().describe("Extra name"),
+    type: z.enum(["string", "int", "long", "bool", "float", "string_array", "uri", "component", "null"]).describe("Extra type"),
+    value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional().describe(
+      "Value: a string, number or boolean, an array for string_array, 'package/class' for component; omitted for null"
+    )
+  })).optional().describe("Typed extras, e.g. a JSON payload as a string extra; values are quoted for the device shell"),
+  wait: z.boolean().optional().default(false).describe("For activities: wait for the launch to complete and report its timing (am start -W) (default: false)"),
+  user: z.number().int().min(0).optional().describe("User to send the intent as (default: the current user)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
+};
+
+// Dumpsys tool schema
+export const dumpsysInputSchema = {
+  service: z.string().optional().describe("Service to dump, e.g. 'activity', 'window', 'meminfo'; omit to list the device's services"),
+  args: z.array(z.string()).optional().describe("Arguments for the service, e.g. ['activities'] for activity or ['com.example.app'] for meminfo, gfxinfo and package"),
+  raw: z.boolean().optional().default(false).describe("Return the text output even when there is a parser for the service (default: false)"),
+  maxLines: z.number().int().positive().optional().default(2000).describe("Maximum lines of text output returned (default: 2000)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
+};
+
+// UI element selector shared by the element tools
+export const uiSelectorInputSchema = {
+  text: z.string().optional().describe("Exact text of the element"),
+  textContains: z.string().optional().describe("Case-insensitive substring of the element text"),
+  resourceId: z.string().optional().describe("Resource ID, either fully qualified ('com.example:id/login') or just the id name ('login')"),
+  contentDesc: z.string().optional().describe("Exact content description (accessibility label)"),
+  contentDescContains: z.string().optional().describe("Case-insensitive substring of the content description"),
+  className: z.string().optional().describe("Class name, full ('android.widget.Button') or short ('Button')"),
+  packageName: z.string().optional().describe("Package that owns the element"),
+  clickable: z.boolean().optional().describe("Only match clickable (or non-clickable) elements"),
+  scrollable: z.boolean().optional().describe("Only match scrollable (or non-scrollable) elements"),
+  enabled: z.boolean().optional().describe("Only match enabled (or disabled) elements"),
+  xpath: z.string().optional().describe("XPath-like selector, e.g. \"//android.widget.Button[@text='OK']\" or \"//*[contains(@resource-id,'login')][1]\"")
 };
 
 export const dumpImageInputSchema = {
   device: z.string().optional().describe("Specific device ID (optional)"),
-  asBase64: z.boolean().optional().default(false).describe("Return image as base64 (default: false)")
+  format: z.enum(["png", "jpeg", "webp"]).optional().default("png").describe("Image encoding of the returned screenshot (default: png)"),
+  quality: z.number().int().min(1).max(100).optional().default(80).describe("Quality for jpeg/webp encoding, 1-100 (default: 80)"),
+  maxWidth: z.number().int().positive().optional().describe("Downscale so the image is at most this many pixels wide (keeps aspect ratio)"),
+  maxHeight: z.number().int().positive().optional().describe("Downscale so the image is at most this many pixels high (keeps aspect ratio)"),
+  scale: z.number().positive().max(1).optional().describe("Downscale factor between 0 and 1, e.g. 0.5 for half size"),
+  crop: z.object({
+    x: z.number().int().min(0).describe("Left edge in screen pixels"),
+    y: z.number().int().min(0).describe("Top edge in screen pixels"),
+    width: z.number().int().positive().describe("Width in screen pixels"),
+    height: z.number().int().positive().describe("Height in screen pixels")
+  }).optional().describe("Crop the screenshot to this rectangle before scaling"),
+  element: z.object(uiSelectorInputSchema).optional().describe("Crop the screenshot to the bounds of the first UI element matching this selector (same fields as find_elements)"),
+  padding: z.number().int().min(0).optional().default(0).describe("Extra pixels to keep around an element crop (default: 0)"),
+  timeoutMs: commandTimeoutSchema
 };
 
 export const inspectUiInputSchema = {
   device: z.string().optional().describe("Specific device ID (optional)"),
-  outputPath: z.string().optional().describe("Custom output path on device (default: /sdcard/window_dump.xml)"),
-  asBase64: z.boolean().optional().default(false).describe("Return XML content as base64 (default: false)")
+  outputPath: z.string().optional().describe("Custom output path on device (default: a temporary file in /sdcard that is removed afterwards)"),
+  asBase64: z.boolean().optional().default(false).describe("Return XML content as base64 (default: false)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const uploadChunkInputSchema = {
+  uploadId: z.string().optional().describe("Upload to continue; omit to start a new upload"),
+  fileName: z.string().optional().describe("Name of the uploaded file when starting an upload, e.g. 'app.apk'"),
+  chunkBase64: z.string().describe("Next chunk of the file as base64; send an empty chunk to query the upload state"),
+  offset: z.number().int().min(0).optional().describe(
+    "Byte offset of this chunk; must equal the bytes received so far (default: append)"
+  )
 };
 
 // Activity Manager tool schema
 export const adbActivityManagerSchema = z.object({
   amCommand: z.string().describe("Activity Manager subcommand, e.g. 'start', 'broadcast', 'force-stop', etc."),
   amArgs: z.string().optional().describe("Arguments for the am subcommand, e.g. '-a android.intent.action.VIEW'"),
-  device: z.string().optional().describe("Specific device ID (optional)")
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
 });
 
 // Package Manager tool schema
 export const adbPackageManagerSchema = z.object({
   pmCommand: z.string().describe("Package Manager subcommand, e.g. 'list', 'install', 'uninstall', 'grant', 'revoke', etc."),
   pmArgs: z.string().optional().describe("Arguments for the pm subcommand, e.g. 'packages', 'com.example.app android.permission.CAMERA'"),
-  device: z.string().optional().describe("Specific device ID (optional)")
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  confirmationToken: confirmationTokenSchema,
+  timeoutMs: commandTimeoutSchema
+});
+
+export const findElementsInputSchema = {
+  ...uiSelectorInputSchema,
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  limit: z.number().int().positive().optional().default(20).describe("Maximum number of elements to return (default: 20)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const elementActionInputSchema = {
+  ...uiSelectorInputSchema,
+  action: z.enum(["tap", "long_press", "type", "scroll_to"]).describe("Action to perform on the matched element"),
+  matchIndex: z.number().int().min(0).optional().default(0).describe("Which match to act on when several elements match (default: 0, the first)"),
+  inputText: z.string().optional().describe("Text to enter (required for action 'type')"),
+  clearText: z.boolean().optional().default(false).describe("For 'type': delete the element's existing text before typing (default: false)"),
+  durationMs: z.number().int().positive().optional().default(800).describe("For 'long_press': press duration in milliseconds (default: 800)"),
+  direction: z.enum(["down", "up"]).optional().default("down").describe("For 'scroll_to': direction to scroll the content (default: down)"),
+  maxScrolls: z.number().int().min(1).max(50).optional().default(10).describe("For 'scroll_to': maximum number of scroll gestures (default: 10)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const screenStateInputSchema = {
+  diff: z.boolean().optional().default(false).describe("Return only what changed since the previous screen_state call for the device instead of the whole tree (default: false)"),
+  maxTextLength: z.number().int().positive().optional().default(80).describe("Truncate element text and descriptions to this many characters (default: 80)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+// Input gesture tool schemas
+const pointSchema = z.object({
+  x: z.number().describe("X coordinate in pixels"),
+  y: z.number().describe("Y coordinate in pixels")
 });
 
+export const inputTapInputSchema = {
+  x: z.number().describe("X coordinate in pixels"),
+  y: z.number().describe("Y coordinate in pixels"),
+  gesture: z.enum(["tap", "double_tap", "long_press"]).optional().default("tap").describe("Kind of tap (default: tap)"),
+  durationMs: z.number().int().positive().optional().default(800).describe("Press duration for long_press in milliseconds (default: 800)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const inputSwipeInputSchema = {
+  x1: z.number().describe("Start X coordinate in pixels"),
+  y1: z.number().describe("Start Y coordinate in pixels"),
+  x2: z.number().describe("End X coordinate in pixels"),
+  y2: z.number().describe("End Y coordinate in pixels"),
+  durationMs: z.number().int().positive().optional().default(300).describe("Gesture duration in milliseconds (default: 300)"),
+  mode: z.enum(["swipe", "drag"]).optional().default("swipe").describe("'swipe' for scrolling/flinging, 'drag' for drag-and-drop (Android 7+) (default: swipe)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const inputPathInputSchema = {
+  points: z.array(pointSchema).min(2).describe("Points the pointer moves through, in order"),
+  segmentDurationMs: z.number().int().min(0).optional().default(50).describe("Pause between consecutive points in milliseconds (default: 50)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const inputKeyeventInputSchema = {
+  keys: z.array(z.string()).min(1).describe("Key names or codes sent in order, e.g. ['BACK'], ['HOME'], ['ENTER'], ['KEYCODE_DEL'], ['4']"),
+  longPress: z.boolean().optional().default(false).describe("Send the keys as long presses (default: false)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const inputTextInputSchema = {
+  text: z.string().min(1).describe("Text to type into the focused field (printable ASCII; newlines press ENTER)"),
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+// Logcat session tool schemas
+export const logcatSessionStartInputSchema = {
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  buffers: z.array(z.enum(["main", "system", "crash", "events", "radio", "all"])).optional().describe("Log buffers to read (default: device default, usually main, system and crash)"),
+  priority: z.enum(["V", "D", "I", "W", "E", "F"]).optional().default("V").describe("Minimum priority: V(erbose), D(ebug), I(nfo), W(arn), E(rror), F(atal) (default: V)"),
+  tags: z.array(z.string()).optional().describe("Only capture these tags, optionally with a priority ('ActivityManager', 'MyApp:D'); all other tags are silenced"),
+  pid: z.number().int().positive().optional().describe("Only capture lines from this process ID"),
+  packageName: z.string().optional().describe("Only capture lines from processes of this package (tracked across app restarts)"),
+  backlog: z.number().int().min(0).optional().default(0).describe("Number of already-buffered lines to include at start (default: 0, only new lines)"),
+  maxLines: z.number().int().positive().max(100000).optional().default(5000).describe("Maximum number of lines kept in memory for polling (default: 5000)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const logcatSessionPollInputSchema = {
+  sessionId: z.string().describe("Session ID returned by logcat_session_start"),
+  cursor: z.number().int().min(0).optional().default(0).describe("Return lines after this cursor; pass nextCursor from the previous poll (default: 0, everything buffered)"),
+  maxLines: z.number().int().positive().optional().default(200).describe("Maximum number of lines to return (default: 200)")
+};
+
+export const logcatSessionStopInputSchema = {
+  sessionId: z.string().describe("Session ID returned by logcat_session_start")
+};
+
+export const logcatSessionListInputSchema = {};
+
+// Bugreport tool schema
+export const adbBugreportInputSchema = {
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  sections: z.array(z.string()).optional().describe(
+    "Also return the text of these sections: dumpstate section titles ('MEMORY INFO', 'SYSTEM LOG') or dumpsys services ('dumpsys activity', 'meminfo')"
+  ),
+  maxSectionLines: z.number().int().positive().optional().default(200).describe("Maximum lines returned per requested section (default: 200)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+// Screen recording tool schemas
+export const screenrecordStartInputSchema = {
+  device: z.string().optional().describe("Specific device ID (optional)"),
+  size: z.string().regex(/^\d+x\d+$/).optional().describe("Video size as WIDTHxHEIGHT, e.g. '1280x720' (default: the display size)"),
+  bitRate: z.number().int().positive().optional().describe("Video bit rate in bits per second, e.g. 4000000 (default: screenrecord's, 20 Mbps on recent releases)"),
+  timeLimitSec: z.number().int().positive().max(3600).optional().default(180).describe(
+    "Total recording time in seconds (default: 180). screenrecord stops after 3 minutes, so longer recordings are chained from several MP4 segments"
+  ),
+  bugreport: z.boolean().optional().default(false).describe("Overlay a timestamp and frame counter on the video (default: false)"),
+  timeoutMs: commandTimeoutSchema
+};
+
+export const screenrecordStopInputSchema = {
+  sessionId: z.string().describe("Session ID returned by screenrecord_start"),
+  asResource: z.boolean().optional().default(true).describe(
+    "Embed the segments as video/mp4 resources when they fit in one response; otherwise return transfer IDs for chunked reads with adb_pull (default: true)"
+  ),
+  keepOnDevice: z.boolean().optional().default(false).describe("Keep the recorded files on the device (default: false, they are deleted after pulling)"),
+  timeoutMs: commandTimeoutSchema
+};
 
+export const screenrecordListInputSchema = {};
 
 // Zod schema objects
 export const AdbDevicesSchema = z.object(adbDevicesInputSchema);
@@ -105,10 +613,47 @@ export const AdbInstallSchema = z.object(adbInstallInputSchema);
 export const AdbLogcatSchema = z.object(adbLogcatInputSchema);
 export const AdbPullSchema = z.object(adbPullInputSchema);
 export const AdbPushSchema = z.object(adbPushInputSchema);
+export const UploadChunkSchema = z.object(uploadChunkInputSchema);
+export const AdbListDirSchema = z.object(adbListDirInputSchema);
+export const AdbStatSchema = z.object(adbStatInputSchema);
+export const AdbPullDirSchema = z.object(adbPullDirInputSchema);
+export const AdbPushDirSchema = z.object(adbPushDirInputSchema);
+export const AppDataListSchema = z.object(appDataListInputSchema);
+export const AppDataReadSchema = z.object(appDataReadInputSchema);
+export const AppDataWriteSchema = z.object(appDataWriteInputSchema);
+export const AppPrefsGetSchema = z.object(appPrefsGetInputSchema);
+export const AppPrefsSetSchema = z.object(appPrefsSetInputSchema);
+export const AppDbQuerySchema = z.object(appDbQueryInputSchema);
+export const AppListSchema = z.object(appListInputSchema);
+export const AppInfoSchema = z.object(appInfoInputSchema);
+export const AppPermissionsSchema = z.object(appPermissionsInputSchema);
+export const AppPermissionsSetSchema = z.object(appPermissionsSetInputSchema);
+export const AppPermissionsResetSchema = z.object(appPermissionsResetInputSchema);
+export const AppPermissionsRestoreSchema = z.object(appPermissionsRestoreInputSchema);
+export const AppLaunchSchema = z.object(appLaunchInputSchema);
+export const AppStopSchema = z.object(appStopInputSchema);
+export const AdbIntentSchema = z.object(adbIntentInputSchema);
+export const DumpsysSchema = z.object(dumpsysInputSchema);
 export const AdbScreenshotSchema = z.object(dumpImageInputSchema);
 export const AdbUidumpSchema = z.object(inspectUiInputSchema);
 export const AdbActivityManagerSchema = adbActivityManagerSchema;
 export const AdbPackageManagerSchema = adbPackageManagerSchema;
+export const FindElementsSchema = z.object(findElementsInputSchema);
+export const ElementActionSchema = z.object(elementActionInputSchema);
+export const ScreenStateSchema = z.object(screenStateInputSchema);
+export const InputTapSchema = z.object(inputTapInputSchema);
+export const InputSwipeSchema = z.object(inputSwipeInputSchema);
+export const InputPathSchema = z.object(inputPathInputSchema);
+export const InputKeyeventSchema = z.object(inputKeyeventInputSchema);
+export const InputTextSchema = z.object(inputTextInputSchema);
+export const LogcatSessionStartSchema = z.object(logcatSessionStartInputSchema);
+export const LogcatSessionPollSchema = z.object(logcatSessionPollInputSchema);
+export const LogcatSessionStopSchema = z.object(logcatSessionStopInputSchema);
+export const LogcatSessionListSchema = z.object(logcatSessionListInputSchema);
+export const AdbBugreportSchema = z.object(adbBugreportInputSchema);
+export const ScreenrecordStartSchema = z.object(screenrecordStartInputSchema);
+export const ScreenrecordStopSchema = z.object(screenrecordStopInputSchema);
+export const ScreenrecordListSchema = z.object(screenrecordListInputSchema);
 
 // Input type definitions
 export type AdbDevicesInput = z.infer<typeof AdbDevicesSchema>;
@@ -120,4 +665,15 @@ export type AdbPushInput = z.infer<typeof AdbPushSchema>;
 export type AdbScreenshotInput = z.infer<typeof AdbScreenshotSchema>;
 export type AdbUidumpInput = z.infer<typeof AdbUidumpSchema>; 
 export type AdbActivityManagerInput = z.infer<typeof AdbActivityManagerSchema>;
-export type AdbPackageManagerInput = z.infer<typeof AdbPackageManagerSchema>;
\ No newline at end of file
+export type AdbPackageManagerInput = z.infer<typeof AdbPackageManagerSchema>;
+export type FindElementsInput = z.infer<typeof FindElementsSchema>;
+export type ElementActionInput = z.infer<typeof ElementActionSchema>;
+export type ScreenStateInput = z.infer<typeof ScreenStateSchema>;
+export type InputTapInput = z.infer<typeof InputTapSchema>;
+export type InputSwipeInput = z.infer<typeof InputSwipeSchema>;
+export type InputPathInput = z.infer<typeof InputPathSchema>;
+export type InputKeyeventInput = z.infer<typeof InputKeyeventSchema>;
+export type InputTextInput = z.infer<typeof InputTextSchema>;
+export type LogcatSessionStartInput = z.infer<typeof LogcatSessionStartSchema>;
+export type LogcatSessionPollInput = z.infer<typeof LogcatSessionPollSchema>;
+export type LogcatSessionStopInput = z.infer<typeof LogcatSessionStopSchema>;
\ No newline at end of file
@@ -0,0 +1,454 @@
+/**
+ * UI hierarchy helpers for the ADB MCP Server
+ *
+ * Parses the XML produced by `uiautomator dump` into a tree of nodes and
+ * resolves element selectors (attribute matches or a small XPath subset)
+ * against it. Nothing in here talks to a device, so it can be used on any
+ * dump regardless of where it came from.
+ */
+
+export interface UiBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface UiNode {
+  index: number;
+  text: string;
+  resourceId: string;
+  className: string;
+  packageName: string;
+  contentDesc: string;
+  checkable: boolean;
+  checked: boolean;
+  clickable: boolean;
+  enabled: boolean;
+  focusable: boolean;
+  focused: boolean;
+  scrollable: boolean;
+  longClickable: boolean;
+  password: boolean;
+  selected: boolean;
+  bounds: UiBounds;
+  /** Raw attributes exactly as they appeared in the dump */
+  attributes: Record<string, string>;
+  children: UiNode[];
+  parent?: UiNode;
+  /** Slash-separated index path from the root, e.g. "0/2/1" */
+  path: string;
+}
+
+/**
+ * Attribute based element selector. All provided fields must match.
+ */
+export interface UiSelector {
+  text?: string;
+  textContains?: string;
+  resourceId?: string;
+  contentDesc?: string;
+  contentDescContains?: string;
+  className?: string;
+  packageName?: string;
+  clickable?: boolean;
+  scrollable?: boolean;
+  enabled?: boolean;
+  xpath?: string;
+}
+
+/**
+ * Compact JSON representation of a node returned by the element tools
+ */
+export interface UiElementSummary {
+  path: string;
+  text: string;
+  resourceId: string;
+  contentDesc: string;
+  className: string;
+  packageName: string;
+  clickable: boolean;
+  longClickable: boolean;
+  scrollable: boolean;
+  enabled: boolean;
+  focused: boolean;
+  selected: boolean;
+  checked: boolean;
+  bounds: UiBounds;
+  center: { x: number; y: number };
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'"
+};
+
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parses a uiautomator bounds string such as "[0,63][1080,210]"
+ */
+export function parseBounds(value: string | undefined): UiBounds {
+  const match = value ? /\[(-?\d+),(-?\d+)\]\[(-?\d+),(-?\d+)\]/.exec(value) : null;
+  if (!match) {
+    return { left: 0, top: 0, right: 0, bottom: 0 };
+  }
+  return {
+    left: parseInt(match[1], 10),
+    top: parseInt(match[2], 10),
+    right: parseInt(match[3], 10),
+    bottom: parseInt(match[4], 10)
+  };
+}
+
+export function boundsCenter(bounds: UiBounds): { x: number; y: number } {
+  return {
+    x: Math.round((bounds.left + bounds.right) / 2),
+    y: Math.round((bounds.top + bounds.bottom) / 2)
+  };
+}
+
+export function boundsArea(bounds: UiBounds): number {
+  return Math.max(0, bounds.right - bounds.left) * Math.max(0, bounds.bottom - bounds.top);
+}
+
+function createNode(attributes: Record<string, string>, parent: UiNode | undefined, position: number): UiNode {
+  const flag = (name: string) => attributes[name] === "true";
+  return {
+    index: attributes.index !== undefined ? parseInt(attributes.index, 10) : position,
+    text: attributes.text ?? "",
+    resourceId: attributes["resource-id"] ?? "",
+    className: attributes.class ?? "",
+    packageName: attributes.package ?? "",
+    contentDesc: attributes["content-desc"] ?? "",
+    checkable: flag("checkable"),
+    checked: flag("checked"),
+    clickable: flag("clickable"),
+    enabled: flag("enabled"),
+    focusable: flag("focusable"),
+    focused: flag("focused"),
+    scrollable: flag("scrollable"),
+    longClickable: flag("long-clickable"),
+    password: flag("password"),
+    selected: flag("selected"),
+    bounds: parseBounds(attributes.bounds),
+    attributes,
+    children: [],
+    parent,
+    path: parent ? `${parent.path}/${position}` : `${position}`
+  };
+}
+
+/**
+ * Parses a `uiautomator dump` XML document into a list of root nodes.
+ *
+ * The dump format is flat enough (only `hierarchy` and `node` elements, no
+ * text content) that a tag scanner is sufficient and avoids pulling in an
+ * XML dependency.
+ */
+export function parseUiHierarchy(xml: string): UiNode[] {
+  const roots: UiNode[] = [];
+  const stack: UiNode[] = [];
+  const tagPattern = /<(\/?)node\b([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const [, closing, attributeSource, selfClosing] = match;
+    if (closing) {
+      stack.pop();
+      continue;
+    }
+
+    const parent = stack[stack.length - 1];
+    const siblings = parent ? parent.children : roots;
+    const node = createNode(parseAttributes(attributeSource), parent, siblings.length);
+    siblings.push(node);
+
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  if (roots.length === 0 && !/<hierarchy\b/.test(xml)) {
+    throw new Error("Input does not look like a uiautomator dump");
+  }
+
+  return roots;
+}
+
+/**
+ * Iterates over every node of the tree in document order
+ */
+export function* walkUiNodes(roots: UiNode[]): Generator<UiNode> {
+  for (const root of roots) {
+    yield root;
+    yield* walkUiNodes(root.children);
+  }
+}
+
+function classMatches(className: string, expected: string): boolean {
+  if (expected === "*" || expected === "node") {
+    return true;
+  }
+  if (className === expected) {
+    return true;
+  }
+  // Allow short names such as "Button" for "android.widget.Button"
+  return !expected.includes(".") && className.endsWith(`.${expected}`);
+}
+
+/**
+ * Maps XPath-style attribute names (as they appear in the dump) onto node values
+ */
+function attributeValue(node: UiNode, name: string): string {
+  return node.attributes[name] ?? "";
+}
+
+function matchesSelector(node: UiNode, selector: UiSelector): boolean {
+  if (selector.text !== undefined && node.text !== selector.text) return false;
+  if (selector.textContains !== undefined && !node.text.toLowerCase().includes(selector.textContains.toLowerCase())) return false;
+  if (selector.resourceId !== undefined && node.resourceId !== selector.resourceId && !node.resourceId.endsWith(`:id/${selector.resourceId}`)) return false;
+  if (selector.contentDesc !== undefined && node.contentDesc !== selector.contentDesc) return false;
+  if (selector.contentDescContains !== undefined && !node.contentDesc.toLowerCase().includes(selector.contentDescContains.toLowerCase())) return false;
+  if (selector.className !== undefined && !classMatches(node.className, selector.className)) return false;
+  if (selector.packageName !== undefined && node.packageName !== selector.packageName) return false;
+  if (selector.clickable !== undefined && node.clickable !== selector.clickable) return false;
+  if (selector.scrollable !== undefined && node.scrollable !== selector.scrollable) return false;
+  if (selector.enabled !== undefined && node.enabled !== selector.enabled) return false;
+  return true;
+}
+
+// ===== XPath subset =====
+
+type XPathPredicate =
+  | { kind: "equals"; attribute: string; value: string }
+  | { kind: "contains"; attribute: string; value: string }
+  | { kind: "startsWith"; attribute: string; value: string }
+  | { kind: "position"; position: number };
+
+interface XPathStep {
+  descendant: boolean;
+  nodeTest: string;
+  predicates: XPathPredicate[][];
+}
+
+function parsePredicate(source: string): XPathPredicate[] {
+  const trimmed = source.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return [{ kind: "position", position: parseInt(trimmed, 10) }];
+  }
+
+  return trimmed.split(/\s+and\s+/).map((clause) => {
+    const equalsMatch = /^@([\w:-]+)\s*=\s*(['"])(.*)\2$/.exec(clause);
+    if (equalsMatch) {
+      return { kind: "equals", attribute: equalsMatch[1], value: equalsMatch[3] };
+    }
+    const functionMatch = /^(contains|starts-with)\(\s*@([\w:-]+)\s*,\s*(['"])(.*)\3\s*\)$/.exec(clause);
+    if (functionMatch) {
+      return {
+        kind: functionMatch[1] === "contains" ? "contains" : "startsWith",
+        attribute: functionMatch[2],
+        value: functionMatch[4]
+      };
+    }
+    throw new Error(`Unsupported XPath predicate: [${clause}]`);
+  });
+}
+
+function parseXPath(expression: string): XPathStep[] {
+  const steps: XPathStep[] = [];
+  let position = 0;
+  const source = expression.trim();
+  if (!source.startsWith("/")) {
+    throw new Error(`XPath must start with '/' or '//': ${expression}`);
+  }
+
+  while (position < source.length) {
+    let descendant = false;
+    if (source.startsWith("//", position)) {
+      descendant = true;
+      position += 2;
+    } else if (source[position] === "/") {
+      position += 1;
+    } else {
+      throw new Error(`Unexpected character '${source[position]}' in XPath: ${expression}`);
+    }
+
+    const nameMatch = /^[\w.$*-]+/.exec(source.slice(position));
+    if (!nameMatch) {
+      throw new Error(`Missing node test in XPath: ${expression}`);
+    }
+    position += nameMatch[0].length;
+
+    const predicates: XPathPredicate[][] = [];
+    while (source[position] === "[") {
+      // Find the closing bracket, skipping over quoted strings
+      let end = position + 1;
+      let quote: string | null = null;
+      for (; end < source.length; end++) {
+        const char = source[end];
+        if (quote) {
+          if (char === quote) quote = null;
+        } else if (char === "'" || char === "\"") {
+          quote = char;
+        } else if (char === "]") {
+          break;
+        }
+      }
+      if (end >= source.length) {
+        throw new Error(`Unterminated predicate in XPath: ${expression}`);
+      }
+      predicates.push(parsePredicate(source.slice(position + 1, end)));
+      position = end + 1;
+    }
+
+    steps.push({ descendant, nodeTest: nameMatch[0], predicates });
+  }
+
+  return steps;
+}
+
+function matchesPredicate(node: UiNode, predicate: XPathPredicate): boolean {
+  switch (predicate.kind) {
+    case "equals":
+      return attributeValue(node, predicate.attribute) === predicate.value;
+    case "contains":
+      return attributeValue(node, predicate.attribute).includes(predicate.value);
+    case "startsWith":
+      return attributeValue(node, predicate.attribute).startsWith(predicate.value);
+    case "position":
+      return true;
+  }
+}
+
+function applyStep(contextNodes: UiNode[], step: XPathStep, isFirst: boolean): UiNode[] {
+  const results: UiNode[] = [];
+  const seen = new Set<UiNode>();
+
+  // Candidates are grouped per context node so positional predicates
+  // behave like XPath (position among the matches of that step)
+  const candidateGroups: UiNode[][] = [];
+  if (isFirst) {
+    candidateGroups.push(step.descendant ? Array.from(walkUiNodes(contextNodes)) : contextNodes);
+  } else {
+    for (const context of contextNodes) {
+      candidateGroups.push(step.descendant ? Array.from(walkUiNodes(context.children)) : context.children);
+    }
+  }
+
+  for (const candidates of candidateGroups) {
+    let matched = candidates.filter((node) => classMatches(node.className, step.nodeTest));
+    for (const predicateGroup of step.predicates) {
+      const positional = predicateGroup.find((predicate) => predicate.kind === "position");
+      matched = matched.filter((node) => predicateGroup.every((predicate) => matchesPredicate(node, predicate)));
+      if (positional && positional.kind === "position") {
+        matched = matched[positional.position - 1] ? [matched[positional.position - 1]] : [];
+      }
+    }
+    for (const node of matched) {
+      if (!seen.has(node)) {
+        seen.add(node);
+        results.push(node);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Evaluates a small XPath subset against the hierarchy.
+ *
+ * Supported: `/` and `//` axes, class names (full or short) or `*` as node
+ * tests, `[@attr='value']`, `[contains(@attr,'value')]`,
+ * `[starts-with(@attr,'value')]`, `and` between clauses and 1-based
+ * positional predicates such as `[2]`. Attribute names are those used in the
+ * dump (`text`, `resource-id`, `content-desc`, `class`, ...).
+ */
+export function evaluateXPath(roots: UiNode[], expression: string): UiNode[] {
+  const steps = parseXPath(expression);
+  let current = roots;
+  steps.forEach((step, stepIndex) => {
+    current = applyStep(current, step, stepIndex === 0);
+  });
+  return current;
+}
+
+/**
+ * Returns all nodes matching the selector in document order
+ */
+export function findUiNodes(roots: UiNode[], selector: UiSelector): UiNode[] {
+  const candidates = selector.xpath ? evaluateXPath(roots, selector.xpath) : Array.from(walkUiNodes(roots));
+  return candidates.filter((node) => matchesSelector(node, selector));
+}
+
+/**
+ * True when the selector has at least one criterion set
+ */
+export function hasSelectorCriteria(selector: UiSelector): boolean {
+  return Object.values(selector).some((value) => value !== undefined && value !== "");
+}
+
+export function describeSelector(selector: UiSelector): string {
+  return Object.entries(selector)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(", ");
+}
+
+/**
+ * Walks up from a node to the nearest scrollable ancestor (inclusive)
+ */
+export function findScrollableAncestor(node: UiNode): UiNode | undefined {
+  let current: UiNode | undefined = node;
+  while (current) {
+    if (current.scrollable) {
+      return current;
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+export function summarizeUiNode(node: UiNode): UiElementSummary {
+  return {
+    path: node.path,
+    text: node.text,
+    resourceId: node.resourceId,
+    contentDesc: node.contentDesc,
+    className: node.className,
+    packageName: node.packageName,
+    clickable: node.clickable,
+    longClickable: node.longClickable,
+    scrollable: node.scrollable,
+    enabled: node.enabled,
+    focused: node.focused,
+    selected: node.selected,
+    checked: node.checked,
+    bounds: node.bounds,
+    center: boundsCenter(node.bounds)
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Minimal ZIP support for the ADB MCP Server
+ *
+ * Enough to unpack `.apks` archives produced by bundletool and to pack
+ * pulled directories: stored and deflated entries, no ZIP64 and no
+ * encryption.
+ */
+
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { ArchiveFile } from "./archive";
+
+export interface ZipEntry {
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  directory: boolean;
+  /** Decompresses the entry */
+  read(): Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const lowest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error("Not a ZIP archive (end of central directory not found)");
+}
+
+/**
+ * Lists the entries of a ZIP archive held in memory
+ */
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  const directoryOffset = archive.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let index = 0; index < entryCount; index++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Corrupt ZIP central directory at offset ${offset}`);
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      directory: name.endsWith("/"),
+      read: () => {
+        if (flags & 0x1) {
+          throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+        }
+        if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt ZIP local header for ${name}`);
+        }
+        const dataOffset = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = archive.subarray(dataOffset, dataOffset + compressedSize);
+        if (method === 0) {
+          return Buffer.from(data);
+        }
+        if (method === 8) {
+          return inflateRawSync(data);
+        }
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+      }
+    });
+  }
+  return entries;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * True when the buffer starts with a ZIP header (or is an empty archive)
+ */
+export function isZip(archive: Buffer): boolean {
+  return archive.length >= 4 && (archive.readUInt32LE(0) === LOCAL_FILE_HEADER || archive.readUInt32LE(0) === END_OF_CENTRAL_DIRECTORY);
+}
+
+/**
+ * Builds a ZIP archive; entries are deflated unless that does not make them smaller
+ */
+export function createZip(files: ArchiveFile[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.directory ? `${file.name.replace(/\/+$/, "")}/` : file.name, "utf8");
+    const data = file.directory ? Buffer.alloc(0) : file.data;
+    const deflated = data.length > 0 ? deflateRawSync(data) : data;
+    const method = deflated.length < data.length ? 8 : 0;
+    const stored = method === 8 ? deflated : data;
+    const { time, date } = toDosDateTime(file.mtime ?? new Date());
+    const crc = crc32(data);
+    if (offset + 30 + name.length + stored.length > 0xffffffff) {
+      throw new Error("Archive too large for ZIP without ZIP64; use tar");
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    // Bit 11: names are UTF-8
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    // Made by Unix, so the external attributes carry the file mode
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    const mode = (file.directory ? 0o40000 : 0o100000) | (file.mode ?? (file.directory ? 0o755 : 0o644));
+    central.writeUInt32LE(((mode << 16) | (file.directory ? 0x10 : 0)) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, stored);
+    centralParts.push(central, name);
+    offset += local.length + name.length + stored.length;
+  }
+
+  if (files.length >= 0xffff) {
+    throw new Error("Too many entries for ZIP without ZIP64; use tar");
+  }
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
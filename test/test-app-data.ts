@@ -0,0 +1,130 @@
+import assert from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  parseSharedPrefs,
+  serializeSharedPrefs,
+  applySharedPrefsEdits,
+  normalizeAppPath,
+  sharedPrefsPath,
+  validatePackageName
+} from "../src/app-data";
+
+/**
+ * App Data Tests
+ *
+ * Parses, edits and rewrites the SharedPreferences fixture in
+ * test/fixtures/shared_prefs and checks which paths the run-as tools may
+ * reach. No device is required.
+ */
+
+const PACKAGE = "com.example.app";
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "shared_prefs", name), "utf8");
+}
+
+function main(): void {
+  try {
+    const prefs = parseSharedPrefs(readFixture("com.example.app_preferences.xml"));
+
+    console.log("\n=== Testing SharedPreferences parsing ===");
+    assert.deepStrictEqual(prefs.user_name, { type: "string", value: "Ada & \"Bob\" <admin>" }, "Expected entities to be decoded");
+    assert.deepStrictEqual(prefs.empty_string, { type: "string", value: "" });
+    assert.deepStrictEqual(prefs.launch_count, { type: "int", value: 42 });
+    assert.deepStrictEqual(prefs.last_sync, { type: "long", value: 1729339200000 });
+    assert.deepStrictEqual(prefs.huge_id, { type: "long", value: "9007199254740993" }, "Expected longs above 2^53 to keep their digits");
+    assert.deepStrictEqual(prefs.volume, { type: "float", value: 0.75 });
+    assert.deepStrictEqual(prefs.onboarding_done, { type: "boolean", value: true });
+    assert.deepStrictEqual(prefs.dark_mode, { type: "boolean", value: false });
+    assert.deepStrictEqual(prefs.tags, { type: "set", value: ["news", "A&B", ""] });
+    assert.deepStrictEqual(prefs.no_tags, { type: "set", value: [] });
+    assert.strictEqual(Object.keys(prefs).length, 10);
+    assert.deepStrictEqual(parseSharedPrefs("<?xml version='1.0' encoding='utf-8' standalone='yes' ?>\n<map />\n"), {});
+    assert.throws(() => parseSharedPrefs("<hierarchy />"), /Not a shared preferences file/);
+    assert.throws(() => parseSharedPrefs("<map><int name=\"broken\" value=\"abc\" /></map>"), /Invalid int value/);
+    console.log("✅ SharedPreferences parsing validated");
+
+    console.log("\n=== Testing SharedPreferences round trip ===");
+    const xml = serializeSharedPrefs(prefs);
+    assert.deepStrictEqual(parseSharedPrefs(xml), prefs, "Expected serialized preferences to parse back unchanged");
+    assert(xml.includes("<long name=\"huge_id\" value=\"9007199254740993\" />"), "Expected the exact long digits to be written");
+    assert(xml.includes("<string name=\"user_name\">Ada &amp; &quot;Bob&quot; &lt;admin&gt;</string>"), "Expected entities to be encoded");
+    assert(xml.includes("<set name=\"no_tags\" />"));
+    assert.strictEqual(serializeSharedPrefs({}), "<?xml version='1.0' encoding='utf-8' standalone='yes' ?>\n<map />\n");
+    console.log("✅ SharedPreferences round trip validated");
+
+    console.log("\n=== Testing SharedPreferences edits ===");
+    const edited = applySharedPrefsEdits(
+      prefs,
+      {
+        launch_count: "43",
+        last_sync: "9223372036854775807",
+        volume: "1.5",
+        dark_mode: "true",
+        new_flag: true,
+        new_count: 7,
+        new_big: 4294967296,
+        new_ratio: 0.5,
+        new_name: "hello",
+        new_set: ["a", "b"],
+        forced_long: 5
+      },
+      { forced_long: "long" },
+      ["tags", "missing_key"]
+    );
+    assert.deepStrictEqual(edited.launch_count, { type: "int", value: 43 }, "Expected existing keys to keep their type");
+    assert.deepStrictEqual(edited.last_sync, { type: "long", value: "9223372036854775807" });
+    assert.deepStrictEqual(edited.volume, { type: "float", value: 1.5 });
+    assert.deepStrictEqual(edited.dark_mode, { type: "boolean", value: true });
+    assert.deepStrictEqual(edited.new_flag, { type: "boolean", value: true });
+    assert.deepStrictEqual(edited.new_count, { type: "int", value: 7 });
+    assert.deepStrictEqual(edited.new_big, { type: "long", value: 4294967296 }, "Expected integers beyond 32 bits to become longs");
+    assert.deepStrictEqual(edited.new_ratio, { type: "float", value: 0.5 });
+    assert.deepStrictEqual(edited.new_name, { type: "string", value: "hello" });
+    assert.deepStrictEqual(edited.new_set, { type: "set", value: ["a", "b"] });
+    assert.deepStrictEqual(edited.forced_long, { type: "long", value: 5 });
+    assert.strictEqual(edited.tags, undefined, "Expected removed keys to be gone");
+    assert.deepStrictEqual(prefs.tags.value, ["news", "A&B", ""], "Expected the original preferences to be left alone");
+
+    assert.throws(() => applySharedPrefsEdits(prefs, { launch_count: 3000000000 }), /not a valid int/);
+    assert.throws(() => applySharedPrefsEdits(prefs, { launch_count: 1.5 }), /not a valid int/);
+    assert.throws(() => applySharedPrefsEdits(prefs, { dark_mode: "yes" }), /not a valid boolean/);
+    assert.throws(() => applySharedPrefsEdits(prefs, { tags: "news" }), /not a valid set/);
+    assert.throws(() => applySharedPrefsEdits(prefs, { user_name: ["a"] }), /not a valid string/);
+    assert.throws(() => applySharedPrefsEdits(prefs, { volume: "loud" }), /not a valid float/);
+    console.log("✅ SharedPreferences edits validated");
+
+    console.log("\n=== Testing app paths ===");
+    assert.strictEqual(normalizeAppPath(PACKAGE, undefined), ".");
+    assert.strictEqual(normalizeAppPath(PACKAGE, "files/"), "files");
+    assert.strictEqual(normalizeAppPath(PACKAGE, "files/../databases/app.db"), "databases/app.db");
+    assert.strictEqual(normalizeAppPath(PACKAGE, "/data/data/com.example.app/shared_prefs"), "shared_prefs");
+    assert.strictEqual(normalizeAppPath(PACKAGE, "/data/user/10/com.example.app"), ".");
+    for (const path of [
+      "../com.other.app/files",
+      "files/../../com.other.app",
+      "..",
+      "/data/data/com.other.app/files",
+      "/data/data/com.example.appx/files",
+      "/data/data/com.example.app/../com.other.app",
+      "/sdcard/Download",
+      "/data/user/0/com.exampleXapp"
+    ]) {
+      assert.throws(() => normalizeAppPath(PACKAGE, path), /outside the data directory/, `Expected ${path} to be refused`);
+    }
+    assert.strictEqual(sharedPrefsPath("settings.xml"), "shared_prefs/settings.xml");
+    assert.strictEqual(sharedPrefsPath("settings"), "shared_prefs/settings.xml");
+    assert.throws(() => sharedPrefsPath("../settings"), /Invalid shared preferences file name/);
+    assert.strictEqual(validatePackageName(" com.example.app "), PACKAGE);
+    assert.throws(() => validatePackageName("com.example.app; reboot"), /Invalid package name/);
+    console.log("✅ App paths validated");
+
+    console.log("\n✅ All app data tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,119 @@
+import assert from "assert";
+import { createArchive, readArchive, detectArchiveFormat, normalizeArchivePath, ArchiveFile, ArchiveFormat } from "../src/archive";
+import { readTarEntries } from "../src/tar";
+import { readZipEntries } from "../src/zip";
+import { parseStatOutput, parseHashOutput } from "../src/remote-fs";
+
+/**
+ * Archive and Remote Filesystem Tests
+ *
+ * Round-trips directories through the tar and ZIP writers and readers,
+ * checks that unsafe entry names are refused, and parses sample `stat` and
+ * `sha256sum` output as the device prints it. No device is required.
+ */
+
+const LONG_NAME = `${"nested/".repeat(20)}${"a".repeat(60)}.txt`;
+
+const SAMPLE_FILES: ArchiveFile[] = [
+  { name: "docs", data: Buffer.alloc(0), directory: true },
+  { name: "docs/readme.txt", data: Buffer.from("hello\n"), mode: 0o600, mtime: new Date("2024-10-19T12:00:00Z") },
+  { name: "empty.bin", data: Buffer.alloc(0) },
+  { name: "compressible.log", data: Buffer.from("line\n".repeat(2000)) },
+  { name: "ünïcode name.txt", data: Buffer.from("unicode") },
+  { name: LONG_NAME, data: Buffer.from("long") }
+];
+
+function roundTrip(format: ArchiveFormat): void {
+  const archive = createArchive(format, SAMPLE_FILES);
+  assert.strictEqual(detectArchiveFormat(archive), format);
+
+  const { format: detected, files } = readArchive(archive);
+  assert.strictEqual(detected, format);
+  assert.deepStrictEqual(files.map((file) => file.name), SAMPLE_FILES.map((file) => file.name), `Expected every ${format} entry name back`);
+  for (const original of SAMPLE_FILES) {
+    const file = files.find((candidate) => candidate.name === original.name);
+    assert.strictEqual(Boolean(file?.directory), Boolean(original.directory), `Expected ${original.name} to keep its type`);
+    assert(file?.data.equals(original.data), `Expected the ${format} content of ${original.name} to round-trip`);
+  }
+}
+
+function main(): void {
+  try {
+    console.log("\n=== Testing tar round trip ===");
+    roundTrip("tar");
+    const tarEntries = readTarEntries(createArchive("tar", SAMPLE_FILES));
+    const readme = tarEntries.find((entry) => entry.name === "docs/readme.txt");
+    assert.strictEqual(readme?.mode, 0o600, "Expected the file mode to be kept");
+    assert.strictEqual(readme?.mtime?.toISOString(), "2024-10-19T12:00:00.000Z", "Expected the mtime to be kept");
+    assert(Buffer.byteLength(LONG_NAME) > 100, "Expected the long name to need a GNU long-name entry");
+    assert.throws(() => readTarEntries(createArchive("tar", SAMPLE_FILES).subarray(0, 1024)), /Truncated tar archive/);
+    console.log("✅ tar round trip validated");
+
+    console.log("\n=== Testing ZIP round trip ===");
+    roundTrip("zip");
+    const zipEntries = readZipEntries(createArchive("zip", SAMPLE_FILES));
+    assert.strictEqual(zipEntries.find((entry) => entry.name === "compressible.log")?.size, 10000);
+    assert.strictEqual(zipEntries.find((entry) => entry.name === "docs/")?.directory, true, "Expected directories to end with a slash");
+    assert.throws(() => detectArchiveFormat(Buffer.from("not an archive")), /Unsupported archive/);
+    console.log("✅ ZIP round trip validated");
+
+    console.log("\n=== Testing entry name checks ===");
+    assert.strictEqual(normalizeArchivePath("./docs//readme.txt"), "docs/readme.txt");
+    assert.strictEqual(normalizeArchivePath("docs\\sub\\file.txt"), "docs/sub/file.txt");
+    assert.strictEqual(normalizeArchivePath("docs/../other.txt"), "other.txt");
+    assert.strictEqual(normalizeArchivePath("./"), "");
+    for (const unsafe of ["../evil.txt", "docs/../../evil.txt", "..", "/etc/passwd", "\\windows\\evil.txt"]) {
+      assert.throws(() => normalizeArchivePath(unsafe), /Unsafe path in archive/, `Expected ${unsafe} to be refused`);
+    }
+    for (const format of ["tar", "zip"] as const) {
+      for (const name of ["../escape.txt", "/absolute.txt"]) {
+        const archive = createArchive(format, [{ name, data: Buffer.from("x") }]);
+        assert.throws(() => readArchive(archive), /Unsafe path in archive/, `Expected ${format} entry ${name} to be refused`);
+      }
+    }
+    console.log("✅ Entry name checks validated");
+
+    console.log("\n=== Testing stat output ===");
+    const entries = parseStatOutput([
+      "directory|3452|1729339200|771|drwxrwx--x|./DCIM",
+      "regular file|1048576|1729339260|660|-rw-rw----|./DCIM/IMG 0001|raw.jpg",
+      "regular empty file|0|1729339200|660|-rw-rw----|./empty",
+      "symbolic link|21|1729339200|777|lrwxrwxrwx|./link",
+      "stat: './gone': No such file or directory",
+      ""
+    ].join("\n"));
+    assert.deepStrictEqual(entries.map((entry) => entry.name), ["DCIM", "DCIM/IMG 0001|raw.jpg", "empty", "link"]);
+    assert.deepStrictEqual(entries[1], {
+      name: "DCIM/IMG 0001|raw.jpg",
+      type: "file",
+      size: 1048576,
+      mode: "660",
+      permissions: "-rw-rw----",
+      mtime: "2024-10-19T12:01:00.000Z"
+    });
+    assert.strictEqual(entries[0].type, "directory");
+    assert.strictEqual(entries[2].type, "file", "Expected empty regular files to be files");
+    assert.strictEqual(entries[3].type, "symlink");
+    assert.strictEqual(parseStatOutput("regular file|12|1729339200|644|-rw-r--r--|/sdcard/notes.txt")[0].name, "/sdcard/notes.txt", "Expected a single stat to keep the full path");
+    console.log("✅ stat output validated");
+
+    console.log("\n=== Testing sha256sum output ===");
+    const hashes = parseHashOutput([
+      "E3B0C44298FC1C149AFBF4C8996FB92427AE41E4649B934CA495991B7852B855  ./empty",
+      "5891b5b522d5df086d0ff0b110fbd9d21bb4fc7163af34d08286a2e846f6be03  ./docs/file with spaces.txt",
+      "sha256sum: ./locked: Permission denied"
+    ].join("\n"));
+    assert.deepStrictEqual(Array.from(hashes.entries()), [
+      ["empty", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+      ["docs/file with spaces.txt", "5891b5b522d5df086d0ff0b110fbd9d21bb4fc7163af34d08286a2e846f6be03"]
+    ]);
+    console.log("✅ sha256sum output validated");
+
+    console.log("\n✅ All archive tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
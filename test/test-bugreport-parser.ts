@@ -0,0 +1,135 @@
+import assert from "assert";
+import { readFileSync, readdirSync, statSync } from "fs";
+import { join, relative } from "path";
+import {
+  parseBugreport,
+  parseBugreportProgress,
+  findMainEntry,
+  extractBugreportSections
+} from "../src/bugreport";
+import { createZip, readZipEntries } from "../src/zip";
+
+/**
+ * Bugreport Parser Tests
+ *
+ * Zips the sample bugreport in test/fixtures/bugreport the way
+ * `adb bugreport` lays it out and runs the parser against it. No device is
+ * required.
+ */
+
+const FIXTURE_DIR = join(__dirname, "fixtures", "bugreport");
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+function main(): void {
+  try {
+    console.log("\n=== Testing progress parsing ===");
+    assert.strictEqual(parseBugreportProgress("[  5%] generating bugreport-x.zip\n[ 42%] generating bugreport-x.zip\n"), 42);
+    assert.strictEqual(parseBugreportProgress("[100%] generating bugreport-x.zip"), 100);
+    assert.strictEqual(parseBugreportProgress("/data/user_de/0/com.android.shell/files/bugreports/x.zip: 1 file pulled."), undefined);
+    console.log("✅ Progress parsing validated");
+
+    const archive = createZip(listFiles(FIXTURE_DIR).map((path) => ({
+      name: relative(FIXTURE_DIR, path).split(/[\\/]/).join("/"),
+      data: readFileSync(path)
+    })));
+    const entries = readZipEntries(archive);
+
+    console.log("\n=== Testing main entry lookup ===");
+    const main = findMainEntry(entries);
+    assert.strictEqual(main.name, "bugreport-sdk_gphone64_x86_64-UE1A.230829.036-2024-10-19-12-00-00.txt");
+    assert.strictEqual(findMainEntry(entries.filter((entry) => entry.name !== "main_entry.txt")).name, main.name, "Expected the bugreport-*.txt fallback");
+    assert.throws(() => findMainEntry([]), /No bugreport text/);
+    console.log("✅ Main entry lookup validated");
+
+    const text = main.read().toString("utf8");
+    const summary = parseBugreport(text, entries);
+
+    console.log("\n=== Testing header ===");
+    assert.strictEqual(summary.dumpstateTime, "2024-10-19 12:00:00");
+    assert.strictEqual(summary.fingerprint, "google/sdk_gphone64_x86_64/emu64x:14/UE1A.230829.036/10789411:userdebug/dev-keys");
+    assert(summary.build?.startsWith("sdk_gphone64_x86_64-userdebug 14"), "Expected the build");
+    assert(summary.kernel?.startsWith("Linux version 6.1.23"), "Expected the kernel version");
+    assert.deepStrictEqual(summary.uptime, {
+      text: "up 0 weeks, 0 days, 2 hours, 13 minutes",
+      seconds: 2 * 3600 + 13 * 60,
+      loadAverage: [1.02, 0.89, 0.75]
+    });
+    console.log("✅ Header validated");
+
+    console.log("\n=== Testing ANRs and tombstones ===");
+    assert.strictEqual(summary.anrs.length, 2, "Expected both am_anr events");
+    const [readerAnr, syncAnr] = summary.anrs;
+    assert.strictEqual(readerAnr.package, "com.example.reader");
+    assert.strictEqual(readerAnr.pid, 4477);
+    assert.strictEqual(readerAnr.timestamp, "10-19 11:50:01.123");
+    assert(readerAnr.reason?.startsWith("Input dispatching timed out"), "Expected the ANR reason");
+    assert.strictEqual(readerAnr.file, "FS/data/anr/anr_2024-10-19-11-50-01-456", "Expected the trace file to be matched by PID");
+    assert.strictEqual(syncAnr.reason, "executing service com.example.sync/.SyncService");
+    assert.strictEqual(syncAnr.file, undefined);
+
+    assert.strictEqual(summary.tombstones.length, 1);
+    const tombstone = summary.tombstones[0];
+    assert.strictEqual(tombstone.file, "FS/data/tombstones/tombstone_03");
+    assert.strictEqual(tombstone.package, "com.example.game");
+    assert.strictEqual(tombstone.pid, 7311);
+    assert.strictEqual(tombstone.tid, 7340);
+    assert.strictEqual(tombstone.threadName, "RenderThread");
+    assert.strictEqual(tombstone.signalName, "SIGSEGV");
+    assert.strictEqual(tombstone.code, "1 (SEGV_MAPERR)");
+    assert.strictEqual(tombstone.faultAddress, "0x0000000000000000");
+    assert.strictEqual(tombstone.cause, "null pointer dereference");
+    assert.strictEqual(tombstone.backtrace.length, 3, "Expected only the crashing thread's backtrace");
+    console.log("✅ ANRs and tombstones validated");
+
+    console.log("\n=== Testing memory and battery ===");
+    assert.strictEqual(summary.memory?.totalRamKb, 2014288);
+    assert.strictEqual(summary.memory?.freeRamKb, 812400);
+    assert.strictEqual(summary.memory?.usedRamKb, 1104512);
+    assert.strictEqual(summary.memory?.topProcesses.length, 5, "Expected the PSS list to end at the blank line");
+    assert.deepStrictEqual(summary.memory?.topProcesses[0], { process: "system", pid: 612, pssKb: 301244 });
+    assert.strictEqual(summary.memory?.topProcesses[2].process, "com.example.reader");
+    assert.strictEqual(summary.battery?.level, 81);
+    assert.strictEqual(summary.battery?.plugged, "usb");
+    assert.strictEqual(summary.battery?.temperatureC, 28.5);
+    assert.strictEqual(summary.battery?.timeOnBattery, "1h 2m 3s 456ms");
+    assert.strictEqual(summary.battery?.estimatedCapacityMah, 3000);
+    assert.strictEqual(summary.battery?.computedDrainMah, 412);
+    console.log("✅ Memory and battery validated");
+
+    console.log("\n=== Testing section index ===");
+    assert.deepStrictEqual(
+      summary.sections.map((section) => section.name),
+      ["DUMPSYS CRITICAL", "MEMORY INFO", "UPTIME", "EVENT LOG", "ANR FILES", "DUMPSYS"]
+    );
+    const memoryInfo = summary.sections.find((section) => section.name === "MEMORY INFO");
+    assert.deepStrictEqual(memoryInfo, { name: "MEMORY INFO", source: "/proc/meminfo", lines: 3, durationSec: 0.001 });
+    assert.deepStrictEqual(
+      summary.dumpsys.map((service) => service.service),
+      ["cpuinfo", "battery", "batterystats", "meminfo", "window"]
+    );
+    assert.strictEqual(summary.dumpsys[0].priority, "CRITICAL");
+    assert.strictEqual(summary.dumpsys.find((service) => service.service === "meminfo")?.durationSec, 0.54);
+    console.log("✅ Section index validated");
+
+    console.log("\n=== Testing section excerpts ===");
+    const excerpts = extractBugreportSections(text, ["UPTIME", "dumpsys window", "meminfo", "NO SUCH SECTION"], 3);
+    assert.deepStrictEqual(excerpts.map((excerpt) => excerpt.name), ["UPTIME", "dumpsys window", "meminfo"]);
+    assert.deepStrictEqual(excerpts[0], { name: "UPTIME", lines: [" 12:00:02 up  2:13,  0 users,  load average: 1.02, 0.89, 0.75"], truncated: false });
+    assert.strictEqual(excerpts[1].lines[0], "WINDOW MANAGER LAST ANR (dumpsys window lastanr)");
+    assert.strictEqual(excerpts[2].truncated, true);
+    console.log("✅ Section excerpts validated");
+
+    console.log("\n✅ All bugreport parser tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
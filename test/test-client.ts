@@ -21,7 +21,7 @@ import assert from "assert";
 
 // Define interfaces for MCP tool responses
 interface ToolResponse {
-  content?: Array<{ type: string; text?: string }>;
+  content?: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
   [key: string]: any;
 }
 
@@ -55,54 +55,56 @@ async function main(): Promise<void> {
     assert(devicesResult.content, "Expected content in device list response");
     assert(Array.isArray(devicesResult.content), "Expected content to be an array");
     assert(devicesResult.content.length > 0, "Expected at least one content item in device list");
-    const deviceListText = devicesResult.content[0]?.text || '';
-    assert(deviceListText.includes("List of devices attached"), "Expected device list header");
+    const deviceList = JSON.parse(devicesResult.content[0]?.text || '[]');
+    assert(Array.isArray(deviceList), "Expected a JSON array of devices");
+    assert(deviceList.length > 0, "Expected at least one connected device");
+    assert(typeof deviceList[0].serial === "string", "Expected a device serial");
+    assert(typeof deviceList[0].state === "string", "Expected a device state");
     console.log("✅ Device list response validated");
     
-    // Test the screenshot tool with default (non-base64) behavior
-    console.log("\n=== Testing dump_image (default non-base64) ===");
+    // Test the screenshot tool with default (PNG image) behavior
+    console.log("\n=== Testing dump_image (default PNG) ===");
     const screenshotDefaultResult = await client.callTool({
       name: "dump_image",
       arguments: {}
     }) as ToolResponse;
     
+    const pngContent = screenshotDefaultResult.content?.[0];
     console.log("Screenshot result (default):");
-    console.log(screenshotDefaultResult);
+    console.log(`Received ${pngContent?.type} content (${pngContent?.mimeType}) with data length: ${pngContent?.data?.length ?? 0}`);
     
     // Assert default screenshot response
     assert(screenshotDefaultResult.content, "Expected content in default screenshot response");
     assert(Array.isArray(screenshotDefaultResult.content), "Expected content to be an array");
     assert(screenshotDefaultResult.content.length > 0, "Expected at least one content item");
     assert(!screenshotDefaultResult.isError, "Expected no error in default screenshot response");
-    assert(screenshotDefaultResult.content[0]?.text?.includes("Screenshot captured"), 
-           "Expected success message in default screenshot response");
+    assert.strictEqual(pngContent?.type, "image", "Expected image content in screenshot response");
+    assert.strictEqual(pngContent?.mimeType, "image/png", "Expected PNG mime type");
+    assert((pngContent?.data || '').length > 1000, "Expected substantial image data in response");
+    assert((pngContent?.data || '').startsWith("iVBOR"), "Expected PNG image data signature");
     console.log("✅ Default screenshot response validated");
     
-    // Test the screenshot tool with explicit base64 request
-    console.log("\n=== Testing dump_image (explicit base64) ===");
-    const screenshotBase64Result = await client.callTool({
+    // Test the screenshot tool with downscaling and JPEG encoding
+    console.log("\n=== Testing dump_image (scaled JPEG) ===");
+    const screenshotJpegResult = await client.callTool({
       name: "dump_image",
       arguments: {
-        asBase64: true
+        format: "jpeg",
+        quality: 60,
+        maxWidth: 320
       }
     }) as ToolResponse;
     
-    console.log("Screenshot result (base64):");
-    const base64Content = screenshotBase64Result.content?.[0]?.text || '';
-    console.log(`Received base64 data of length: ${base64Content.length}`);
-    if (base64Content.length > 100) {
-      console.log(`First 100 characters: ${base64Content.substring(0, 100)}...`);
-    }
+    const jpegContent = screenshotJpegResult.content?.[0];
+    console.log(`Received ${jpegContent?.type} content (${jpegContent?.mimeType}) with data length: ${jpegContent?.data?.length ?? 0}`);
     
-    // Assert base64 screenshot response
-    assert(screenshotBase64Result.content, "Expected content in base64 screenshot response");
-    assert(Array.isArray(screenshotBase64Result.content), "Expected content to be an array");
-    assert(screenshotBase64Result.content.length > 0, "Expected at least one content item");
-    assert(!screenshotBase64Result.isError, "Expected no error in base64 screenshot response");
-    assert(base64Content.length > 1000, "Expected substantial base64 data in response");
-    assert(/^[A-Za-z0-9+/=]+$/.test(base64Content), "Expected valid base64 characters");
-    assert(base64Content.startsWith("iVBOR"), "Expected PNG image data signature");
-    console.log("✅ Base64 screenshot response validated");
+    // Assert JPEG screenshot response
+    assert(!screenshotJpegResult.isError, "Expected no error in JPEG screenshot response");
+    assert.strictEqual(jpegContent?.type, "image", "Expected image content in JPEG screenshot response");
+    assert.strictEqual(jpegContent?.mimeType, "image/jpeg", "Expected JPEG mime type");
+    assert((jpegContent?.data || '').startsWith("/9j/"), "Expected JPEG image data signature");
+    assert((jpegContent?.data || '').length < (pngContent?.data || '').length, "Expected scaled JPEG to be smaller than the PNG");
+    console.log("✅ JPEG screenshot response validated");
     
     // Test the UI dump tool
     console.log("\n=== Testing inspect_ui ===");
@@ -153,6 +155,27 @@ async function main(): Promise<void> {
       console.log("✅ UI dump XML response validated");
     }
     
+    // Test find_elements
+    console.log("\n=== Testing find_elements ===");
+    const findResult = await client.callTool({
+      name: "find_elements",
+      arguments: {
+        className: "FrameLayout",
+        limit: 5
+      }
+    }) as ToolResponse;
+    
+    console.log("Find elements result:");
+    console.log(findResult);
+    
+    // Assert find elements response
+    assert(findResult.content, "Expected content in find elements response");
+    assert(!findResult.isError, "Expected no error in find elements response");
+    const findOutput = JSON.parse(findResult.content[0]?.text || '{}');
+    assert(findOutput.count > 0, "Expected at least one FrameLayout on screen");
+    assert(findOutput.elements[0].center, "Expected element center coordinates");
+    console.log("✅ Find elements response validated");
+    
     // Test adb_shell
     console.log("\n=== Testing adb_shell ===");
     const shellResult = await client.callTool({
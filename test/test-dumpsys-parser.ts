@@ -0,0 +1,145 @@
+import assert from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  parseServiceList,
+  parseActivityActivities,
+  parseWindow,
+  parseMeminfo,
+  parseGfxinfo,
+  parseConnectivity,
+  parseDumpsysOutput
+} from "../src/dumpsys";
+
+/**
+ * dumpsys Parser Tests
+ *
+ * Runs the dumpsys parsers against the sample service output in
+ * test/fixtures/dumpsys, including an Android 9 activity dump for the
+ * TaskRecord layout. No device is required.
+ */
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "dumpsys", name), "utf8");
+}
+
+function main(): void {
+  try {
+    console.log("\n=== Testing service list ===");
+    assert.deepStrictEqual(parseServiceList(readFixture("services.txt")), [
+      "SurfaceFlinger",
+      "activity",
+      "android.hardware.power.IPower/default",
+      "battery"
+    ]);
+    console.log("✅ Service list validated");
+
+    console.log("\n=== Testing activity activities ===");
+    const stack = parseActivityActivities(readFixture("activity-activities.txt"));
+    assert.strictEqual(stack.resumedActivity, "com.example.app/.DetailActivity");
+    assert.strictEqual(stack.focusedApp, "com.example.app/.DetailActivity");
+    assert.deepStrictEqual(stack.tasks.map((task) => task.id), [12, 1, 13], "Expected tasks from top to bottom, nested ones included");
+    assert.deepStrictEqual(stack.tasks[0], {
+      id: 12,
+      type: "standard",
+      affinity: "com.example.app",
+      user: 0,
+      visible: true,
+      mode: "fullscreen",
+      display: 0,
+      activities: ["com.example.app/.DetailActivity", "com.example.app/.MainActivity"]
+    }, "Expected the UID prefix to be dropped from the affinity");
+    assert.deepStrictEqual(stack.tasks[1].activities, [], "Expected the parent home task to hold no activities itself");
+    assert.deepStrictEqual(stack.tasks[2].activities, ["com.android.launcher3/.uioverrides.QuickstepLauncher"]);
+
+    const legacy = parseActivityActivities(readFixture("activity-activities-legacy.txt"));
+    assert.strictEqual(legacy.resumedActivity, "com.example.app/.settings.SettingsActivity");
+    assert.deepStrictEqual(legacy.tasks.map((task) => [task.id, task.affinity, task.activities.length]), [
+      [21, "com.example.app", 2],
+      [2, undefined, 1]
+    ], "Expected TaskRecord entries without the Running activities repeats");
+    console.log("✅ activity activities validated");
+
+    console.log("\n=== Testing window ===");
+    assert.deepStrictEqual(parseWindow(readFixture("window.txt")), {
+      focusedWindow: "com.example.app/com.example.app.DetailActivity",
+      focusedApp: "com.example.app/.DetailActivity",
+      inputMethodTarget: "com.example.app/com.example.app.DetailActivity",
+      keyguardShowing: false,
+      displays: [{ id: 0, rotation: 1, density: 420, width: 2400, height: 1080, appWidth: 2337, appHeight: 1080 }]
+    }, "Expected the current size of the rotated display");
+    assert.deepStrictEqual(parseWindow(""), { focusedWindow: undefined, focusedApp: undefined, inputMethodTarget: undefined, keyguardShowing: undefined, displays: [] });
+    console.log("✅ window validated");
+
+    console.log("\n=== Testing meminfo ===");
+    const [memory] = parseMeminfo(readFixture("meminfo.txt"));
+    assert.strictEqual(memory.pid, 4477);
+    assert.strictEqual(memory.process, "com.example.reader");
+    assert.strictEqual(memory.totalPssKb, 80000);
+    assert.strictEqual(memory.totalRssKb, 120000);
+    assert.strictEqual(memory.totalSwapPssKb, 12);
+    assert.deepStrictEqual(memory.nativeHeap, { sizeKb: 20480, allocKb: 15000, freeKb: 5480 });
+    assert.deepStrictEqual(memory.dalvikHeap, { sizeKb: 12000, allocKb: 8000, freeKb: 4000 });
+    assert.deepStrictEqual(memory.summary["Java Heap"], { pssKb: 6700, rssKb: 9000 });
+    assert.deepStrictEqual(memory.summary["Private Other"], { pssKb: 2000 }, "Expected rows without RSS to have PSS only");
+    assert.deepStrictEqual(memory.summary.Unknown, { pssKb: 0, rssKb: 5000 }, "Expected a lone value in the Rss(KB) column to be the RSS");
+    assert.deepStrictEqual(memory.objects, { Views: 120, ViewRootImpl: 1, AppContexts: 5, Activities: 1, Assets: 20, AssetManagers: 0 });
+    assert.throws(() => parseMeminfo("No process found for: com.example.stopped\n"), /No running process found for com\.example\.stopped/);
+    console.log("✅ meminfo validated");
+
+    console.log("\n=== Testing gfxinfo ===");
+    assert.deepStrictEqual(parseGfxinfo(readFixture("gfxinfo.txt")), [{
+      pid: 4477,
+      process: "com.example.reader",
+      totalFrames: 1520,
+      jankyFrames: 83,
+      jankyPercent: 5.46,
+      percentiles: { p50: 8, p90: 14, p95: 19, p99: 42 },
+      gpuPercentiles: { p50: 4, p90: 7 },
+      jankCauses: { missedVsync: 12, highInputLatency: 3, slowUiThread: 40, slowBitmapUploads: 1, slowDrawCommands: 20, frameDeadlineMissed: 50 }
+    }], "Expected the current janky frame count, not the legacy one");
+    assert.throws(() => parseGfxinfo("Applications Graphics Acceleration Info:\n"), /is the app running/);
+    console.log("✅ gfxinfo validated");
+
+    console.log("\n=== Testing connectivity ===");
+    const connectivity = parseConnectivity(readFixture("connectivity.txt"));
+    assert.strictEqual(connectivity.defaultNetwork, 101);
+    assert.deepStrictEqual(connectivity.networks.map((network) => [network.netId, network.type, network.isDefault]), [
+      [100, "MOBILE", false],
+      [101, "WIFI", true],
+      [102, "WIFI", false]
+    ]);
+    const [mobile, wifi, legacyWifi] = connectivity.networks;
+    assert.strictEqual(mobile.extra, "internet");
+    assert.strictEqual(mobile.interfaceName, "rmnet0");
+    assert.deepStrictEqual(mobile.transports, ["CELLULAR"]);
+    assert.strictEqual(mobile.metered, true);
+    assert.strictEqual(mobile.validated, true);
+    assert.strictEqual(wifi.ssid, "Home");
+    assert.strictEqual(wifi.extra, undefined, "Expected an empty extra to be left out");
+    assert.strictEqual(wifi.metered, false);
+    assert.strictEqual(legacyWifi.extra, "Office", "Expected the SSID of older releases from the extra info");
+    assert.strictEqual(legacyWifi.validated, false);
+    console.log("✅ connectivity validated");
+
+    console.log("\n=== Testing parser selection ===");
+    assert.strictEqual(parseDumpsysOutput("activity", ["activities"], readFixture("activity-activities.txt"))?.parser, "activity activities");
+    assert.strictEqual(parseDumpsysOutput("activity", ["a"], readFixture("activity-activities.txt"))?.parser, "activity activities");
+    assert.strictEqual(parseDumpsysOutput("activity", ["services"], ""), undefined);
+    assert.strictEqual(parseDumpsysOutput("window", ["displays"], readFixture("window.txt"))?.parser, "window");
+    assert.strictEqual(parseDumpsysOutput("window", ["--proto"], ""), undefined);
+    assert.strictEqual(parseDumpsysOutput("meminfo", ["com.example.reader"], readFixture("meminfo.txt"))?.parser, "meminfo <package>");
+    assert.strictEqual(parseDumpsysOutput("meminfo", [], ""), undefined, "Expected the system-wide meminfo to stay raw");
+    assert.strictEqual(parseDumpsysOutput("gfxinfo", ["com.example.reader", "framestats"], ""), undefined);
+    assert.strictEqual(parseDumpsysOutput("connectivity", [], readFixture("connectivity.txt"))?.parser, "connectivity");
+    assert.strictEqual(parseDumpsysOutput("SurfaceFlinger", [], ""), undefined);
+    console.log("✅ Parser selection validated");
+
+    console.log("\n✅ All dumpsys parser tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,50 @@
+import assert from "assert";
+import { checkRequestHost, isAuthorized } from "../src/http";
+
+/**
+ * HTTP Transport Tests
+ *
+ * Checks the Host/Origin validation that protects token-less servers from
+ * DNS rebinding, and the bearer token check. No device is required.
+ */
+
+function main(): void {
+  try {
+    console.log("\n=== Testing Host header checks ===");
+    for (const host of ["localhost", "localhost:3000", "127.0.0.1", "127.0.0.1:3000", "127.1.2.3", "[::1]:3000", "LOCALHOST"]) {
+      assert.strictEqual(checkRequestHost({ host }, []), undefined, `Expected ${host} to be allowed`);
+    }
+    for (const host of ["127.evil.com", "127.0.0.1.nip.io", "127.0.0.1.attacker.example:3000", "evil.example", "0.0.0.0", "localhost.evil.com"]) {
+      assert.match(checkRequestHost({ host }, []) ?? "", /Host not allowed/, `Expected ${host} to be refused`);
+    }
+    assert.match(checkRequestHost({}, []) ?? "", /Host not allowed: \(none\)/);
+    assert.strictEqual(checkRequestHost({ host: "devbox.lan:3000" }, ["DevBox.lan"]), undefined, "Expected allowed hosts to match case-insensitively");
+    assert.strictEqual(checkRequestHost({ host: "[fd00::1]:3000" }, ["[fd00::1]"]), undefined);
+    console.log("✅ Host header checks validated");
+
+    console.log("\n=== Testing Origin header checks ===");
+    assert.strictEqual(checkRequestHost({ host: "localhost:3000", origin: "http://localhost:5173" }, []), undefined);
+    assert.strictEqual(checkRequestHost({ host: "127.0.0.1:3000", origin: "http://127.0.0.1" }, []), undefined);
+    for (const origin of ["http://127.0.0.1.attacker.example", "http://127.evil.com:3000", "https://evil.example", "null", "not a url"]) {
+      assert.match(checkRequestHost({ host: "localhost:3000", origin }, []) ?? "", /Origin not allowed/, `Expected ${origin} to be refused`);
+    }
+    assert.strictEqual(checkRequestHost({ host: "devbox.lan", origin: "http://devbox.lan:8080" }, ["devbox.lan"]), undefined);
+    console.log("✅ Origin header checks validated");
+
+    console.log("\n=== Testing bearer token ===");
+    assert.strictEqual(isAuthorized(undefined, undefined), true, "Expected every request to pass without a token");
+    assert.strictEqual(isAuthorized("Bearer s3cret", "s3cret"), true);
+    assert.strictEqual(isAuthorized("bearer  s3cret ", "s3cret"), true);
+    assert.strictEqual(isAuthorized("Bearer s3cre", "s3cret"), false);
+    assert.strictEqual(isAuthorized("Basic s3cret", "s3cret"), false);
+    assert.strictEqual(isAuthorized(undefined, "s3cret"), false);
+    console.log("✅ Bearer token validated");
+
+    console.log("\n✅ All HTTP transport tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
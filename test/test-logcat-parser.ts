@@ -0,0 +1,127 @@
+import assert from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  parseLogcat,
+  parseLogcatLine,
+  JavaCrashFinding,
+  NativeCrashFinding,
+  AnrFinding
+} from "../src/logcat-parser";
+import { buildLogcatArgs } from "../src/logcat";
+
+/**
+ * Logcat Parser Tests
+ *
+ * Runs the logcat parser against recorded logcat fixtures in
+ * test/fixtures/logcat and checks the filterspecs logcat sessions pass.
+ * No device is required.
+ */
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "logcat", name), "utf8");
+}
+
+function main(): void {
+  try {
+    console.log("\n=== Testing parseLogcatLine ===");
+    const record = parseLogcatLine("10-19 09:14:02.388  5120  5120 D ShopApp : onCreate");
+    assert.deepStrictEqual(record, {
+      timestamp: "10-19 09:14:02.388",
+      pid: 5120,
+      tid: 5120,
+      level: "D",
+      tag: "ShopApp",
+      message: "onCreate"
+    });
+    const emptyMessage = parseLogcatLine("2024-10-19 09:14:02.388  5120  5121 W Tag with spaces:");
+    assert.strictEqual(emptyMessage?.tag, "Tag with spaces", "Expected tags with spaces to be parsed");
+    assert.strictEqual(emptyMessage?.message, "", "Expected empty message");
+    assert.strictEqual(emptyMessage?.timestamp, "2024-10-19 09:14:02.388", "Expected year timestamps to be kept");
+    assert.strictEqual(parseLogcatLine("--------- beginning of main"), undefined, "Expected buffer headers to be skipped");
+    console.log("✅ Line parsing validated");
+
+    console.log("\n=== Testing Java crash detection ===");
+    const javaLog = parseLogcat(readFixture("java-crash.txt"));
+    assert.strictEqual(javaLog.unparsedLines, 2, "Expected the two buffer headers to be unparsed");
+    const javaCrashes = javaLog.findings.filter((finding): finding is JavaCrashFinding => finding.type === "java_crash");
+    assert.strictEqual(javaCrashes.length, 2, "Expected two Java crashes");
+    const [shopCrash, newsCrash] = javaCrashes;
+    assert.strictEqual(shopCrash.package, "com.example.shop");
+    assert.strictEqual(shopCrash.pid, 5120);
+    assert.strictEqual(shopCrash.thread, "main");
+    assert.strictEqual(shopCrash.exception, "java.lang.RuntimeException");
+    assert(shopCrash.message?.startsWith("Unable to start activity"), "Expected the exception message");
+    assert.deepStrictEqual(shopCrash.causes.map((cause) => cause.exception), ["java.lang.NullPointerException"]);
+    assert.strictEqual(shopCrash.stackTrace.length, 8, "Expected the whole trace without the process line");
+    assert(!shopCrash.stackTrace.some((line) => line.includes("Force finishing")), "Expected other tags to end the trace");
+    assert.strictEqual(newsCrash.package, "com.example.news");
+    assert.strictEqual(newsCrash.processName, "com.example.news:sync");
+    assert.strictEqual(newsCrash.thread, "OkHttp Dispatcher");
+    assert.strictEqual(newsCrash.message, "closed");
+    console.log("✅ Java crash findings validated");
+
+    console.log("\n=== Testing native crash detection ===");
+    const nativeLog = parseLogcat(readFixture("native-crash.txt"));
+    const nativeCrashes = nativeLog.findings.filter((finding): finding is NativeCrashFinding => finding.type === "native_crash");
+    assert.strictEqual(nativeCrashes.length, 2, "Expected the tombstone and the bare fatal signal");
+    const [gameCrash, audioCrash] = nativeCrashes;
+    assert.strictEqual(gameCrash.package, "com.example.game");
+    assert.strictEqual(gameCrash.pid, 7311);
+    assert.strictEqual(gameCrash.tid, 7340);
+    assert.strictEqual(gameCrash.threadName, "RenderThread");
+    assert.strictEqual(gameCrash.signalName, "SIGSEGV");
+    assert.strictEqual(gameCrash.code, "1 (SEGV_MAPERR)");
+    assert.strictEqual(gameCrash.faultAddress, "0x0000000000000000");
+    assert(gameCrash.fingerprint?.startsWith("google/sdk_gphone64_x86_64"), "Expected the build fingerprint");
+    assert.strictEqual(gameCrash.backtrace.length, 3);
+    assert.strictEqual(gameCrash.tombstonePath, "/data/tombstones/tombstone_03");
+    assert.strictEqual(audioCrash.package, "com.example.audio");
+    assert.strictEqual(audioCrash.signal, 6);
+    assert.strictEqual(audioCrash.signalName, "SIGABRT");
+    console.log("✅ Native crash findings validated");
+
+    console.log("\n=== Testing ANR detection ===");
+    const anrLog = parseLogcat(readFixture("anr.txt"));
+    assert.strictEqual(anrLog.findings.length, 1, "Expected one ANR");
+    const anr = anrLog.findings[0] as AnrFinding;
+    assert.strictEqual(anr.type, "anr");
+    assert.strictEqual(anr.package, "com.example.reader");
+    assert.strictEqual(anr.component, "com.example.reader/.ReaderActivity");
+    assert.strictEqual(anr.pid, 4477);
+    assert(anr.reason?.startsWith("Input dispatching timed out"), "Expected the ANR reason");
+    assert(anr.details.some((line) => line.startsWith("Load:")), "Expected load details");
+    assert(anr.details.some((line) => line.includes("98% 4477/com.example.reader")), "Expected CPU usage details");
+    assert(!anr.details.some((line) => line.includes("still busy")), "Expected other processes to be excluded");
+    assert(!anr.details.some((line) => line.startsWith("Killing")), "Expected lines at other levels to end the report");
+    console.log("✅ ANR findings validated");
+
+    console.log("\n=== Testing session filterspecs ===");
+    assert.deepStrictEqual(buildLogcatArgs({}), ["logcat", "-v", "threadtime"]);
+    assert.deepStrictEqual(buildLogcatArgs({ priority: "E" }), ["logcat", "-v", "threadtime", "*:E"]);
+    assert.deepStrictEqual(buildLogcatArgs({ tags: ["ShopApp", "OkHttp:W"] }), ["logcat", "-v", "threadtime", "ShopApp:V", "OkHttp:W", "*:S"]);
+    assert.deepStrictEqual(
+      buildLogcatArgs({ packageName: "com.example.shop", priority: "E" }),
+      ["logcat", "-v", "threadtime", "ActivityManager:I", "*:E"],
+      "Expected package sessions to keep ActivityManager's process starts"
+    );
+    assert.deepStrictEqual(
+      buildLogcatArgs({ packageName: "com.example.shop", tags: ["ShopApp"], priority: "D" }),
+      ["logcat", "-v", "threadtime", "ShopApp:D", "ActivityManager:I", "*:S"]
+    );
+    assert.deepStrictEqual(
+      buildLogcatArgs({ packageName: "com.example.shop", tags: ["ActivityManager:W"] }),
+      ["logcat", "-v", "threadtime", "ActivityManager:W", "*:S"],
+      "Expected an explicit ActivityManager filter to be kept"
+    );
+    assert.deepStrictEqual(buildLogcatArgs({ packageName: "com.example.shop" }), ["logcat", "-v", "threadtime"]);
+    console.log("✅ Session filterspecs validated");
+
+    console.log("\n✅ All logcat parser tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,128 @@
+import assert from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseDumpsysPackage, parsePackageList, parsePackagePaths, parseResolvedActivity } from "../src/packages";
+
+/**
+ * Package Parser Tests
+ *
+ * Runs the package parsers against the sample `dumpsys package` and
+ * `pm list packages` output in test/fixtures/packages. No device is
+ * required.
+ */
+
+const PACKAGE = "com.example.app";
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "packages", name), "utf8");
+}
+
+function main(): void {
+  try {
+    const dumpsys = readFixture("dumpsys-package-com.example.app.txt");
+
+    console.log("\n=== Testing dumpsys package ===");
+    const app = parseDumpsysPackage(dumpsys, PACKAGE);
+    assert.strictEqual(app.packageName, PACKAGE);
+    assert.strictEqual(app.versionName, "2.3.1-debug");
+    assert.strictEqual(app.versionCode, 1042);
+    assert.strictEqual(app.minSdk, 24);
+    assert.strictEqual(app.targetSdk, 34);
+    assert.strictEqual(app.uid, 10187, "Expected the UID from appId");
+    assert.strictEqual(app.installer, "com.android.vending");
+    assert.strictEqual(app.firstInstallTime, "2024-10-12 09:30:45");
+    assert.strictEqual(app.lastUpdateTime, "2024-10-19 11:58:13");
+    assert.strictEqual(app.codePath, "/data/app/~~Qm4v7Zx1yP0aLw3B2eKdTg==/com.example.app-8VnX1cR2sT4uW6yZ0aBcDe==");
+    assert.strictEqual(app.debuggable, true);
+    assert.strictEqual(app.system, false);
+    assert.deepStrictEqual(app.flags.slice(0, 4), ["DEBUGGABLE", "HAS_CODE", "ALLOW_CLEAR_USER_DATA", "ALLOW_BACKUP"]);
+    assert(app.flags.includes("HAS_DOMAIN_URLS"), "Expected private flags to be merged");
+    console.log("✅ dumpsys package validated");
+
+    console.log("\n=== Testing permissions ===");
+    assert.deepStrictEqual(app.requestedPermissions, [
+      "android.permission.INTERNET",
+      "android.permission.ACCESS_NETWORK_STATE",
+      "android.permission.CAMERA",
+      "android.permission.POST_NOTIFICATIONS",
+      "android.permission.READ_EXTERNAL_STORAGE",
+      "android.permission.RECEIVE_BOOT_COMPLETED"
+    ], "Expected requested permissions without duplicates or restricted=true");
+    assert.deepStrictEqual(app.grantedPermissions, [
+      "android.permission.RECEIVE_BOOT_COMPLETED",
+      "android.permission.INTERNET",
+      "android.permission.ACCESS_NETWORK_STATE",
+      "android.permission.CAMERA"
+    ]);
+    assert.deepStrictEqual(app.runtimePermissions.find((permission) => permission.name === "android.permission.CAMERA"), {
+      name: "android.permission.CAMERA",
+      granted: true,
+      flags: ["USER_SET", "USER_SENSITIVE_WHEN_GRANTED", "USER_SENSITIVE_WHEN_DENIED"]
+    });
+    assert.strictEqual(app.runtimePermissions.length, 3);
+    console.log("✅ Permissions validated");
+
+    console.log("\n=== Testing per-user state ===");
+    assert.strictEqual(app.enabledState, "default");
+    assert.strictEqual(app.enabled, true);
+    assert.strictEqual(app.installed, true);
+    assert.strictEqual(app.stopped, false);
+    const secondUser = parseDumpsysPackage(dumpsys, PACKAGE, 10);
+    assert.strictEqual(secondUser.enabledState, "disabled_user");
+    assert.strictEqual(secondUser.enabled, false);
+    assert.strictEqual(secondUser.stopped, true);
+    assert(!secondUser.grantedPermissions.includes("android.permission.CAMERA"), "Expected user 10's runtime permissions");
+    assert.strictEqual(parseDumpsysPackage(dumpsys, PACKAGE, 11).enabledState, "default", "Expected an unknown user to fall back to the first one");
+    console.log("✅ Per-user state validated");
+
+    console.log("\n=== Testing components ===");
+    assert.deepStrictEqual(app.components, {
+      activities: ["com.example.app/.MainActivity", "com.example.app/.share.ShareActivity"],
+      services: ["com.example.app/.sync.SyncService"],
+      receivers: ["com.example.app/.BootReceiver"],
+      providers: ["com.example.app/.data.NotesProvider"]
+    });
+    assert.strictEqual(app.launcherActivity, "com.example.app/.MainActivity");
+    assert.throws(() => parseDumpsysPackage(dumpsys, "com.example.other"), /com\.example\.other is not installed/);
+    console.log("✅ Components validated");
+
+    console.log("\n=== Testing pm list packages ===");
+    const packages = parsePackageList(readFixture("pm-list-packages.txt"));
+    assert.deepStrictEqual(packages.map((entry) => entry.packageName), [
+      "com.android.chrome",
+      "com.android.shell",
+      "com.example.app",
+      "com.example.shared"
+    ], "Expected packages sorted by name");
+    assert.deepStrictEqual(packages[2], {
+      packageName: PACKAGE,
+      apkPath: "/data/app/~~Qm4v7Zx1yP0aLw3B2eKdTg==/com.example.app-8VnX1cR2sT4uW6yZ0aBcDe==/base.apk",
+      versionCode: 1042,
+      uid: 10187,
+      installer: "com.android.vending"
+    }, "Expected the package name after the last '=' of the APK path");
+    assert.strictEqual(packages[1].installer, "null");
+    assert.strictEqual(packages[3].uid, 10190, "Expected the first of several shared UIDs");
+    assert.deepStrictEqual(parsePackageList("package:com.example.app\npackage:com.android.shell\n"), [
+      { packageName: "com.android.shell" },
+      { packageName: PACKAGE }
+    ]);
+    console.log("✅ pm list packages validated");
+
+    console.log("\n=== Testing pm path and resolve-activity ===");
+    assert.deepStrictEqual(parsePackagePaths("package:/data/app/x/base.apk\npackage:/data/app/x/split_config.xxhdpi.apk\n"), [
+      "/data/app/x/base.apk",
+      "/data/app/x/split_config.xxhdpi.apk"
+    ]);
+    assert.strictEqual(parseResolvedActivity("priority=0 preferredOrder=0 match=0x108000 specificIndex=-1 isDefault=true\ncom.example.app/.MainActivity\n"), "com.example.app/.MainActivity");
+    assert.strictEqual(parseResolvedActivity("No activity found\n"), undefined);
+    console.log("✅ pm path and resolve-activity validated");
+
+    console.log("\n✅ All package parser tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,179 @@
+import assert from "assert";
+import { DEFAULT_POLICY, PolicyConfig, PolicyAction, ConfirmationStore, evaluatePolicy } from "../src/policy";
+import { extractCommandSubstitutions } from "../src/shell";
+
+/**
+ * Safety Policy Tests
+ *
+ * Evaluates shell commands against the built-in rules and read-only mode,
+ * including commands hidden in substitutions, groups and wrappers. No
+ * device is required.
+ */
+
+const READ_ONLY_POLICY: PolicyConfig = { ...DEFAULT_POLICY, readOnly: true };
+
+function expectAction(policy: PolicyConfig, command: string, action: PolicyAction, tool = "adb_shell"): void {
+  const decision = evaluatePolicy(policy, { tool, command });
+  assert.strictEqual(decision.action, action, `Expected ${action} for ${command}, got ${decision.action}`);
+}
+
+function main(): void {
+  try {
+    console.log("\n=== Testing command substitutions ===");
+    assert.deepStrictEqual(extractCommandSubstitutions("echo $(reboot) `id` '$(quoted)'"), {
+      command: "echo $(...) $(...) '$(quoted)'",
+      substitutions: ["reboot", "id"]
+    });
+    assert.deepStrictEqual(extractCommandSubstitutions("diff <(ls a) \"$(echo \")\")\""), {
+      command: "diff $(...) \"$(...)\"",
+      substitutions: ["ls a", "echo \")\""]
+    }, "Expected quoted parentheses not to close the substitution");
+    assert.deepStrictEqual(extractCommandSubstitutions("(cd /sdcard && ls)"), { command: ";cd /sdcard && ls;", substitutions: [] });
+    console.log("✅ Command substitutions validated");
+
+    console.log("\n=== Testing built-in rules ===");
+    expectAction(DEFAULT_POLICY, "rm -rf /sdcard", "deny");
+    expectAction(DEFAULT_POLICY, "/system/bin/rm -f -r /data/", "deny");
+    expectAction(DEFAULT_POLICY, "rm -rf /sdcard/Download/cache", "confirm");
+    expectAction(DEFAULT_POLICY, "ls /sdcard && reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "sh -c 'settings put global adb_enabled 0'", "confirm");
+    expectAction(DEFAULT_POLICY, "cmd settings put global x 1", "confirm");
+    expectAction(DEFAULT_POLICY, "cmd settings delete secure y", "confirm");
+    expectAction(DEFAULT_POLICY, "pm clear com.example.app", "confirm");
+    console.log("✅ Built-in rules validated");
+
+    console.log("\n=== Testing wrappers ===");
+    expectAction(DEFAULT_POLICY, "time rm -rf /sdcard", "deny");
+    expectAction(DEFAULT_POLICY, "time -p rm -rf /sdcard", "deny");
+    expectAction(DEFAULT_POLICY, "FOO=1 toybox rm -rf /sdcard", "deny");
+    expectAction(DEFAULT_POLICY, "env -u HOME rm -rf /data", "deny");
+    expectAction(DEFAULT_POLICY, "eval reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "eval 'ls; reboot'", "confirm");
+    expectAction(DEFAULT_POLICY, "timeout 5 reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "timeout -s KILL 5 reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "nice reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "nice -n 10 reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "ionice -c 3 reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "echo x | xargs reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "echo /sdcard | xargs -n 1 rm -rf", "confirm");
+    expectAction(DEFAULT_POLICY, "su 0 reboot", "confirm");
+    expectAction(DEFAULT_POLICY, "su root rm -rf /sdcard", "deny");
+    expectAction(DEFAULT_POLICY, "su -c 'rm -rf /data'", "deny");
+    expectAction(DEFAULT_POLICY, "su 0 sh -c reboot", "confirm");
+    console.log("✅ Wrappers validated");
+
+    console.log("\n=== Testing substitutions and groups ===");
+    expectAction(DEFAULT_POLICY, "echo $(reboot)", "confirm");
+    expectAction(DEFAULT_POLICY, "echo `reboot`", "confirm");
+    expectAction(DEFAULT_POLICY, "echo \"$(rm -rf /sdcard)\"", "deny");
+    expectAction(DEFAULT_POLICY, "cat <(reboot)", "confirm");
+    expectAction(DEFAULT_POLICY, "(reboot)", "confirm");
+    expectAction(DEFAULT_POLICY, "{ reboot; }", "confirm");
+    expectAction(DEFAULT_POLICY, "if true; then reboot; fi", "confirm");
+    expectAction(DEFAULT_POLICY, "while true; do rm -rf /sdcard; done", "deny");
+    expectAction(DEFAULT_POLICY, "for p in a b; do pm uninstall $p; done", "confirm");
+    expectAction(DEFAULT_POLICY, "f() { reboot; }; f", "confirm");
+    expectAction(DEFAULT_POLICY, "! reboot", "confirm");
+    console.log("✅ Substitutions and groups validated");
+
+    console.log("\n=== Testing commands known only at run time ===");
+    expectAction(DEFAULT_POLICY, "$CMD", "confirm");
+    expectAction(DEFAULT_POLICY, "$(echo reboot)", "confirm");
+    expectAction(DEFAULT_POLICY, "echo reboot | sh", "confirm");
+    expectAction(DEFAULT_POLICY, "sh /data/local/tmp/script.sh", "confirm");
+    expectAction(DEFAULT_POLICY, "sh -c \"$(cat /sdcard/cmd)\"", "confirm");
+    expectAction(DEFAULT_POLICY, ". /sdcard/env.sh", "confirm");
+    expectAction(DEFAULT_POLICY, "su", "confirm");
+    expectAction(DEFAULT_POLICY, "sh -c 'sh -c \"sh -c \\\"sh -c ls\\\"\"'", "confirm");
+    console.log("✅ Commands known only at run time validated");
+
+    console.log("\n=== Testing allowed commands ===");
+    for (const command of [
+      "ls -la /sdcard",
+      "echo $HOME",
+      "getprop ro.build.version.sdk",
+      "for f in /sdcard/*; do echo $f; done",
+      "echo $(getprop ro.product.model)",
+      "(cd /sdcard && ls)",
+      "ps -A | grep com.example",
+      "timeout 5 logcat -d",
+      "$HOME/bin/tool --version",
+      "echo 'reboot; $(reboot)'"
+    ]) {
+      expectAction(DEFAULT_POLICY, command, "allow");
+    }
+    console.log("✅ Allowed commands validated");
+
+    console.log("\n=== Testing read-only mode ===");
+    for (const tool of ["adb_install", "app_data_write", "adb_tap", "adb_input_text", "element_action", "screenrecord_start", "screenrecord_stop"]) {
+      expectAction(READ_ONLY_POLICY, "", "deny", tool);
+    }
+    for (const command of [
+      "ls /sdcard",
+      "getprop",
+      "cmd settings get global adb_enabled",
+      "cmd package list packages",
+      "dumpsys battery",
+      "date +%s",
+      "logcat -d | grep ActivityManager"
+    ]) {
+      expectAction(READ_ONLY_POLICY, command, "allow");
+    }
+    for (const command of [
+      "touch /sdcard/x",
+      "echo x > /sdcard/x",
+      "cmd settings put global x 1",
+      "cmd package install /sdcard/app.apk",
+      "dumpsys battery set level 5",
+      "date -s 20240101",
+      "logcat -c",
+      "echo $(touch /sdcard/x)",
+      "time touch /sdcard/x",
+      "$CMD",
+      "sh -c 'sh -c \"sh -c \\\"sh -c ls\\\"\"'"
+    ]) {
+      expectAction(READ_ONLY_POLICY, command, "deny");
+    }
+    const allowed = evaluatePolicy(
+      { ...READ_ONLY_POLICY, rules: [{ action: "allow", tokens: ["touch"] }] },
+      { tool: "adb_shell", command: "touch /sdcard/x" }
+    );
+    assert.strictEqual(allowed.action, "allow", "Expected a configured allow rule to lift read-only mode");
+    console.log("✅ Read-only mode validated");
+
+    console.log("\n=== Testing configured rules ===");
+    const policy: PolicyConfig = {
+      readOnly: false,
+      defaultRules: true,
+      rules: [
+        { action: "deny", tokens: ["input"], devices: ["emulator-*"], reason: "No input on emulators" },
+        { action: "allow", tokens: ["reboot"], tools: ["adb_shell"] }
+      ]
+    };
+    assert.strictEqual(evaluatePolicy(policy, { tool: "adb_shell", device: "emulator-5554", command: "input tap 1 1" }).reason, "No input on emulators");
+    expectAction(policy, "input tap 1 1", "allow");
+    expectAction(policy, "timeout 5 reboot", "allow");
+    const decision = evaluatePolicy(policy, { tool: "adb_shell", command: "reboot; rm -rf /sdcard" });
+    assert.strictEqual(decision.action, "deny");
+    assert.strictEqual(decision.segment, "rm -rf /sdcard", "Expected the most restrictive segment to decide");
+    console.log("✅ Configured rules validated");
+
+    console.log("\n=== Testing confirmations ===");
+    const store = new ConfirmationStore();
+    const request = { tool: "adb_shell", device: "emulator-5554", command: "reboot" };
+    const token = store.issue(request);
+    assert.strictEqual(store.consume(token, { ...request, command: "reboot bootloader" }), false, "Expected a token to be bound to its command");
+    assert.strictEqual(store.consume(token, request), true);
+    assert.strictEqual(store.consume(token, request), false, "Expected a token to be single-use");
+    const expired = new ConfirmationStore(-1);
+    assert.strictEqual(expired.consume(expired.issue(request), request), false);
+    console.log("✅ Confirmations validated");
+
+    console.log("\n✅ All policy tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,125 @@
+import assert from "assert";
+import {
+  isReadOnlyStatement,
+  describeUnsafeSql,
+  supportsSafeMode,
+  limitQuery,
+  buildSqliteArgs,
+  describeSqliteError,
+  parseQuoteModeOutput
+} from "../src/sqlite";
+
+/**
+ * SQLite Helper Tests
+ *
+ * Checks which statements app_db_query runs as reads, which SQL it refuses
+ * outright, and parses sqlite3 quote mode output as the shell prints it.
+ * No device is required.
+ */
+
+function main(): void {
+  try {
+    console.log("\n=== Testing read-only statements ===");
+    for (const sql of [
+      "SELECT * FROM notes",
+      "  select count(*) from notes;",
+      "SELECT replace(title, 'a', 'b') FROM notes",
+      "SELECT 'x; DROP TABLE notes' AS text -- ; DELETE FROM notes",
+      "SELECT 1 /* ; UPDATE notes SET x = 1 */",
+      "SELECT \"updated_at\" FROM notes",
+      "WITH recent AS (SELECT * FROM notes ORDER BY id DESC LIMIT 5) SELECT * FROM recent",
+      "VALUES (1), (2)",
+      "EXPLAIN QUERY PLAN SELECT * FROM notes WHERE id = 1",
+      "PRAGMA table_info(notes)",
+      "PRAGMA user_version;;"
+    ]) {
+      assert.strictEqual(isReadOnlyStatement(sql), true, `Expected a read: ${sql}`);
+    }
+    for (const sql of [
+      "DELETE FROM notes",
+      "WITH doomed AS (SELECT id FROM notes) DELETE FROM notes WHERE id IN doomed",
+      "WITH x AS (SELECT 1) INSERT INTO notes SELECT * FROM x",
+      "WITH x AS (SELECT 1) REPLACE INTO notes SELECT * FROM x",
+      "WITH x AS (SELECT 1) UPDATE notes SET title = 'x'",
+      "SELECT 1; DROP TABLE notes",
+      "SELECT 1; SELECT 2",
+      "PRAGMA user_version = 3",
+      "PRAGMA journal_mode=WAL",
+      "SELECT 1; ATTACH '/sdcard/x.db' AS x",
+      "VACUUM",
+      ""
+    ]) {
+      assert.strictEqual(isReadOnlyStatement(sql), false, `Expected a write or several statements: ${sql}`);
+    }
+    console.log("✅ Read-only statements validated");
+
+    console.log("\n=== Testing unsafe SQL ===");
+    assert.strictEqual(describeUnsafeSql("SELECT writefile('/sdcard/x', data) FROM blobs"), "writefile()");
+    assert.strictEqual(describeUnsafeSql("SELECT readfile ('/data/system/users/0.xml')"), "readfile()");
+    assert.strictEqual(describeUnsafeSql("SELECT \"readfile\"('/etc/hosts')"), "readfile()", "Expected quoted identifiers to be seen through");
+    assert.strictEqual(describeUnsafeSql("SELECT [WriteFile]('x', 'y')"), "writefile()");
+    assert.strictEqual(describeUnsafeSql("SELECT `edit`('x')"), "edit()");
+    assert.strictEqual(describeUnsafeSql("SELECT load_extension('/data/local/tmp/x.so')"), "load_extension()");
+    assert.strictEqual(describeUnsafeSql("attach database '/sdcard/x.db' as x"), "ATTACH");
+    assert.strictEqual(describeUnsafeSql(".shell reboot"), "sqlite3 dot commands");
+    assert.strictEqual(describeUnsafeSql("  .output /sdcard/x"), "sqlite3 dot commands");
+    assert.strictEqual(describeUnsafeSql("SELECT 'writefile(' AS text, edited FROM notes -- readfile("), undefined, "Expected strings and comments to be ignored");
+    assert.strictEqual(describeUnsafeSql("UPDATE notes SET attachment = NULL"), undefined);
+    console.log("✅ Unsafe SQL validated");
+
+    console.log("\n=== Testing sqlite3 arguments ===");
+    assert.strictEqual(supportsSafeMode("3.37.0 2021-11-27 14:13:22 bd41822c7424d393a30e92ff6cb254d25c26769889c1499a18a0b9339f5d6c8a"), true);
+    assert.strictEqual(supportsSafeMode("3.50.2 2025-06-28"), true);
+    assert.strictEqual(supportsSafeMode("3.36.0 2021-06-18"), false);
+    assert.strictEqual(supportsSafeMode("3.22.0 2018-01-22"), false);
+    assert.strictEqual(supportsSafeMode(undefined), false);
+    assert.strictEqual(supportsSafeMode("/system/bin/sh: sqlite3: inaccessible or not found"), false);
+    assert.deepStrictEqual(
+      buildSqliteArgs("/data/data/com.example.app/databases/app.db", "SELECT 1", true, true),
+      ["-safe", "-readonly", "-bail", "-cmd", ".mode quote", "-cmd", ".headers on", "/data/data/com.example.app/databases/app.db", "SELECT 1"]
+    );
+    assert.deepStrictEqual(buildSqliteArgs("app.db", "DELETE FROM notes", false, false).slice(0, 2), ["-bail", "-cmd"]);
+    assert.strictEqual(limitQuery("SELECT * FROM notes;", 10), "SELECT * FROM (SELECT * FROM notes) LIMIT 11");
+    assert.strictEqual(limitQuery("PRAGMA table_info(notes)", 10), "PRAGMA table_info(notes)");
+    assert.strictEqual(describeSqliteError("Command failed: sqlite3 ...\nParse error near line 1: no such table: nope\n"), "Parse error near line 1: no such table: nope");
+    assert.strictEqual(describeSqliteError("device offline"), undefined);
+    console.log("✅ sqlite3 arguments validated");
+
+    console.log("\n=== Testing quote mode output ===");
+    const result = parseQuoteModeOutput([
+      "'id','title','score','data','note','title'",
+      "1,'Ada',9.5,X'00ff10',NULL,'x'",
+      "9007199254740993,'it''s',-1.5e-3,X'',replace('line 1\\nline 2','\\n',char(10)),'y'",
+      "-3,unistr('tab\\u0009end \\\\ emoji \\U0001f600'),0.0,NULL,'raw",
+      "newline','z'",
+      ""
+    ].join("\n"));
+    assert.deepStrictEqual(result.columns, [
+      { name: "id", type: "integer" },
+      { name: "title", type: "text" },
+      { name: "score", type: "real" },
+      { name: "data", type: "blob|null" },
+      { name: "note", type: "text|null" },
+      { name: "title:2", type: "text" }
+    ], "Expected duplicate column names to be numbered");
+    assert.deepStrictEqual(result.rows[0], { id: 1, title: "Ada", score: 9.5, data: "AP8Q", note: null, "title:2": "x" });
+    assert.strictEqual(result.rows[1].id, "9007199254740993", "Expected integers above 2^53 to keep their digits");
+    assert.strictEqual(result.rows[1].title, "it's");
+    assert.strictEqual(result.rows[1].score, -0.0015);
+    assert.strictEqual(result.rows[1].data, "");
+    assert.strictEqual(result.rows[1].note, "line 1\nline 2", "Expected replace() escapes to be decoded");
+    assert.strictEqual(result.rows[2].title, "tab\tend \\ emoji \u{1f600}", "Expected unistr() escapes to be decoded");
+    assert.strictEqual(result.rows[2].note, "raw\nnewline", "Expected raw newlines inside strings to stay in the value");
+    assert.deepStrictEqual(parseQuoteModeOutput("\n"), { columns: [], rows: [] });
+    assert.throws(() => parseQuoteModeOutput("'a','b'\n1\n"), /Row 1 has 1 values for 2 columns/);
+    assert.throws(() => parseQuoteModeOutput("'a'\n'unterminated\n"), /expected end of string/);
+    console.log("✅ Quote mode output validated");
+
+    console.log("\n✅ All SQLite tests passed");
+  } catch (error) {
+    console.error("❌ Test failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();